@@ -17,13 +17,17 @@
  * KEY FIX: Camera cannot run simultaneously with voice recognition on iOS.
  * The camera session gets corrupted when voice recognition is active.
  * Solution: Set camera isActive={false} while listening, reactivate for capture.
+ *
+ * INTERACTION STATE: interactionMachine (src/services/InteractionStateMachine)
+ * is the only record of what the app is doing. The UI flags come from its
+ * snapshot (useInteractionState), taps switch on its state, and async work
+ * checks isCurrentRun(run) instead of emergency / abort refs.
  */
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   StyleSheet,
   View,
-  TouchableWithoutFeedback,
   Platform,
   PermissionsAndroid,
   Alert,
@@ -31,28 +35,62 @@ import {
   Dimensions,
   StatusBar,
   AccessibilityInfo,
+  AccessibilityActionEvent,
+  AccessibilityActionInfo,
+  DevSettings,
 } from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { Camera, useCameraDevice, useCameraPermission, useMicrophonePermission } from 'react-native-vision-camera';
 import { useTTS } from './src/hooks/useTTS';
 import { useSTT } from './src/hooks/useSTT_Enhanced';
 import {
-  sendToWorkflow,
-  isContinuousModeActive,
+  streamFromWorkflow,
   getCurrentMode,
-  startContinuousMode,
-  stopContinuousMode,
-  incrementContinuousMode,
-  getCurrentLoopDelay,
-  shouldPreventInfiniteLoop,
-  updateLoopDelay,
-  getSessionId,
   resetSessionId,
+  determineActionMode,
 } from './src/services/WorkflowService';
+import { actionRegistry, ActionDefinition, ActionType } from './src/services/ActionRegistry';
+import { interactionMachine, InteractionEvent } from './src/services/InteractionStateMachine';
+import { continuousLoopEngine, LoopDriver } from './src/services/ContinuousLoopEngine';
+import { useInteractionState } from './src/hooks/useInteractionState';
+import { ReachingEventData, ReachingEvents } from './src/native/ReachingModule';
+import { offlineQueue, OfflineQueuedError } from './src/services/OfflineRequestQueue';
+import { isCancelledError, isWorkflowError } from './src/services/WorkflowErrors';
+import { environmentService } from './src/services/EnvironmentService';
+import { imagePreprocessor } from './src/services/ImagePreprocessor';
+import { sessionManager } from './src/services/SessionManager';
+import { latencyTracer, SpanHandle } from './src/services/LatencyTracer';
+import { burstCapture } from './src/services/BurstCapture';
+import { loopDelayController } from './src/services/LoopDelayController';
+import { conversationLog } from './src/services/ConversationLog';
+import { authService } from './src/services/AuthService';
+import { capabilityService, ACTION_LABELS } from './src/services/CapabilityService';
+import { gestureMap, GestureAction, SurfaceGesture, GESTURE_ACTIONS, GESTURE_NAMES } from './src/services/GestureMap';
+import { speechSettings } from './src/services/SpeechSettings';
+import { localCommandInterceptor } from './src/services/LocalCommandInterceptor';
+import { wakePhraseDetector, WakeOffReason } from './src/services/WakePhraseDetector';
+import { bargeInController } from './src/services/BargeInController';
 import { VoiceVisualizer } from './src/components/VoiceVisualizer';
+import { GestureSurface } from './src/components/GestureSurface';
+import SignInScreen from './src/components/SignInScreen';
 import { playSound } from './src/utils/soundEffects';
 import { audioFeedback } from './src/services/AudioFeedbackService';
 import { speachesSentenceChunker } from './src/services/SpeachesSentenceChunker';
-import { NAVIGATION_CONFIG } from './src/utils/constants';
+import {
+  BURST_CAPTURE_CONFIG,
+  CAPABILITY_CONFIG,
+  NAVIGATION_CONFIG,
+  WAKE_PHRASE_CONFIG,
+} from './src/utils/constants';
+import {
+  BackendActionType,
+  BackendCapabilities,
+  BurstUploadFrame,
+  CameraPhoto,
+  ProcessedImage,
+  WorkflowRequest,
+  WorkflowResponse,
+} from './src/utils/types';
 
 const { width, height } = Dimensions.get('window');
 
@@ -61,22 +99,100 @@ const { width, height } = Dimensions.get('window');
 // =============================================================================
 const CAMERA_REACTIVATION_DELAY_MS = 800;  // Wait for camera to fully initialize
 const AUDIO_SESSION_RELEASE_DELAY_MS = 300; // Wait for audio session to release
-const TTS_COMPLETION_BUFFER_MS = 500; // Buffer after TTS before next loop iteration
+
+// Offered to VoiceOver / TalkBack as well, since the surface gestures are off for them
+const SCREEN_READER_ACTIONS: GestureAction[] = [
+  'repeatAnswer',
+  'stop',
+  'slowerSpeech',
+  'fasterSpeech',
+  'newConversation',
+  'continueConversation',
+  'recentConversation',
+  'gestureHelp',
+  'handsFree',
+];
+
+// DevSettings menu items cannot be removed, so register them once
+let devMenuRegistered = false;
+
+/**
+ * Only when requests would go out with no credentials at all (no
+ * participant tokens and no development key). Opens the sign-in screen
+ * where the backend has a token service.
+ */
+const announceIfSignedOut = async () => {
+  if (await authService.hasAccess()) {
+    return;
+  }
+  console.warn('🔑 Device is not signed in');
+  if (authService.canSignIn()) {
+    AccessibilityInfo.announceForAccessibility(
+      'This device is not signed in. Enter the participant id and enrollment code from the study team.'
+    );
+    openSignInScreen();
+  } else {
+    AccessibilityInfo.announceForAccessibility(
+      'This device is not signed in. Please ask the study team to set it up.'
+    );
+  }
+};
+
+/**
+ * e.g. "Navigation and Object guidance are not supported by this server."
+ */
+const describeUnsupported = (actions: BackendActionType[]): string => {
+  const labels = actions.map(action => ACTION_LABELS[action]);
+  return `${labels.join(' and ')} ${labels.length > 1 ? 'are' : 'is'} not supported by this server.`;
+};
+
+/**
+ * Say up front which features the backend lacks (after the handshake)
+ */
+const announceUnsupportedFeatures = (capabilities: BackendCapabilities) => {
+  if (!CAPABILITY_CONFIG.ANNOUNCE_UNSUPPORTED || capabilities.source !== 'backend') {
+    return;
+  }
+
+  // AR guidance only exists on iOS, Android users never miss it
+  const unsupported = capabilityService.getUnsupportedActions()
+    .filter(action => action !== 'reaching_ios' || Platform.OS === 'ios');
+  if (unsupported.length > 0) {
+    AccessibilityInfo.announceForAccessibility(describeUnsupported(unsupported));
+  }
+};
+
+/**
+ * Opens SignInScreen in the mounted App (launch while signed out, the
+ * "sign in" voice command, the dev menu)
+ */
+let openSignInScreen: () => void = () => { };
+
+const promptParticipantSignIn = () => {
+  if (!authService.canSignIn()) {
+    Alert.alert('Sign in participant', `${environmentService.getEnvironment().label} has no participant sign-in yet.`);
+    return;
+  }
+  openSignInScreen();
+};
+
+const signInParticipant = async (participantId: string, enrollmentCode: string) => {
+  await authService.signIn(participantId, enrollmentCode);
+};
 
 function App(): React.JSX.Element {
   // ============================================================================
   // State Management
   // ============================================================================
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const [isNavigation, setIsNavigation] = useState(false);
-  const [isReaching, setIsReaching] = useState(false);
+  // idle / listening / capturing / processing / speaking / continuous /
+  // native_reaching - see InteractionStateMachine
+  const interaction = useInteractionState();
+  const { isProcessing, isSpeaking, isNavigation, isReaching } = interaction;
   const [screenReaderEnabled, setScreenReaderEnabled] = useState(false);
   const [reduceMotionEnabled, setReduceMotionEnabled] = useState(false);
-  const isContinuousModeRunning = useRef(false);
-  const continuousModeAbortRef = useRef(false);
 
   const [isCameraActive, setIsCameraActive] = useState(true);
+  const [signInVisible, setSignInVisible] = useState(false);
 
   // ============================================================================
   // Camera & Permissions
@@ -94,15 +210,12 @@ function App(): React.JSX.Element {
   const { speak, stop: stopTTS } = useTTS();
 
   // ============================================================================
-  // Internal State Management (Refs for synchronous access)
+  // Request data (interaction state lives in interactionMachine)
   // ============================================================================
-  const isEmergencyStopped = useRef(false);
-  const isProcessingRef = useRef(false);
   const finalTranscriptRef = useRef('');
   const abortControllerRef = useRef<AbortController | null>(null);
-  const isCapturingPhotoRef = useRef(false);
-  const isNavigationLoopRunning = useRef(false); // Track if loop is actively running
-  const navigationLoopAbortRef = useRef(false); // Signal to stop navigation loop
+  const lastPhotoRef = useRef<ProcessedImage | null>(null); // Last preprocessed capture
+  const lastBurstRef = useRef<{ primaryPath: string; frames: BurstUploadFrame[] } | null>(null);
 
   // ============================================================================
   // Animation
@@ -111,12 +224,128 @@ function App(): React.JSX.Element {
   const opacityAnim = useRef(new Animated.Value(0.3)).current;
 
   // ============================================================================
-  // Log session info on mount
+  // Log session info on mount (restores the last conversation if recent)
   // ============================================================================
   useEffect(() => {
     console.log('🚀 CyberSight App Started');
-    console.log('🆔 Session ID:', getSessionId());
     console.log('🔄 Navigation loop enabled:', NAVIGATION_CONFIG.ENABLE_NAVIGATION_LOOP);
+
+    // Backend selection, credentials and capabilities first, so session
+    // events go to the right endpoint as the right participant
+    environmentService.load()
+      .then(() => authService.load())
+      .then(() => announceIfSignedOut())
+      .then(() => capabilityService.negotiate())
+      .then(capabilities => {
+        announceUnsupportedFeatures(capabilities);
+        return sessionManager.load();
+      })
+      .then(session => {
+        console.log('🆔 Session ID:', session.id, `(${session.turnCount} turns)`);
+      });
+    conversationLog.load();
+    speechSettings.load();
+    gestureMap.load();
+  }, []);
+
+  const [gestureMappings, setGestureMappings] = useState(gestureMap.getMappings());
+  useEffect(() => gestureMap.onChange(setGestureMappings), []);
+
+  // ============================================================================
+  // Offline Queue - answer saved questions when connectivity returns
+  // ============================================================================
+  useEffect(() => {
+    // Only deliver late answers while nothing else is happening
+    offlineQueue.setDeliveryGate(() =>
+      interactionMachine.is('idle') &&
+      !speachesSentenceChunker.isCurrentlyPlaying()
+    );
+
+    const unsubscribe = offlineQueue.onAnswer(async (item, response) => {
+      console.log('📬 [OfflineQueue] Answer arrived for:', item.transcript);
+      if (!interactionMachine.send({ type: 'SPEAK' })) {
+        return;
+      }
+      const run = interactionMachine.getRunId();
+      audioFeedback.playEarcon('speaking');
+      try {
+        await speachesSentenceChunker.synthesizeSpeechChunked(
+          `Answer to your earlier question, ${item.transcript}. ${response.text}`
+        );
+      } catch (error) {
+        console.warn('⚠️ Could not speak queued answer:', error);
+      }
+      if (interactionMachine.isCurrentRun(run)) {
+        interactionMachine.send({ type: 'DONE' });
+        AccessibilityInfo.announceForAccessibility('Ready. Tap to speak.');
+      }
+    });
+
+    // The startup flush must reach the selected backend with credentials
+    // (both loads are shared with the startup chain above)
+    let unmounted = false;
+    environmentService.load()
+      .then(() => authService.load())
+      .then(() => {
+        if (!unmounted) {
+          offlineQueue.start();
+        }
+      });
+
+    return () => {
+      unmounted = true;
+      unsubscribe();
+      offlineQueue.stop();
+    };
+  }, []);
+
+  // ============================================================================
+  // Backend Environment - persisted selection, switchable from the dev menu
+  // ============================================================================
+  useEffect(() => {
+    environmentService.load();
+
+    const unsubscribe = environmentService.onChange((environment) => {
+      // Handshake first: the new session's events wait for its answer
+      const negotiated = capabilityService.negotiate();
+      // Session ids from one backend mean nothing to another
+      const newSessionId = resetSessionId('backend_switched');
+      console.log('🆔 New session for', environment.id, newSessionId);
+      AccessibilityInfo.announceForAccessibility(`Backend switched to ${environment.label}.`);
+      announceIfSignedOut();
+      negotiated.then(announceUnsupportedFeatures);
+    });
+
+    const unsubscribeAuth = authService.onChange((signedIn) => {
+      AccessibilityInfo.announceForAccessibility(signedIn
+        ? 'Signed in.'
+        : 'This device was signed out. Please ask the study team to sign it in again.');
+    });
+
+    latencyTracer.load();
+
+    openSignInScreen = () => setSignInVisible(true);
+    if (__DEV__ && !devMenuRegistered) {
+      devMenuRegistered = true;
+      DevSettings.addMenuItem('Switch backend environment', () => {
+        environmentService.cycleEnvironment();
+      });
+      DevSettings.addMenuItem('Export latency traces', () => {
+        latencyTracer.exportTraces()
+          .then(path => Alert.alert('Latency traces exported', path))
+          .catch(error => console.error('❌ Trace export failed:', error));
+      });
+      DevSettings.addMenuItem('Sign in participant', promptParticipantSignIn);
+      DevSettings.addMenuItem('Sign out participant', () => {
+        authService.signOut();
+      });
+    }
+
+    return () => {
+      unsubscribe();
+      unsubscribeAuth();
+      openSignInScreen = () => { };
+    };
   }, []);
 
   // ============================================================================
@@ -143,8 +372,116 @@ function App(): React.JSX.Element {
   // ============================================================================
   // Reactivate Camera and Capture Photo
   // ============================================================================
-  const reactivateCameraAndCapture = async (): Promise<string> => {
+  /**
+   * Downscale / recompress / strip metadata before upload
+   * Remembers the result so requests can report the uploaded image size
+   * (and the camera orientation, for mapping a bbox to the sensor)
+   */
+  const preparePhotoForUpload = async (photo: CameraPhoto): Promise<string> => {
+    const processed = await imagePreprocessor.preprocess(photo.path, photo.width, photo.height);
+    lastPhotoRef.current = { ...processed, orientation: photo.orientation, isMirrored: photo.isMirrored };
+    return processed.path;
+  };
+
+  /**
+   * Image dimensions for a request, if photoPath is the last processed photo
+   */
+  const getPhotoSize = (photoPath: string): Pick<
+    WorkflowRequest,
+    'imageWidth' | 'imageHeight' | 'imageOrientation' | 'imageMirrored'
+  > => {
+    const photo = lastPhotoRef.current;
+    if (!photoPath || !photo || photo.path !== photoPath || !photo.width || !photo.height) {
+      return {};
+    }
+    return {
+      imageWidth: photo.width,
+      imageHeight: photo.height,
+      imageOrientation: photo.orientation,
+      imageMirrored: photo.isMirrored,
+    };
+  };
+
+  /**
+   * Burst frames to upload with photoPath, if it came from a multi-frame burst
+   */
+  const getBurstFrames = (photoPath: string): { frames?: BurstUploadFrame[] } => {
+    const burst = lastBurstRef.current;
+    if (!photoPath || !burst || burst.primaryPath !== photoPath) {
+      return {};
+    }
+    return { frames: burst.frames };
+  };
+
+  /**
+   * A malformed flag must not silently stop navigation - tell the user.
+   * Same for an action the backend asked for but does not support.
+   */
+  const warnIfIncomplete = (response: WorkflowResponse) => {
+    if (response.diagnostics && response.diagnostics.errors.length > 0) {
+      AccessibilityInfo.announceForAccessibility(
+        'Warning: The server response was incomplete. Some actions may not work.'
+      );
+    }
+
+    const unsupported = (response.diagnostics?.warnings || [])
+      .filter(issue => issue.code === 'unsupported_action')
+      .map(issue => issue.field as BackendActionType);
+    if (unsupported.length > 0) {
+      AccessibilityInfo.announceForAccessibility(describeUnsupported(unsupported));
+    }
+  };
+
+  /**
+   * Several frames a short interval apart, so one motion-blurred frame
+   * does not waste a loop iteration (see BurstCapture)
+   */
+  const captureBurst = async (captureSpan: SpanHandle): Promise<string> => {
+    const camera = cameraRef.current;
+    if (!camera) {
+      captureSpan.end({ captured: false });
+      return '';
+    }
+
+    try {
+      const frames = await burstCapture.capture(index => camera.takePhoto({
+        enableShutterSound: index === 0,
+      }));
+      const { primary, upload, discard } = burstCapture.select(frames);
+      captureSpan.end({ captured: true, frames: frames.length, uploaded: upload.length });
+      await burstCapture.discard(discard);
+
+      const uploadFrames: BurstUploadFrame[] = [];
+      let primaryPath = '';
+      for (const frame of upload) {
+        const uri = frame === primary
+          ? await preparePhotoForUpload(frame)
+          : (await imagePreprocessor.preprocess(frame.path, frame.width, frame.height)).path;
+        if (frame === primary) {
+          primaryPath = uri;
+        }
+        uploadFrames.push({ uri, capturedAt: frame.capturedAt });
+      }
+
+      lastBurstRef.current = uploadFrames.length > 1 ? { primaryPath, frames: uploadFrames } : null;
+      return primaryPath;
+    } catch (error) {
+      console.error('❌ Burst capture failed:', error);
+      captureSpan.end({ captured: false, frames: 0 });
+      return '';
+    }
+  };
+
+  /**
+   * @param burst - Continuous mode iteration: take a burst if enabled
+   * @param warmupMs - Wait for the camera (shorter once a loop keeps it running)
+   */
+  const reactivateCameraAndCapture = async (
+    burst: boolean = false,
+    warmupMs: number = CAMERA_REACTIVATION_DELAY_MS
+  ): Promise<string> => {
     console.log('📷 Reactivating camera for capture...');
+    const captureSpan = latencyTracer.startSpan('camera_capture');
 
     console.log('📷 Camera ref exists:', !!cameraRef.current);
     console.log('📷 Camera active state:', isCameraActive);
@@ -153,16 +490,21 @@ function App(): React.JSX.Element {
     setIsCameraActive(true);
 
     // Step 2: Wait for camera to fully initialize
-    console.log(`⏳ Waiting ${CAMERA_REACTIVATION_DELAY_MS}ms for camera to initialize...`);
-    await new Promise(resolve => setTimeout(resolve, CAMERA_REACTIVATION_DELAY_MS));
+    console.log(`⏳ Waiting ${warmupMs}ms for camera to initialize...`);
+    await new Promise(resolve => setTimeout(resolve, warmupMs));
 
     // Step 3: Check if camera ref is available
     if (!cameraRef.current) {
       console.error('❌ Camera ref not available after reactivation');
+      captureSpan.end({ captured: false });
       return '';
     }
 
-    // Step 4: Take photo
+    // Step 4: Take photo (or a burst of them)
+    if (burst && BURST_CAPTURE_CONFIG.ENABLED) {
+      return captureBurst(captureSpan);
+    }
+
     try {
       console.log('📸 Taking photo...');
       const photo = await cameraRef.current.takePhoto({
@@ -170,7 +512,8 @@ function App(): React.JSX.Element {
         enableShutterSound: true,
       });
       console.log('✅ Photo captured successfully:', photo.path);
-      return photo.path;
+      captureSpan.end({ captured: true });
+      return await preparePhotoForUpload(photo);
     } catch (error) {
       console.error('❌ Photo capture failed:', error);
 
@@ -184,486 +527,107 @@ function App(): React.JSX.Element {
           enableShutterSound: false,
         });
         console.log('✅ Photo captured on retry:', retryPhoto.path);
-        return retryPhoto.path;
+        captureSpan.end({ captured: true, retried: true });
+        return await preparePhotoForUpload(retryPhoto);
       } catch (retryError) {
         console.error('❌ Retry also failed:', retryError);
+        captureSpan.end({ captured: false, retried: true });
         return '';
       }
     }
   };
 
-  // ============================================================================
-  // NAVIGATION LOOP IMPLEMENTATION
-  // ============================================================================
-
   /**
-   * Run the navigation loop
-   * 
-   * Loop: capture photo → send to backend → speak TTS → wait → repeat
-   * Until: backend returns navigation: false OR user taps to interrupt
+   * Stop any loop and let a handover action (e.g. iOS ARKit reaching)
+   * take over. The response text has already been spoken.
    */
-  const runNavigationLoop = useCallback(async () => {
-    if (!NAVIGATION_CONFIG.ENABLE_NAVIGATION_LOOP) {
-      console.log('🔄 [NavLoop] Navigation loop is disabled in config');
-      return;
-    }
+  const handOverToAction = useCallback(async (action: ActionDefinition, result: WorkflowResponse) => {
+    console.log(`🎯 [${action.type}] TAKING OVER`, { bbox: result.bbox, object: result.object });
 
-    if (isNavigationLoopRunning.current) {
-      console.log('🔄 [NavLoop] Loop already running');
+    // 1. Stop the continuous loop (leaving 'continuous' ends it)
+    if (!interactionMachine.send({ type: 'HANDOVER', actionType: action.type })) {
       return;
     }
+    continuousLoopEngine.stop(`${action.type} takeover`);
 
-    console.log('🔄 [NavLoop] Starting navigation loop');
-    isNavigationLoopRunning.current = true;
-    navigationLoopAbortRef.current = false;
-
-    setIsNavigation(true);
-    AccessibilityInfo.announceForAccessibility('Navigation started. Tap to stop.');
-
-    while (!navigationLoopAbortRef.current && !isEmergencyStopped.current) {
-      // Check for infinite loop prevention
-      if (shouldPreventInfiniteLoop()) {
-        console.log('🔄 [NavLoop] Stopping due to safety limits');
-        AccessibilityInfo.announceForAccessibility('Navigation stopped due to time limit.');
-        break;
-      }
-
-      try {
-        incrementNavigationLoop();
-
-        // Step 1: Wait for the configured delay
-        const delay = getCurrentLoopDelay();
-        console.log(`🔄 [NavLoop] Waiting ${delay}ms before next iteration`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-
-        // Check if aborted during delay
-        if (navigationLoopAbortRef.current || isEmergencyStopped.current) {
-          console.log('🔄 [NavLoop] Aborted during delay');
-          break;
-        }
-
-        // Step 2: Capture photo
-        console.log('🔄 [NavLoop] Capturing photo...');
-        const photoPath = await reactivateCameraAndCapture();
-
-        if (!photoPath) {
-          console.warn('🔄 [NavLoop] Failed to capture photo, continuing with voice-only');
-        }
+    // 2. Announce to user
+    AccessibilityInfo.announceForAccessibility(actionRegistry.announce(action.type, 'start', result));
 
-        // Check if aborted after photo capture
-        if (navigationLoopAbortRef.current || isEmergencyStopped.current) {
-          console.log('🔄 [NavLoop] Aborted after photo capture');
-          break;
-        }
-
-        // Step 3: Send to backend with navigation=true and empty transcript
-        console.log('🔄 [NavLoop] Sending to backend...');
-        setIsProcessing(true);
-
-        const abortController = new AbortController();
-        abortControllerRef.current = abortController;
-
-        const result = await sendToWorkflow(
-          { text: '', imageUri: photoPath || '', navigation: true },
-          abortController.signal
-        );
-
-        setIsProcessing(false);
-
-        // Check if aborted after backend response
-        if (navigationLoopAbortRef.current || isEmergencyStopped.current) {
-          console.log('🔄 [NavLoop] Aborted after backend response');
-          break;
-        }
-
-        console.log('🔄 [NavLoop] Backend response:', {
-          text: result.text.substring(0, 50),
-          navigation: result.navigation,
-          loopDelay: result.loopDelay,
-        });
-
-        // Update loop delay if backend provided one
-        if (result.loopDelay) {
-          updateLoopDelay(result.loopDelay);
-        }
-
-        // Step 4: Check if backend wants to stop the loop
-        if (!result.navigation) {
-          console.log('🔄 [NavLoop] Backend signaled to stop (navigation: false)');
-
-          // Speak the final response
-          if (result.text) {
-            setIsSpeaking(true);
-            await speachesSentenceChunker.synthesizeSpeechChunked(result.text);
-            setIsSpeaking(false);
-          }
-
-          AccessibilityInfo.announceForAccessibility('Navigation complete.');
-          break;
-        }
-
-        // Step 5: Speak the TTS response
-        if (result.text && !navigationLoopAbortRef.current && !isEmergencyStopped.current) {
-          console.log('🔄 [NavLoop] Speaking response...');
-          setIsSpeaking(true);
-          await speachesSentenceChunker.synthesizeSpeechChunked(result.text);
-          setIsSpeaking(false);
-
-          // Small buffer after TTS completes
-          await new Promise(resolve => setTimeout(resolve, TTS_COMPLETION_BUFFER_MS));
-        }
-
-      } catch (error: any) {
-        console.error('🔄 [NavLoop] Error in iteration:', error);
-
-        // Don't break on cancelled requests (user interrupt)
-        if (error.message?.includes('cancel')) {
-          console.log('🔄 [NavLoop] Request was cancelled');
-          break;
-        }
-
-        // For other errors, announce and break
-        AccessibilityInfo.announceForAccessibility(`Navigation error: ${error.message}`);
-        break;
-      }
+    // 3. Start the native side
+    const started = action.start ? await action.start(result) : false;
+    if (!started) {
+      console.warn(`⚠️ [${action.type}] Native module not available`);
+      interactionMachine.send({ type: 'FAIL', error: `${action.type} not available` });
     }
 
-    // Cleanup
-    console.log('🔄 [NavLoop] Loop ended');
-    isNavigationLoopRunning.current = false;
-    stopNavigationLoop('loop ended');
-    setIsNavigation(false);
-    setIsProcessing(false);
-    setIsSpeaking(false);
+    // 4. Update UI state
     setIsCameraActive(true);
 
     audioFeedback.playEarcon('ready');
-    AccessibilityInfo.announceForAccessibility('Ready. Tap to speak.');
-
   }, []);
 
   /**
-   * Stop the navigation loop (called when user taps during navigation)
+   * Camera, speech and request details for ContinuousLoopEngine
    */
-  const stopNavigation = useCallback(async () => {
-    console.log('🛑 Stopping navigation loop');
-    navigationLoopAbortRef.current = true;
-
-    // Cancel any pending request
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
-    }
-
-    // Stop TTS
-    await speachesSentenceChunker.stop();
-
-    // Update state
-    stopNavigationLoop('user interrupt');
-    setIsNavigation(false);
-    setIsProcessing(false);
-    setIsSpeaking(false);
-    isNavigationLoopRunning.current = false;
-
-    // Re-enable camera
-    setIsCameraActive(true);
-
-    audioFeedback.playEarcon('cancel');
-    AccessibilityInfo.announceForAccessibility('Navigation stopped. Tap to speak.');
-  }, []);
-
+  const loopDriver: LoopDriver = {
+    capture: () => reactivateCameraAndCapture(
+      true,
+      loopDelayController.getCameraWarmupMs(CAMERA_REACTIVATION_DELAY_MS)
+    ),
+    // A heartbeat has the same view as the last upload (bbox scaling), but no frames
+    describePhoto: (photoPath, heartbeat) => heartbeat
+      ? getPhotoSize(photoPath)
+      : { ...getPhotoSize(photoPath), ...getBurstFrames(photoPath) },
+    speak: text => speachesSentenceChunker.synthesizeSpeechChunked(text),
+    stopSpeaking: () => speachesSentenceChunker.stop(),
+    inspect: warnIfIncomplete,
+  };
 
   /**
- * Continuous loop (navigation OR reaching)
- * 
- */
-  const runContinuousLoop = useCallback(async () => {
-    if (!NAVIGATION_CONFIG.ENABLE_NAVIGATION_LOOP) {
-      console.log('🔄 [ContinuousMode] Disabled in config');
-      return;
-    }
+   * Continuous loop (navigation OR reaching) for the current interaction
+   *
+   * The engine runs the loop; this settles the interaction when it ends
+   * by itself. A tap or emergency stop has already left 'continuous'.
+   */
+  const runContinuousLoop = async (mode: ActionType, loopDelay?: number) => {
+    const run = interactionMachine.getRunId();
+    const result = await continuousLoopEngine.start(mode, loopDriver, loopDelay);
 
-    if (isContinuousModeRunning.current) {
-      console.log('🔄 [ContinuousMode] Loop already running');
+    if (!interactionMachine.isCurrentRun(run) || !interactionMachine.is('continuous')) {
       return;
     }
 
-    console.log('🔄 [ContinuousMode] Starting loop');
-    isContinuousModeRunning.current = true;
-    continuousModeAbortRef.current = false;
-
-    const currentMode = getCurrentMode();
-    AccessibilityInfo.announceForAccessibility(`${currentMode} started. Tap to stop.`);
-
-    while (!continuousModeAbortRef.current && !isEmergencyStopped.current) {
-      // Safety check
-      if (shouldPreventInfiniteLoop()) {
-        console.log('🔄 [ContinuousMode] Stopping due to safety limits');
-        AccessibilityInfo.announceForAccessibility('Stopped due to time limit.');
-        break;
-      }
-
-      try {
-        incrementContinuousMode();
-
-        // Wait for delay
-        const delay = getCurrentLoopDelay();
-        console.log(`🔄 [ContinuousMode] Waiting ${delay}ms before next iteration`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-
-        if (continuousModeAbortRef.current || isEmergencyStopped.current) {
-          console.log('🔄 [ContinuousMode] Aborted during delay');
-          break;
-        }
-
-        // Capture photo
-        console.log('🔄 [ContinuousMode] Capturing photo...');
-        const photoPath = await reactivateCameraAndCapture();
-
-        if (!photoPath) {
-          console.warn('🔄 [ContinuousMode] Failed to capture photo, continuing with voice-only');
-        }
-
-        if (continuousModeAbortRef.current || isEmergencyStopped.current) {
-          console.log('🔄 [ContinuousMode] Aborted after photo capture');
-          break;
-        }
-
-        // ======================================================================
-        // Send request with CURRENT mode flags
-        // ======================================================================
-        console.log('🔄 [ContinuousMode] Sending to backend...');
-        setIsProcessing(true);
-
-        const abortController = new AbortController();
-        abortControllerRef.current = abortController;
-
-        const currentMode = getCurrentMode();
-        const result = await sendToWorkflow(
-          {
-            text: '',
-            imageUri: photoPath || '',
-            navigation: currentMode === 'navigation',
-            reaching_flag: currentMode === 'reaching'
-          },
-          abortController.signal
-        );
-
-        setIsProcessing(false);
-
-        if (continuousModeAbortRef.current || isEmergencyStopped.current) {
-          console.log('🔄 [ContinuousMode] Aborted after backend response');
-          break;
-        }
-
-        console.log('🔄 [ContinuousMode] Backend response:', {
-          text: result.text.substring(0, 50),
-          navigation: result.navigation,
-          reaching_flag: result.reaching_flag,
-          reaching_ios: result.reaching_ios,
-          bbox: result.bbox,
-          object: result.object,
-          loopDelay: result.loopDelay,
-        });
-
-        // Update loop delay if provided
-        if (result.loopDelay) {
-          updateLoopDelay(result.loopDelay);
-        }
-
-        // ======================================================================
-        // ★★★ iOS ARKit PRIORITY CHECK - Must be FIRST ★★★
-        // ======================================================================
-        if (Platform.OS === 'ios' && result.reaching_ios === true) {
-          // Parse bbox from string to array
-          let bbox: number[] | null = null;
-
-          if (result.bbox) {
-            if (Array.isArray(result.bbox)) {
-              bbox = result.bbox;
-            } else if (typeof result.bbox === 'string') {
-              try {
-                const s = result.bbox.replace('[', '').replace(']', '');
-                bbox = s.split(',').map((v: string) => Number(v.trim()));
-              } catch (e) {
-                console.warn('Failed to parse bbox');
-              }
-            }
-          }
-
-          if (bbox && bbox.length === 4) {
-            console.log('🎯 [iOS ARKit] TAKING OVER - PRIORITY!');
-            console.log('📦 [iOS ARKit] bbox:', bbox);
-            console.log('🏷️ [iOS ARKit] object:', result.object);
-
-            // 1. Speak the response first
-            if (result.text) {
-              console.log('🔊 Speaking before ARKit handover...');
-              setIsSpeaking(true);
-              await speachesSentenceChunker.synthesizeSpeechChunked(result.text);
-              setIsSpeaking(false);
-            }
-
-            // 2. Stop the continuous loop
-            console.log('🛑 Stopping continuous loop for ARKit takeover');
-            isContinuousModeRunning.current = false;
-            continuousModeAbortRef.current = true;
-            stopContinuousMode('iOS ARKit takeover', false);
-
-            // 3. Announce to user
-            AccessibilityInfo.announceForAccessibility(
-              `Guiding you to ${result.object || 'object'}. Follow the audio cues.`
-            );
-
-            // 4. Trigger Nicolas's native module
-            // TODO: Uncomment when CybsGuidanceModule is linked
-            // const { CybsGuidanceModule } = NativeModules;
-            // if (CybsGuidanceModule?.startReaching) {
-            //   await CybsGuidanceModule.startReaching({
-            //     bbox: bbox,
-            //     object: result.object || 'object',
-            //     xmin: bbox[0],
-            //     ymin: bbox[1], 
-            //     xmax: bbox[2],
-            //     ymax: bbox[3],
-            //   });
-            // }
-
-            // 5. Update UI state
-            setIsNavigation(false);
-            setIsReaching(false);
-            setIsProcessing(false);
-            setIsCameraActive(true);
-
-            audioFeedback.playEarcon('ready');
-
-            return; // ★★★ EXIT THE LOOP - ARKit takes over ★★★
-          }
-        }
-        // ======================================================================
-        // END iOS ARKit Priority Check
-        // ======================================================================
-
-        // ======================================================================
-        // CRITICAL: Check BOTH flags
-        // ======================================================================
-        const navigationActive = result.navigation === true;
-        const reachingActive = result.reaching_flag === true;
-        const bothInactive = !navigationActive && !reachingActive;
-
-        console.log('🔄 [ContinuousMode] Flag status:', {
-          navigation: navigationActive,
-          reaching: reachingActive,
-          bothInactive,
-        });
-
-        // Update UI state
-        setIsNavigation(navigationActive);
-        setIsReaching(reachingActive);
-
-        // ======================================================================
-        // Check if BOTH flags are false → STOP and RESET SESSION
-        // ======================================================================
-        if (bothInactive) {
-          console.log('🔄 [ContinuousMode] *** BOTH FLAGS FALSE - STOPPING AND RESETTING SESSION ***');
-
-          // Speak final response if any
-          if (result.text) {
-            setIsSpeaking(true);
-            await speachesSentenceChunker.synthesizeSpeechChunked(result.text);
-            setIsSpeaking(false);
-          }
-
-          AccessibilityInfo.announceForAccessibility('Task complete.');
-
-          // Stop continuous mode WITH session reset
-          stopContinuousMode('both flags false', true);  // true = reset session
-          break;
-        }
-
-        // ======================================================================
-        // Handle mode transitions (one flag true, other false)
-        // ======================================================================
-        if (navigationActive && !reachingActive && currentMode !== 'navigation') {
-          console.log('🔄 [ContinuousMode] Switching to navigation mode');
-          startContinuousMode('navigation', result.loopDelay);
-          AccessibilityInfo.announceForAccessibility('Switching to navigation.');
-        } else if (reachingActive && !navigationActive && currentMode !== 'reaching') {
-          console.log('🔄 [ContinuousMode] Switching to reaching mode');
-          startContinuousMode('reaching', result.loopDelay);
-          AccessibilityInfo.announceForAccessibility('Switching to object guidance.');
-        }
-
-        // Speak the response
-        if (result.text && !continuousModeAbortRef.current && !isEmergencyStopped.current) {
-          console.log('🔄 [ContinuousMode] Speaking response...');
-          setIsSpeaking(true);
-          await speachesSentenceChunker.synthesizeSpeechChunked(result.text);
-          setIsSpeaking(false);
-
-          // Small buffer after TTS
-          await new Promise(resolve => setTimeout(resolve, TTS_COMPLETION_BUFFER_MS));
-        }
-
-      } catch (error: any) {
-        console.error('🔄 [ContinuousMode] Error in iteration:', error);
-
-        // Don't break on cancelled requests
-        if (error.message?.includes('cancel')) {
-          console.log('🔄 [ContinuousMode] Request was cancelled');
-          break;
-        }
-
-        // For other errors, announce and break
-        AccessibilityInfo.announceForAccessibility(`Error: ${error.message}`);
-        break;
-      }
+    if (result.outcome === 'handover' && result.handover) {
+      await handOverToAction(result.handover.action, result.handover.response);
+      return; // Native side takes over
     }
 
-    // Cleanup
-    console.log('🔄 [ContinuousMode] Loop ended');
-    isContinuousModeRunning.current = false;
-    stopContinuousMode('loop ended', false);  // false = don't reset session on natural end
-    setIsNavigation(false);
-    setIsReaching(false);
-    setIsProcessing(false);
-    setIsSpeaking(false);
+    interactionMachine.send(result.outcome === 'error'
+      ? { type: 'FAIL', error: result.error || result.reason }
+      : { type: 'DONE' });
     setIsCameraActive(true);
 
     audioFeedback.playEarcon('ready');
     AccessibilityInfo.announceForAccessibility('Ready. Tap to speak.');
-
-  }, [isNavigation, isReaching]);
+  };
 
   /**
    * Stop the continuous mode loop (called when user taps during continuous mode)
    */
   const stopContinuousModeLoop = useCallback(async () => {
     console.log('🛑 Stopping continuous mode');
-    continuousModeAbortRef.current = true;
+    const mode = continuousLoopEngine.getSnapshot().mode || getCurrentMode();
 
-    // Cancel any pending request
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
-    }
-
-    // Stop TTS
+    // Leaving 'continuous' stops the engine: request aborted, speech cut,
+    // session preserved (see the onExit hook)
+    interactionMachine.send({ type: 'STOP', reason: 'user interrupt' });
     await speachesSentenceChunker.stop();
 
-    // Update state (DON'T reset session on user interrupt)
-    stopContinuousMode('user interrupt', false);  // false = preserve session
-    setIsNavigation(false);
-    setIsReaching(false);
-    setIsProcessing(false);
-    setIsSpeaking(false);
-    isContinuousModeRunning.current = false;
-
     // Re-enable camera
     setIsCameraActive(true);
 
-    audioFeedback.playEarcon('cancel');
-    AccessibilityInfo.announceForAccessibility('Stopped. Tap to speak.');
+    audioFeedback.playEarcon(actionRegistry.getEarcon(mode, 'stop') || 'cancel');
+    AccessibilityInfo.announceForAccessibility(actionRegistry.announce(mode, 'stopped'));
   }, []);
 
 
@@ -671,39 +635,47 @@ function App(): React.JSX.Element {
   // ============================================================================
   // Auto-Submit Handler (Silence Detection)
   // ============================================================================
+  // runLocalCommand is declared further down and recreated every render
+  const runLocalCommandRef = useRef<(text: string) => Promise<boolean>>(async () => false);
+
   const handleAutoSubmit = useCallback(async () => {
     console.log('🎯 Auto-submit triggered by silence detection');
 
-    if (isCapturingPhotoRef.current) {
-      console.log('⚠️ Photo capture already in progress');
+    // End of a hands-free recognition window, not of a question
+    if (wakePhraseDetector.isRecognizing()) {
+      wakePhraseDetector.endWindow();
       return;
     }
 
-    if (isProcessingRef.current || isEmergencyStopped.current) {
-      console.log('⚠️ Already processing or stopped');
+    if (!interactionMachine.is('listening')) {
+      console.log(`⚠️ Not listening (${interactionMachine.getState()})`);
       return;
     }
 
     const finalText = finalTranscriptRef.current.trim();
     if (!finalText) {
       console.log('⚠️ No transcript available');
+      interactionMachine.send({ type: 'STOP', reason: 'no voice input' });
       AccessibilityInfo.announceForAccessibility('No voice input detected. Tap to try again.');
       audioFeedback.playEarcon('error');
       return;
     }
 
-    console.log('⚡ Processing:', finalText);
+    if (await runLocalCommandRef.current(finalText)) {
+      return;
+    }
 
-    // Only set UI state, NOT the ref
-    setIsProcessing(true);
-    // isProcessingRef.current = true;  // Let handleVoiceCommand set this!
-    isCapturingPhotoRef.current = true;
+    console.log('⚡ Processing:', finalText);
+    latencyTracer.startTrace('voice_command', { trigger: 'silence' });
+    interactionMachine.send({ type: 'TRANSCRIPT' });
+    const run = interactionMachine.getRunId();
 
     audioFeedback.playEarcon('thinking');
     AccessibilityInfo.announceForAccessibility('Processing your request');
 
     try {
       console.log('🛑 Stopping STT...');
+      const sttSpan = latencyTracer.startSpan('stt_stop');
       try {
         await cancelSTT();
         console.log('✅ STT cancelled');
@@ -714,13 +686,11 @@ function App(): React.JSX.Element {
       console.log(`⏳ Waiting ${AUDIO_SESSION_RELEASE_DELAY_MS}ms for audio session to release...`);
       await new Promise(resolve => setTimeout(resolve, AUDIO_SESSION_RELEASE_DELAY_MS));
 
+      sttSpan.end();
       console.log('✅ Audio session wait complete');
 
-      if (isEmergencyStopped.current) {
-        console.log('⚠️ Emergency stopped during wait');
-        setIsProcessing(false);
-        // ✅ No need to reset isProcessingRef since we didn't set it
-        isCapturingPhotoRef.current = false;
+      if (!interactionMachine.isCurrentRun(run)) {
+        console.log('⚠️ Stopped during wait');
         return;
       }
 
@@ -742,17 +712,14 @@ function App(): React.JSX.Element {
         );
       }
 
-      if (isEmergencyStopped.current) {
-        console.log('⚠️ Emergency stopped after photo');
-        setIsProcessing(false);
-        isCapturingPhotoRef.current = false;
+      if (!interactionMachine.isCurrentRun(run)) {
+        console.log('⚠️ Stopped after photo');
         return;
       }
 
       console.log('📤 About to call handleVoiceCommand...');
-
-      // ✅ handleVoiceCommand will set isProcessingRef.current = true itself
-      await handleVoiceCommand(finalText, photoPath);
+      interactionMachine.send({ type: 'CAPTURED' });
+      await handleVoiceCommand(finalText, photoPath, run);
 
       console.log('✅ handleVoiceCommand complete');
 
@@ -760,10 +727,10 @@ function App(): React.JSX.Element {
       console.error('❌ Auto-submit error:', error);
       console.error('❌ Error stack:', error.stack);
       AccessibilityInfo.announceForAccessibility(`Error: ${error.message || error}`);
-      setIsProcessing(false);
-      // ✅ No need to reset isProcessingRef - handleVoiceCommand manages it
+      if (interactionMachine.isCurrentRun(run)) {
+        interactionMachine.send({ type: 'FAIL', error: String(error) });
+      }
     } finally {
-      isCapturingPhotoRef.current = false;
       console.log('✅ Auto-submit finally block complete');
     }
   }, [handleVoiceCommand]);
@@ -784,6 +751,95 @@ function App(): React.JSX.Element {
     enableRMSVAD: true,
   });
 
+  // ============================================================================
+  // Interaction State Machine
+  // ============================================================================
+  // cancelListening is recreated every render; the hooks below are not
+  const cancelSTTRef = useRef(cancelSTT);
+  cancelSTTRef.current = cancelSTT;
+
+  useEffect(() => {
+    const loopsOnly = (loop: 'continuous' | 'handover') => (_snapshot: unknown, event: InteractionEvent) =>
+      (event.type === 'START_LOOP' || event.type === 'HANDOVER') &&
+      actionRegistry.get(event.actionType)?.loop === loop;
+
+    const unsubscribers = [
+      interactionMachine.addGuard('START_LOOP', loopsOnly('continuous')),
+      interactionMachine.addGuard('HANDOVER', loopsOnly('handover')),
+
+      // Any way out of 'continuous' (tap, emergency stop, watchdog) ends the loop
+      interactionMachine.onExit('continuous', ({ event }) => {
+        continuousLoopEngine.stop(event.type === 'STOP' ? event.reason : event.type.toLowerCase());
+      }),
+
+      // The loop reports its phase and mode switches to the machine (UI)
+      continuousLoopEngine.addHooks({
+        onPhase: phase => {
+          if (interactionMachine.is('continuous')) {
+            interactionMachine.send({ type: 'LOOP_PHASE', phase });
+          }
+        },
+        onModeChange: (_from, to) => {
+          interactionMachine.send({ type: 'START_LOOP', actionType: to });
+        },
+      }),
+
+      // Hands-free listening only while nothing else uses the microphone
+      interactionMachine.onExit('idle', () => {
+        wakePhraseDetector.suspend();
+      }),
+
+      // Talking over an answer interrupts it (see handleBargeIn)
+      interactionMachine.onEnter('speaking', () => {
+        bargeInController.arm();
+      }),
+      interactionMachine.onExit('speaking', () => {
+        bargeInController.disarm();
+      }),
+      interactionMachine.onExit('listening', ({ event }) => {
+        if (event.type !== 'TRANSCRIPT') {
+          bargeInController.cancel();
+        }
+      }),
+
+      interactionMachine.onEnter('idle', ({ from, event }) => {
+        wakePhraseDetector.resume();
+        setIsCameraActive(true);
+        if (event.type !== 'TIMEOUT') {
+          return;
+        }
+        // Stuck state: release whatever it was waiting for
+        console.warn(`⏰ Recovering from stuck ${from.state}`);
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        speachesSentenceChunker.stop();
+        cancelSTTRef.current().catch(() => { });
+        latencyTracer.endTrace('error', { error: `timeout in ${from.state}` });
+        audioFeedback.playEarcon('error');
+        AccessibilityInfo.announceForAccessibility('That took too long. Tap to try again.');
+      }),
+    ];
+
+    // The native module reports the end of its own session
+    const nativeSubscriptions = ReachingEvents ? [
+      ReachingEvents.addListener('onTargetReached', () => {
+        if (interactionMachine.is('native_reaching')) {
+          interactionMachine.send({ type: 'DONE' });
+        }
+      }),
+      ReachingEvents.addListener('onError', (data: ReachingEventData['onError']) => {
+        if (interactionMachine.is('native_reaching')) {
+          interactionMachine.send({ type: 'FAIL', error: data?.message || 'native reaching error' });
+        }
+      }),
+    ] : [];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      nativeSubscriptions.forEach(subscription => subscription.remove());
+    };
+  }, []);
+
   // ============================================================================
   // Accessibility Setup
   // ============================================================================
@@ -906,6 +962,7 @@ function App(): React.JSX.Element {
   };
 
   const getAccessibilityLabel = () => {
+    if (interaction.isPaused) return 'CyberSight guidance is paused. Long press to resume, tap to stop.';
     if (isNavigation) return 'CyberSight is navigating. Tap to stop.';
     if (isSpeaking) return 'CyberSight is speaking. Tap to interrupt.';
     if (isProcessing) return 'CyberSight is processing. Tap to interrupt.';
@@ -914,10 +971,11 @@ function App(): React.JSX.Element {
   };
 
   const getAccessibilityHint = () => {
+    if (interaction.isPaused) return 'Long press to resume guidance';
     if (isNavigation) return 'Tap to stop navigation';
     if (isSpeaking || isProcessing) return 'Tap to stop';
     if (isListening) return 'Speak naturally. Tap to stop.';
-    return 'Tap to start speaking';
+    return 'Tap to start speaking. Gesture help and more are under actions.';
   };
 
   // ============================================================================
@@ -933,8 +991,12 @@ function App(): React.JSX.Element {
         }
       }
 
-      isEmergencyStopped.current = false;
-      isCapturingPhotoRef.current = false;
+      if (!interactionMachine.send({ type: 'LISTEN' })) {
+        return;
+      }
+
+      // A tap during a hands-free recognition window waits for it to close
+      await wakePhraseDetector.suspend();
       await stopTTS();
       finalTranscriptRef.current = '';
 
@@ -947,6 +1009,7 @@ function App(): React.JSX.Element {
       await audioFeedback.announceState('listening', false);
     } catch (error) {
       console.error('❌ Start listening error:', error);
+      interactionMachine.send({ type: 'FAIL', error: String(error) });
       AccessibilityInfo.announceForAccessibility(`Error: ${error}. Please try again.`);
     }
   };
@@ -955,33 +1018,44 @@ function App(): React.JSX.Element {
   // Manual Stop
   // ============================================================================
   const stopListeningManually = async () => {
+    let run = interactionMachine.getRunId();
     try {
       console.log('🛑 Manual stop requested');
 
-      if (isCapturingPhotoRef.current) {
-        console.log('⚠️ Already capturing');
+      if (!interactionMachine.is('listening')) {
+        console.log(`⚠️ Not listening (${interactionMachine.getState()})`);
         return;
       }
 
-      if (isProcessingRef.current || isEmergencyStopped.current) {
+      // The barge-in recording is transcribed as soon as it ends
+      if (bargeInController.isCapturing()) {
+        bargeInController.endUtterance();
         return;
       }
 
+      latencyTracer.startTrace('voice_command', { trigger: 'manual' });
+      const sttSpan = latencyTracer.startSpan('stt_stop');
       const finalTranscript = await stopSTT();
       console.log('📝 Final transcript:', finalTranscript);
 
       const finalText = finalTranscript.trim();
       if (!finalText) {
+        interactionMachine.send({ type: 'STOP', reason: 'no voice input' });
         AccessibilityInfo.announceForAccessibility('No voice input. Tap to try again.');
         audioFeedback.playEarcon('error');
         return;
       }
 
+      if (await runLocalCommand(finalText)) {
+        return;
+      }
+
       // ✅ FIX: Set processing state IMMEDIATELY
       console.log('⚡ Processing:', finalText);
-      setIsProcessing(true);
-      isProcessingRef.current = true;
-      isCapturingPhotoRef.current = true;
+      if (!interactionMachine.send({ type: 'TRANSCRIPT' })) {
+        return;
+      }
+      run = interactionMachine.getRunId();
 
       // ✅ FIX: Play thinking earcon immediately
       audioFeedback.playEarcon('thinking');
@@ -990,11 +1064,9 @@ function App(): React.JSX.Element {
       // Wait for audio session
       console.log(`⏳ Waiting ${AUDIO_SESSION_RELEASE_DELAY_MS}ms for audio session...`);
       await new Promise(resolve => setTimeout(resolve, AUDIO_SESSION_RELEASE_DELAY_MS));
+      sttSpan.end();
 
-      if (isEmergencyStopped.current) {
-        isCapturingPhotoRef.current = false;
-        setIsProcessing(false);
-        isProcessingRef.current = false;
+      if (!interactionMachine.isCurrentRun(run)) {
         return;
       }
 
@@ -1008,36 +1080,101 @@ function App(): React.JSX.Element {
         );
       }
 
-      isCapturingPhotoRef.current = false;
-      await handleVoiceCommand(finalText, photoPath);
+      if (!interactionMachine.isCurrentRun(run)) {
+        return;
+      }
+      interactionMachine.send({ type: 'CAPTURED' });
+      await handleVoiceCommand(finalText, photoPath, run);
     } catch (error) {
       console.error('❌ Manual stop error:', error);
-      isCapturingPhotoRef.current = false;
-      setIsProcessing(false);
-      isProcessingRef.current = false;
+      if (interactionMachine.isCurrentRun(run)) {
+        interactionMachine.send({ type: 'FAIL', error: String(error) });
+      }
     }
   };
 
   // ============================================================================
-  // Handle Voice Command
+  // Local Commands (answered on the device, no photo or backend round trip)
   // ============================================================================
-  const handleVoiceCommand = async (command: string, photoPath: string) => {
-    if (isProcessingRef.current || isEmergencyStopped.current) return;
+  const runLocalCommand = async (text: string): Promise<boolean> => {
+    const match = localCommandInterceptor.match(text);
+    if (!match || !interactionMachine.is('listening')) {
+      return false;
+    }
 
-    const wasInContinuousMode = isContinuousModeActive();
-    if (wasInContinuousMode) {
-      console.log('🔄 Previous continuous mode detected, resetting session for new command');
-      const newSessionId = resetSessionId();
-      console.log('🆔 New session started:', newSessionId);
+    console.log(`🏠 Local command: ${match.intent} ("${match.transcript}")`);
+    interactionMachine.send({ type: 'STOP', reason: `local command: ${match.intent}` });
+    await cancelSTT().catch(() => { });
+    finalTranscriptRef.current = '';
+    latencyTracer.endTrace('ok', { local_command: match.intent });
+
+    switch (match.intent) {
+      case 'stop':
+        // Speech already stopped when listening started
+        audioFeedback.playEarcon('cancel');
+        AccessibilityInfo.announceForAccessibility('Stopped. Tap to speak.');
+        break;
+      case 'status':
+        await say(describeStatus());
+        break;
+      case 'handsFreeOn':
+        await enableHandsFree();
+        break;
+      case 'handsFreeOff':
+        await disableHandsFree();
+        break;
+      case 'signIn':
+        if (authService.canSignIn()) {
+          openSignInScreen();
+        } else {
+          await say(`${environmentService.getEnvironment().label} has no participant sign-in.`);
+        }
+        break;
+      default:
+        await runSurfaceAction(match.intent);
     }
+    return true;
+  };
+  runLocalCommandRef.current = runLocalCommand;
+
+  const describeStatus = (): string => {
+    const session = sessionManager.getCurrentSession();
+    const queued = offlineQueue.size();
+    return [
+      `Ready. Using the ${environmentService.getEnvironment().label} backend.`,
+      session.turnCount > 0
+        ? `This conversation has ${session.turnCount} ${session.turnCount === 1 ? 'question' : 'questions'}.`
+        : 'This is a new conversation.',
+      `Speech speed ${speechSettings.getRate()}.`,
+      wakePhraseDetector.isEnabled() ? `Hands-free listening is on. Say ${WAKE_PHRASE_CONFIG.PHRASE}.` : '',
+      queued > 0 ? `${queued} saved ${queued === 1 ? 'question is' : 'questions are'} waiting for a connection.` : '',
+    ].filter(Boolean).join(' ');
+  };
+
+  // ============================================================================
+  // Handle Voice Command
+  // ============================================================================
+  const handleVoiceCommand = async (
+    command: string,
+    photoPath: string,
+    run: number = interactionMachine.getRunId()
+  ) => {
+    if (!interactionMachine.is('processing') || !interactionMachine.isCurrentRun(run)) {
+      console.log(`⚠️ Not processing (${interactionMachine.getState()})`);
+      return;
+    }
+    const stopped = () => !interactionMachine.isCurrentRun(run);
 
     const abortController = new AbortController();
     abortControllerRef.current = abortController;
+    let streamStarted = false;
+
+    if (!latencyTracer.hasActiveTrace()) {
+      latencyTracer.startTrace('voice_command', { trigger: 'direct' });
+    }
 
     try {
       console.log('⚡ Processing:', command);
-      isProcessingRef.current = true;
-      setIsProcessing(true);
 
       try { await cancelSTT(); } catch (e) { }
 
@@ -1050,99 +1187,146 @@ function App(): React.JSX.Element {
         AccessibilityInfo.announceForAccessibility('Processing without photo.');
       }
 
-      if (isEmergencyStopped.current) return;
+      if (stopped()) return;
 
       console.log('📤 Sending to workflow...');
 
       // =========================================================================
       // Send INITIAL request with BOTH flags FALSE
       // =========================================================================
-      const result = await sendToWorkflow(
+      // Streamed answers start speaking at the first complete sentence
+      const { response: result, textStreamed } = await streamFromWorkflow(
         {
           text: command,
           imageUri: photoPath || '',
-          navigation: false,          // Initial request
-          reaching_flag: false         // Initial request
+          ...getPhotoSize(photoPath),
+          ...actionRegistry.getRequestFlags(null),  // Initial request
         },
-        abortController.signal
+        {
+          onToken: (token) => {
+            if (stopped()) return;
+            if (!streamStarted) {
+              streamStarted = true;
+              interactionMachine.send({ type: 'ANSWER' });
+              audioFeedback.playEarcon('speaking');
+              speachesSentenceChunker.beginStream();
+            }
+            speachesSentenceChunker.pushStreamText(token);
+          },
+          onFlags: (flags) => console.log('🌊 Flags update:', flags),
+        },
+        abortController.signal,
+        { shouldAbort: stopped }
       );
 
-      if (isEmergencyStopped.current) return;
+      if (stopped()) return;
 
       console.log('✅ Response:', {
         text: result.text.substring(0, 50) + '...',
         navigation: result.navigation,
         reaching_flag: result.reaching_flag,
+        action: result.action,
         loopDelay: result.loopDelay,
+        streamed: textStreamed,
       });
 
-      setIsProcessing(false);
-      setIsSpeaking(true);
-      audioFeedback.playEarcon('speaking');
-
-      if (isEmergencyStopped.current) return;
+      warnIfIncomplete(result);
+      if (!streamStarted) {
+        interactionMachine.send({ type: 'ANSWER' });
+        audioFeedback.playEarcon('speaking');
+      }
 
-      // Speak the response
-      await speachesSentenceChunker.synthesizeSpeechChunked(result.text);
+      // Speak the response (or wait for the streamed sentences to finish)
+      if (streamStarted) {
+        await speachesSentenceChunker.endStream();
+      } else {
+        await speachesSentenceChunker.synthesizeSpeechChunked(result.text);
+      }
 
-      if (isEmergencyStopped.current) return;
+      if (stopped()) return;
 
-      setIsSpeaking(false);
       finalTranscriptRef.current = '';
 
+      latencyTracer.endTrace('ok', {
+        streamed: textStreamed,
+        navigation: result.navigation,
+        reaching: result.reaching_flag,
+      });
+
       // =========================================================================
-      // CHECK FOR CONTINUOUS MODE ACTIVATION (either flag true)
+      // CHECK FOR CONTINUOUS MODE ACTIVATION / HANDOVER
       // =========================================================================
-      const navigationActive = result.navigation === true;
-      const reachingActive = result.reaching_flag === true;
-
-      if (navigationActive || reachingActive) {
-        const mode = navigationActive ? 'navigation' : 'reaching';
-        console.log(`🔄 Backend requested ${mode} loop, starting...`);
-
-        // Update state
-        setIsNavigation(navigationActive);
-        setIsReaching(reachingActive);
-
-        // ✅ FIX: Reset the continuous mode state BEFORE starting
-        // This clears any counters/timers from the initial request
-        stopContinuousMode('resetting for new loop', false);  // false = don't reset session
+      const action = determineActionMode(result);
 
-        // Small delay to ensure clean state
-        await new Promise(resolve => setTimeout(resolve, 100));
+      if (action.action?.loop === 'handover') {
+        await handOverToAction(action.action, result);
+        return;
+      }
 
-        // Set up loop state (now with fresh counters)
-        startContinuousMode(mode, result.loopDelay);
+      if (action.action?.loop === 'continuous') {
+        const mode = action.type;
+        console.log(`🔄 Backend requested ${mode} loop, starting...`);
 
-        console.log('🔄 Starting fresh continuous loop...');
+        if (!interactionMachine.send({ type: 'START_LOOP', actionType: mode })) {
+          return;
+        }
 
-        // Run the continuous loop
-        await runContinuousLoop();
+        // Run the continuous loop (fresh counters, not the initial request's)
+        await runContinuousLoop(mode, action.loopDelay);
 
         // Loop has ended, we're done
         return;
       }
 
       // Normal response (no continuous mode) - return to ready state
+      interactionMachine.send({ type: 'DONE' });
       setIsCameraActive(true);
 
       audioFeedback.playEarcon('ready');
       AccessibilityInfo.announceForAccessibility('Response complete. Tap to speak.');
 
     } catch (error: any) {
-      if (error.name === 'AbortError' || error.message?.includes('aborted') || error.message?.includes('cancel')) {
+      if (isCancelledError(error) || error.message?.includes('aborted')) {
         console.log('✅ Request cancelled');
+        latencyTracer.endTrace('cancelled');
+        return;
+      }
+
+      if (error instanceof OfflineQueuedError) {
+        latencyTracer.endTrace('queued');
+        // Not a failure - back to ready, the answer comes later
+        console.log('📥 Request queued offline:', error.item.id);
+        AccessibilityInfo.announceForAccessibility(error.userMessage);
+        interactionMachine.send({ type: 'DONE' });
+        setIsCameraActive(true);
+        audioFeedback.playEarcon('ready');
         return;
       }
 
-      if (!isEmergencyStopped.current) {
+      latencyTracer.endTrace('error', {
+        kind: isWorkflowError(error) ? error.kind : 'unknown',
+        error: String(error.message || error),
+      });
+
+      if (streamStarted) {
+        // Don't talk over a half-spoken streamed answer
+        await speachesSentenceChunker.stop();
+      }
+
+      if (!stopped()) {
         console.error('❌ Error:', error);
-        await audioFeedback.announceError(`Error: ${error.message}`, true);
-        Alert.alert('Error', error.message);
+        interactionMachine.send({ type: 'FAIL', error: String(error.message || error) });
+        const message = isWorkflowError(error) ? error.userMessage : `Error: ${error.message}`;
+        await audioFeedback.announceError(message, true);
+        Alert.alert('Error', message);
       }
     } finally {
-      setIsProcessing(false);
-      isProcessingRef.current = false;
+      // Early returns (emergency stop) leave the trace open
+      latencyTracer.endTrace('cancelled');
+      if (!stopped() && interactionMachine.is('processing', 'speaking')) {
+        // A path above returned without settling the interaction
+        interactionMachine.send({ type: 'FAIL', error: 'unfinished' });
+      }
       finalTranscriptRef.current = '';
       abortControllerRef.current = null;
     }
@@ -1153,8 +1337,8 @@ function App(): React.JSX.Element {
   // ============================================================================
   const emergencyStop = async () => {
     console.log('🚨 EMERGENCY STOP');
-    isEmergencyStopped.current = true;
-    continuousModeAbortRef.current = true;  // NEW: Also abort continuous mode
+    // Ends the run: everything still awaiting for it bails out
+    interactionMachine.send({ type: 'STOP', reason: 'emergency stop' });
 
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -1164,64 +1348,429 @@ function App(): React.JSX.Element {
     await speachesSentenceChunker.stop();
     try { await cancelSTT(); } catch (e) { }
 
-    await new Promise(resolve => setTimeout(resolve, 300));
-
-    setIsProcessing(false);
-    setIsSpeaking(false);
-    setIsNavigation(false);
-    setIsReaching(false);  // NEW
-    isProcessingRef.current = false;
     finalTranscriptRef.current = '';
-    isCapturingPhotoRef.current = false;
-    isContinuousModeRunning.current = false;  // NEW
 
     // Stop continuous mode (preserve session on emergency stop)
-    stopContinuousMode('emergency stop', false);  // false = preserve session
+    continuousLoopEngine.stop('emergency stop');
 
     // Re-enable camera
     setIsCameraActive(true);
 
-    isEmergencyStopped.current = false;
-
     audioFeedback.playEarcon('ready');
     AccessibilityInfo.announceForAccessibility('Stopped. Tap to speak.');
     console.log('✅ Emergency stop complete');
   };
 
+  // ============================================================================
+  // Barge-In (talking over an answer, see BargeInController)
+  // ============================================================================
+  const handleBargeIn = async (utterance: Promise<string> | null) => {
+    if (!interactionMachine.is('speaking')) {
+      bargeInController.cancel();
+      return;
+    }
+
+    console.log('🗣️ Barge-in');
+    // Ends the answer's run like a tap would, then listens in a new one
+    interactionMachine.send({ type: 'STOP', reason: 'barge-in' });
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    const playbackStopped = speachesSentenceChunker.stop();
+
+    if (!utterance) {
+      // On-device STT from here on (LISTEN is sent before startListening awaits)
+      await Promise.all([playbackStopped, startListening()]);
+      return;
+    }
+
+    // The utterance is already being recorded, from its beginning
+    if (!interactionMachine.send({ type: 'LISTEN' })) {
+      bargeInController.cancel();
+      return;
+    }
+    const run = interactionMachine.getRunId();
+    audioFeedback.playEarcon('listening');
+    await playbackStopped;
+
+    const text = await utterance.catch(error => {
+      console.error('❌ Barge-in transcription failed:', error);
+      return '';
+    });
+    if (!interactionMachine.isCurrentRun(run) || !interactionMachine.is('listening')) {
+      return;
+    }
+    finalTranscriptRef.current = text;
+    await handleAutoSubmit();
+  };
+
   // ============================================================================
   // Handle Tap
   // ============================================================================
   const handleScreenTap = async () => {
     console.log('👆 TAP');
 
-    // If in continuous mode (navigation OR reaching), stop it
-    if (isNavigation || isReaching || isContinuousModeRunning.current) {
-      const mode = isNavigation ? 'navigation' : 'reaching';
-      console.log(`🛑 Stopping ${mode}`);
-      AccessibilityInfo.announceForAccessibility(`Stopping ${mode}.`);
-      await stopContinuousModeLoop();
+    const { state, actionType } = interactionMachine.getSnapshot();
+
+    switch (state) {
+      // Continuous loop (navigation, reaching, ...): stop it
+      case 'continuous': {
+        const label = actionRegistry.get(actionType || getCurrentMode())?.label || 'Guidance';
+        console.log(`🛑 Stopping ${label}`);
+        AccessibilityInfo.announceForAccessibility(`Stopping ${label.toLowerCase()}.`);
+        await stopContinuousModeLoop();
+        return;
+      }
+
+      // Native module has the user: stop it
+      case 'native_reaching': {
+        console.log('🛑 Stopping native guidance');
+        interactionMachine.send({ type: 'STOP', reason: 'user interrupt' });
+        await actionRegistry.cleanup(actionType, 'user interrupt');
+        audioFeedback.playEarcon('ready');
+        AccessibilityInfo.announceForAccessibility('Stopped. Tap to speak.');
+        return;
+      }
+
+      // Speaking or processing: emergency stop
+      case 'capturing':
+      case 'processing':
+      case 'speaking':
+        console.log('🛑 Stopping');
+        AccessibilityInfo.announceForAccessibility('Stopping.');
+        await emergencyStop();
+        return;
+
+      // Listening: manual stop
+      case 'listening':
+        console.log('🛑 Manual stop');
+        AccessibilityInfo.announceForAccessibility('Processing now.');
+        await stopListeningManually();
+        return;
+
+      // Otherwise, start listening
+      case 'idle':
+        console.log('🎤 Starting');
+        await startListening();
+        return;
+    }
+  };
+
+  // ============================================================================
+  // Conversation Actions (screen reader actions on the touch surface)
+  // ============================================================================
+  const startNewConversation = () => {
+    if (interactionMachine.isBusy()) {
+      AccessibilityInfo.announceForAccessibility('Please wait until the current request finishes.');
       return;
     }
 
-    // If speaking or processing, emergency stop
-    if (isSpeaking || isProcessing) {
-      console.log('🛑 Stopping');
-      AccessibilityInfo.announceForAccessibility('Stopping.');
-      await emergencyStop();
+    resetSessionId('user_new_conversation');
+    audioFeedback.playEarcon('ready');
+    AccessibilityInfo.announceForAccessibility('New conversation started.');
+  };
+
+  const continueLastConversation = () => {
+    if (interactionMachine.isBusy()) {
+      AccessibilityInfo.announceForAccessibility('Please wait until the current request finishes.');
       return;
     }
 
-    // If listening, manual stop
-    if (isListening) {
-      console.log('🛑 Manual stop');
-      AccessibilityInfo.announceForAccessibility('Processing now.');
-      await stopListeningManually();
+    const session = sessionManager.continueLastSession();
+    if (!session) {
+      AccessibilityInfo.announceForAccessibility('There is no earlier conversation to continue.');
+      return;
+    }
+
+    audioFeedback.playEarcon('ready');
+    AccessibilityInfo.announceForAccessibility(
+      session.title
+        ? `Continuing your conversation about ${session.title}.`
+        : 'Continuing your last conversation.'
+    );
+  };
+
+  const speakRecentConversation = async () => {
+    if (interactionMachine.isBusy()) {
+      AccessibilityInfo.announceForAccessibility('Please wait until the current request finishes.');
+      return;
+    }
+
+    const recap = conversationLog.getRecap(sessionManager.getSessionId());
+    if (!recap) {
+      AccessibilityInfo.announceForAccessibility('Nothing has been said in this conversation yet.');
+      return;
+    }
+
+    await speakText(recap);
+  };
+
+  const repeatLastAnswer = async () => {
+    if (interactionMachine.isBusy()) {
+      AccessibilityInfo.announceForAccessibility('Please wait until the current request finishes.');
+      return;
+    }
+
+    const answer = conversationLog.getLastAnswer(sessionManager.getSessionId());
+    if (!answer) {
+      await say('There is no answer to repeat yet.');
       return;
     }
 
-    // Otherwise, start listening
-    console.log('🎤 Starting');
-    await startListening();
+    await speakText(answer);
+  };
+
+  /**
+   * Speak text with TTS while idle (recaps, repeated answers)
+   */
+  const speakText = async (text: string) => {
+    if (!interactionMachine.send({ type: 'SPEAK' })) {
+      return;
+    }
+    const run = interactionMachine.getRunId();
+    try {
+      await speachesSentenceChunker.synthesizeSpeechChunked(text);
+    } catch (error) {
+      console.error('❌ Playback failed:', error);
+      AccessibilityInfo.announceForAccessibility(text);
+    } finally {
+      if (interactionMachine.isCurrentRun(run)) {
+        interactionMachine.send({ type: 'DONE' });
+      }
+    }
+  };
+
+  /**
+   * Short feedback: the screen reader if it is on, otherwise TTS
+   * (touch gestures are only recognized without a screen reader)
+   */
+  const say = async (text: string) => {
+    if (screenReaderEnabled) {
+      AccessibilityInfo.announceForAccessibility(text);
+    } else if (interactionMachine.is('idle')) {
+      await speakText(text);
+    } else if (!speachesSentenceChunker.isCurrentlyPlaying()) {
+      speachesSentenceChunker.synthesizeSpeechChunked(text).catch(() => {
+        AccessibilityInfo.announceForAccessibility(text);
+      });
+    } else {
+      AccessibilityInfo.announceForAccessibility(text);
+    }
+  };
+
+  // ============================================================================
+  // Speech Rate / Stop / Help (gestures and screen reader actions)
+  // ============================================================================
+  const changeSpeechRate = async (direction: 1 | -1) => {
+    if (speechSettings.isAtLimit(direction)) {
+      audioFeedback.playEarcon('error');
+      await say(direction > 0 ? 'Speech is at its fastest.' : 'Speech is at its slowest.');
+      return;
+    }
+    const rate = await speechSettings.adjustRate(direction);
+    await say(`${direction > 0 ? 'Faster' : 'Slower'} speech, ${rate} times.`);
+  };
+
+  /**
+   * Stop whatever is going on; unlike a tap, never starts or submits anything
+   */
+  const stopCurrent = async () => {
+    switch (interactionMachine.getState()) {
+      case 'idle':
+        await say('Nothing to stop.');
+        return;
+
+      case 'listening':
+        console.log('🛑 Listening cancelled');
+        interactionMachine.send({ type: 'STOP', reason: 'user cancelled' });
+        try { await cancelSTT(); } catch (e) { }
+        finalTranscriptRef.current = '';
+        audioFeedback.playEarcon('cancel');
+        AccessibilityInfo.announceForAccessibility('Cancelled. Tap to speak.');
+        return;
+
+      default:
+        await handleScreenTap();
+    }
+  };
+
+  const speakGestureHelp = () => say(gestureMap.getHelp(screenReaderEnabled));
+
+  // ============================================================================
+  // Hands-Free Listening (wake phrase instead of a tap)
+  // ============================================================================
+  const enableHandsFree = async () => {
+    if (wakePhraseDetector.isEnabled()) {
+      await say(`Hands-free listening is already on. Say ${WAKE_PHRASE_CONFIG.PHRASE}.`);
+      return;
+    }
+    // Announce first, so the announcement does not open a recognition window
+    await say(`Hands-free listening on. Say ${WAKE_PHRASE_CONFIG.PHRASE} to start. You will hear a soft tick while I listen.`);
+    if (!(await wakePhraseDetector.enable())) {
+      await say('Hands-free listening is not available.');
+    }
+  };
+
+  const disableHandsFree = async () => {
+    if (!wakePhraseDetector.isEnabled()) {
+      await say('Hands-free listening is already off.');
+      return;
+    }
+    await wakePhraseDetector.disable('user');
+  };
+
+  const announceHandsFreeOff = (reason: WakeOffReason) => {
+    const minutes = Math.round(WAKE_PHRASE_CONFIG.IDLE_TIMEOUT_MS / 60000);
+    const messages: Record<WakeOffReason, string> = {
+      user: 'Hands-free listening off.',
+      idle_timeout: `Hands-free listening off after ${minutes} minutes without ${WAKE_PHRASE_CONFIG.PHRASE}.`,
+      max_duration: 'Hands-free listening off to save battery. Turn it on again when you need it.',
+      unavailable: 'Hands-free listening is not available on this device.',
+    };
+    audioFeedback.playEarcon('cancel');
+    say(messages[reason]);
+  };
+
+  // ============================================================================
+  // Pause / Resume (long press during a loop)
+  // ============================================================================
+  const pauseContinuousLoop = () => {
+    const { mode } = continuousLoopEngine.getSnapshot();
+    if (!interactionMachine.is('continuous') || !continuousLoopEngine.pause()) {
+      return;
+    }
+    audioFeedback.playEarcon(actionRegistry.getEarcon(mode, 'stop') || 'cancel');
+    say(actionRegistry.announce(mode, 'paused'));
+  };
+
+  const resumeContinuousLoop = () => {
+    const { mode } = continuousLoopEngine.getSnapshot();
+    if (!interactionMachine.is('continuous') || !continuousLoopEngine.resume()) {
+      return;
+    }
+    audioFeedback.playEarcon(actionRegistry.getEarcon(mode, 'start') || 'ready');
+    say(actionRegistry.announce(mode, 'resumed'));
+  };
+
+  const togglePause = async () => {
+    if (!interactionMachine.is('continuous')) {
+      await say('Nothing to pause. Pausing works during navigation and object guidance.');
+      return;
+    }
+    if (continuousLoopEngine.isPaused()) {
+      resumeContinuousLoop();
+    } else {
+      pauseContinuousLoop();
+    }
+  };
+
+  // ============================================================================
+  // Surface Actions (touch gestures → GestureMap, screen reader actions)
+  // ============================================================================
+  const runSurfaceAction = (action: GestureAction) => {
+    console.log(`👆 Action: ${action}`);
+    switch (action) {
+      case 'repeatAnswer':
+        return repeatLastAnswer();
+      case 'stop':
+        return stopCurrent();
+      case 'togglePause':
+        return togglePause();
+      case 'slowerSpeech':
+        return changeSpeechRate(-1);
+      case 'fasterSpeech':
+        return changeSpeechRate(1);
+      case 'newConversation':
+        return startNewConversation();
+      case 'continueConversation':
+        return continueLastConversation();
+      case 'recentConversation':
+        return speakRecentConversation();
+      case 'gestureHelp':
+        return speakGestureHelp();
+      case 'handsFree':
+        return wakePhraseDetector.isEnabled() ? disableHandsFree() : enableHandsFree();
+      case 'none':
+        return;
+    }
+  };
+
+  const handleGesture = (gesture: SurfaceGesture) => {
+    console.log(`👆 ${GESTURE_NAMES[gesture]}`);
+    runSurfaceAction(gestureMap.getAction(gesture));
+  };
+
+  // The surface keeps its recognizers across renders; these always call the latest handlers
+  const surfaceHandlersRef = useRef({ tap: handleScreenTap, gesture: handleGesture });
+  surfaceHandlersRef.current = { tap: handleScreenTap, gesture: handleGesture };
+  const onSurfaceTap = useCallback(() => surfaceHandlersRef.current.tap(), []);
+  const onSurfaceGesture = useCallback((gesture: SurfaceGesture) => surfaceHandlersRef.current.gesture(gesture), []);
+
+  // Hands-free recognition windows go through the same STT hook as a tap
+  const wakeHandlersRef = useRef({ startSTT, stopSTT, startListening, announceHandsFreeOff });
+  wakeHandlersRef.current = { startSTT, stopSTT, startListening, announceHandsFreeOff };
+  useEffect(() => {
+    wakePhraseDetector.setDriver({
+      startRecognition: () => wakeHandlersRef.current.startSTT(),
+      stopRecognition: () => wakeHandlersRef.current.stopSTT(),
+      canListen: () =>
+        interactionMachine.is('idle') &&
+        !speachesSentenceChunker.isCurrentlyPlaying() &&
+        !bargeInController.isCapturing(),
+      onWake: () => wakeHandlersRef.current.startListening(),
+      onOff: reason => wakeHandlersRef.current.announceHandsFreeOff(reason),
+    });
+    return () => {
+      wakePhraseDetector.disable();
+    };
+  }, []);
+
+  const bargeInHandlerRef = useRef(handleBargeIn);
+  bargeInHandlerRef.current = handleBargeIn;
+  useEffect(() => {
+    bargeInController.setHandler(utterance => bargeInHandlerRef.current(utterance));
+    return () => {
+      bargeInController.cancel();
+    };
+  }, []);
+
+  // Everything a gesture can do, for VoiceOver / TalkBack users
+  const getAccessibilityActions = (): AccessibilityActionInfo[] => [
+    { name: 'activate', label: 'Speak or stop' },
+    { name: 'longpress', label: GESTURE_ACTIONS.togglePause.label },
+    { name: 'magicTap', label: GESTURE_ACTIONS.stop.label },
+    { name: 'escape', label: GESTURE_ACTIONS.stop.label },
+    ...(interaction.state === 'continuous'
+      ? [interaction.isPaused
+        ? { name: 'resumeGuidance', label: 'Resume guidance' }
+        : { name: 'pauseGuidance', label: 'Pause guidance' }]
+      : []),
+    ...SCREEN_READER_ACTIONS.map(action => ({ name: action, label: GESTURE_ACTIONS[action].label })),
+  ];
+
+  const handleAccessibilityAction = (event: AccessibilityActionEvent) => {
+    const { actionName } = event.nativeEvent;
+    switch (actionName) {
+      case 'activate':
+        handleScreenTap();
+        break;
+      case 'longpress':
+        togglePause();
+        break;
+      case 'magicTap':
+      case 'escape':
+        stopCurrent();
+        break;
+      case 'pauseGuidance':
+        pauseContinuousLoop();
+        break;
+      case 'resumeGuidance':
+        resumeContinuousLoop();
+        break;
+      default:
+        if (SCREEN_READER_ACTIONS.includes(actionName as GestureAction)) {
+          runSurfaceAction(actionName as GestureAction);
+        }
+    }
   };
 
   // ============================================================================
@@ -1236,44 +1785,58 @@ function App(): React.JSX.Element {
   }
 
   return (
-    <TouchableWithoutFeedback
-      onPress={handleScreenTap}
-      accessible={true}
-      accessibilityLabel={getAccessibilityLabel()}
-      accessibilityHint={getAccessibilityHint()}
-      accessibilityRole="button"
-      accessibilityLiveRegion="polite"
-      accessibilityState={{ busy: isProcessing || isNavigation, disabled: false }}
-    >
-      <View ref={containerRef} style={styles.container} accessible={false} importantForAccessibility="no-hide-descendants">
-        <StatusBar barStyle="light-content" backgroundColor="#000" />
-
-        {/* Camera - isActive controlled by state */}
-        <Camera
-          ref={cameraRef}
-          style={StyleSheet.absoluteFill}
-          device={device}
-          isActive={isCameraActive}
-          photo={true}
-          accessible={false}
-          accessibilityElementsHidden={true}
-        />
-
-        <View style={styles.darkOverlay} accessible={false} importantForAccessibility="no-hide-descendants" />
-
-        {/* Voice Visualizer - now with isNavigation prop */}
-        <VoiceVisualizer
-          isListening={isListening}
-          isProcessing={isProcessing}
-          isSpeaking={isSpeaking}
-          isNavigation={isNavigation}
-          isReaching={isReaching}  // NEW
-          transcript={transcript}
-          pulseAnim={pulseAnim}
-          opacityAnim={opacityAnim}
-        />
-      </View>
-    </TouchableWithoutFeedback>
+    <GestureHandlerRootView style={styles.container}>
+      <GestureSurface
+        enabled={!screenReaderEnabled}
+        mappings={gestureMappings}
+        onTap={onSurfaceTap}
+        onGesture={onSurfaceGesture}
+        style={styles.container}
+        accessible={true}
+        accessibilityLabel={getAccessibilityLabel()}
+        accessibilityHint={getAccessibilityHint()}
+        accessibilityRole="button"
+        accessibilityLiveRegion="polite"
+        accessibilityState={{ busy: isProcessing || isNavigation, disabled: false }}
+        accessibilityActions={getAccessibilityActions()}
+        onAccessibilityAction={handleAccessibilityAction}
+      >
+        <View ref={containerRef} style={styles.container} accessible={false} importantForAccessibility="no-hide-descendants">
+          <StatusBar barStyle="light-content" backgroundColor="#000" />
+
+          {/* Camera - isActive controlled by state */}
+          <Camera
+            ref={cameraRef}
+            style={StyleSheet.absoluteFill}
+            device={device}
+            isActive={isCameraActive}
+            photo={true}
+            accessible={false}
+            accessibilityElementsHidden={true}
+          />
+
+          <View style={styles.darkOverlay} accessible={false} importantForAccessibility="no-hide-descendants" />
+
+          {/* Voice Visualizer - now with isNavigation prop */}
+          <VoiceVisualizer
+            isListening={isListening}
+            isProcessing={isProcessing}
+            isSpeaking={isSpeaking}
+            isNavigation={isNavigation}
+            isReaching={isReaching}  // NEW
+            transcript={transcript}
+            pulseAnim={pulseAnim}
+            opacityAnim={opacityAnim}
+          />
+        </View>
+      </GestureSurface>
+
+      <SignInScreen
+        visible={signInVisible}
+        onSignIn={signInParticipant}
+        onClose={() => setSignInVisible(false)}
+      />
+    </GestureHandlerRootView>
   );
 }
 
@@ -0,0 +1,75 @@
+/**
+ * @format
+ */
+
+import {
+  detectUnits,
+  imageToPreview,
+  imageToSensor,
+  parseBbox,
+  resolveReachingTarget,
+  sensorToImage,
+  validateBbox,
+} from '../src/utils/bbox';
+import { WorkflowResponse } from '../src/utils/types';
+
+const IMAGE = { width: 960, height: 1280 };
+
+describe('bbox', () => {
+  test('parses arrays, legacy strings and corner objects', () => {
+    expect(parseBbox([1, 2, 3, 4])).toEqual([1, 2, 3, 4]);
+    expect(parseBbox('[10, 20, 30, 40]')).toEqual([10, 20, 30, 40]);
+    expect(parseBbox({ xmin: 1, ymin: 2, xmax: 3, ymax: 4 })).toEqual([1, 2, 3, 4]);
+    expect(parseBbox('1,2,three,4')).toBeNull();
+  });
+
+  test('detects pixel, normalized and per-mille units', () => {
+    expect(detectUnits([0.1, 0.2, 0.5, 0.6], IMAGE)).toBe('normalized');
+    expect(detectUnits([96, 128, 480, 640], IMAGE)).toBe('pixels');
+    expect(detectUnits([100, 200, 990, 600], { width: 640, height: 480 })).toBe('per_mille');
+  });
+
+  test('normalizes, fixes swapped corners and rejects boxes outside the image', () => {
+    const pixels = validateBbox([480, 640, 96, 128], IMAGE);
+    expect(pixels.valid).toBe(true);
+    expect(pixels.normalized).toEqual([0.1, 0.1, 0.5, 0.5]);
+    expect(pixels.warnings).toHaveLength(2);
+
+    expect(validateBbox([1000, 1400, 1200, 1600], IMAGE, 'pixels').valid).toBe(false);
+    expect(validateBbox([96, 128, 480, 640]).valid).toBe(false);
+  });
+
+  test('maps between image, sensor and preview coordinates', () => {
+    const box: [number, number, number, number] = [0.1, 0.2, 0.3, 0.6];
+    const frame = { ...IMAGE, orientation: 'landscape-left' as const, isMirrored: true };
+
+    expect(sensorToImage(imageToSensor(box, frame), frame).map(v => +v.toFixed(6))).toEqual(box);
+    expect(imageToSensor(box, { ...IMAGE, orientation: 'portrait' })).toEqual(box);
+
+    // 960x1280 image covering a 390x844 view: scaled to 633x844, cropped left/right
+    expect(imageToPreview([0, 0, 1, 1], IMAGE, { width: 390, height: 844 })).toEqual([-121, 0, 512, 844]);
+  });
+
+  test('resolves a reaching target only with a known image size', () => {
+    const response: WorkflowResponse = {
+      text: '',
+      navigation: false,
+      reaching_flag: true,
+      reaching_ios: true,
+      loopDelay: 1000,
+      bbox: [0.1, 0.1, 0.5, 0.5],
+      object: 'cereal',
+    };
+
+    expect(resolveReachingTarget(response)).toBeNull();
+
+    const target = resolveReachingTarget({ ...response, imageSize: IMAGE });
+    expect(target).toMatchObject({
+      object: 'cereal',
+      bbox: [96, 128, 480, 640],
+      imageWidth: 960,
+      imageHeight: 1280,
+      units: 'normalized',
+    });
+  });
+});
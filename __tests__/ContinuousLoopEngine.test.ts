@@ -0,0 +1,145 @@
+/**
+ * @format
+ */
+
+import { continuousLoopEngine, LoopDriver } from '../src/services/ContinuousLoopEngine';
+import { conversationLog } from '../src/services/ConversationLog';
+import { sessionManager } from '../src/services/SessionManager';
+import { sendToWorkflow, stopContinuousMode } from '../src/services/WorkflowService';
+import { NAVIGATION_CONFIG } from '../src/utils/constants';
+import { WorkflowResponse } from '../src/utils/types';
+
+const LOOP_DELAY = 1000;
+
+jest.mock('../src/utils/storage', () => ({
+  readJSON: jest.fn(async (_name: string, fallback: any) => fallback),
+  writeJSON: jest.fn(async () => { }),
+  removeFile: jest.fn(async () => { }),
+  getStoragePath: (name: string) => name,
+}));
+
+jest.mock('../src/services/WorkflowService', () => ({
+  sendToWorkflow: jest.fn(),
+  determineActionMode: (response: any, mode: string) => response.navigation
+    ? { type: mode, action: { loop: 'continuous' } }
+    : { type: null, action: null },
+  getCurrentLoopDelay: () => 1000,
+  incrementContinuousMode: jest.fn(),
+  shouldPreventInfiniteLoop: () => false,
+  startContinuousMode: jest.fn(),
+  stopContinuousMode: jest.fn(),
+  updateLoopDelay: jest.fn(),
+}));
+
+jest.mock('../src/services/ActionRegistry', () => ({
+  actionRegistry: {
+    announce: () => '',
+    getRequestFlags: () => ({ navigation: true }),
+    handleResponse: jest.fn(),
+    cleanup: jest.fn(async () => { }),
+  },
+}));
+
+jest.mock('../src/services/FrameChangeDetector', () => ({
+  frameChangeDetector: {
+    check: jest.fn(async () => ({ changed: true })),
+    markUploaded: jest.fn(),
+    reset: jest.fn(),
+  },
+}));
+
+jest.mock('../src/services/CapabilityService', () => ({
+  capabilityService: {
+    getLimits: () => ({ minLoopDelayMs: 0 }),
+    clampLoopDelay: (ms: number) => ms,
+    supportsFeature: () => false,
+  },
+}));
+
+const answer = (text: string, navigation: boolean): WorkflowResponse => ({
+  text,
+  navigation,
+  reaching_flag: false,
+  reaching_ios: false,
+} as WorkflowResponse);
+
+/**
+ * sendToWorkflow that stays pending until answered, or rejects when aborted
+ */
+const pendingRequests = () => {
+  const { WorkflowCancelledError } = jest.requireActual('../src/services/WorkflowErrors');
+  const answers: ((response: WorkflowResponse) => void)[] = [];
+  (sendToWorkflow as jest.Mock).mockImplementation((_request, signal: AbortSignal) =>
+    new Promise((resolve, reject) => {
+      answers.push(resolve);
+      signal.addEventListener('abort', () => reject(new WorkflowCancelledError()));
+    }));
+  return answers;
+};
+
+describe('ContinuousLoopEngine', () => {
+  let driver: LoopDriver;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+    jest.useFakeTimers();
+    driver = {
+      capture: jest.fn(async () => 'photo.jpg'),
+      speak: jest.fn(async () => { }),
+      stopSpeaking: jest.fn(async () => { }),
+    };
+  });
+
+  afterEach(() => {
+    continuousLoopEngine.stop('test done');
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  test('stop ends the loop while it waits', async () => {
+    const ended = continuousLoopEngine.start('navigation', driver, LOOP_DELAY);
+    expect(continuousLoopEngine.getSnapshot()).toMatchObject({ status: 'running', mode: 'navigation' });
+
+    continuousLoopEngine.stop('tap');
+    await expect(ended).resolves.toMatchObject({ outcome: 'stopped', reason: 'tap' });
+    expect(continuousLoopEngine.getSnapshot().status).toBe('idle');
+    expect(stopContinuousMode).toHaveBeenLastCalledWith('tap');
+    expect(sendToWorkflow).not.toHaveBeenCalled();
+  });
+
+  test('pause cuts the request short and resume carries on', async () => {
+    const answers = pendingRequests();
+    const ended = continuousLoopEngine.start('navigation', driver, LOOP_DELAY);
+    await jest.advanceTimersByTimeAsync(LOOP_DELAY);
+    expect(sendToWorkflow).toHaveBeenCalledTimes(1);
+
+    expect(continuousLoopEngine.pause()).toBe(true);
+    expect(continuousLoopEngine.pause()).toBe(false);
+    await jest.advanceTimersByTimeAsync(NAVIGATION_CONFIG.MAX_LOOP_DELAY_MS);
+    expect(continuousLoopEngine.getSnapshot()).toMatchObject({ status: 'paused', phase: 'paused' });
+    expect(driver.stopSpeaking).toHaveBeenCalled();
+    expect(sendToWorkflow).toHaveBeenCalledTimes(1);
+
+    expect(continuousLoopEngine.resume()).toBe(true);
+    expect(continuousLoopEngine.resume()).toBe(false);
+    await jest.advanceTimersByTimeAsync(LOOP_DELAY);
+    expect(sendToWorkflow).toHaveBeenCalledTimes(2);
+
+    // Backend ends the action: the answer is spoken and kept in the session
+    answers[1](answer('You have arrived', false));
+    await expect(ended).resolves.toMatchObject({ outcome: 'done', mode: 'navigation' });
+    expect(driver.speak).toHaveBeenCalledWith('You have arrived');
+    expect(conversationLog.getLastAnswer(sessionManager.getSessionId())).toBe('You have arrived');
+  });
+
+  test('a pause longer than MAX_PAUSE_MS ends the loop', async () => {
+    const ended = continuousLoopEngine.start('navigation', driver, LOOP_DELAY);
+    continuousLoopEngine.pause();
+
+    await jest.advanceTimersByTimeAsync(NAVIGATION_CONFIG.MAX_PAUSE_MS);
+    await expect(ended).resolves.toMatchObject({ outcome: 'stopped', reason: 'pause timeout' });
+    expect(continuousLoopEngine.resume()).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @format
+ */
+
+import { conversationLog } from '../src/services/ConversationLog';
+import { CONVERSATION_CONFIG } from '../src/utils/constants';
+import { WorkflowResponse } from '../src/utils/types';
+
+jest.mock('../src/utils/storage', () => ({
+  readJSON: jest.fn(async (_name: string, fallback: any) => fallback),
+  writeJSON: jest.fn(async () => { }),
+}));
+
+const answer = (text: string): WorkflowResponse => ({
+  text,
+  navigation: false,
+  reaching_flag: false,
+  reaching_ios: false,
+} as WorkflowResponse);
+
+let sessionCount = 0;
+const newSession = () => `session-${++sessionCount}`;
+
+describe('ConversationLog', () => {
+  test('sends the newest turns that fit, oldest first', () => {
+    const session = newSession();
+    for (let i = 1; i <= CONVERSATION_CONFIG.CONTEXT_TURNS + 2; i++) {
+      conversationLog.addUserTurn(session, `question ${i}`, `req-${i}`);
+    }
+
+    const context = conversationLog.buildContext(session, `req-${CONVERSATION_CONFIG.CONTEXT_TURNS + 2}`);
+    expect(context).toHaveLength(CONVERSATION_CONFIG.CONTEXT_TURNS);
+    expect(context[0].text).toBe('question 2');
+    expect(context[context.length - 1].text).toBe(`question ${CONVERSATION_CONFIG.CONTEXT_TURNS + 1}`);
+  });
+
+  test('drops older turns once the token budget is reached', () => {
+    const session = newSession();
+    const longText = 'x'.repeat(CONVERSATION_CONFIG.CONTEXT_MAX_TOKENS * CONVERSATION_CONFIG.CHARS_PER_TOKEN * 0.6);
+    conversationLog.addUserTurn(session, longText, 'req-1');
+    conversationLog.addUserTurn(session, longText, 'req-2');
+    conversationLog.addUserTurn(session, 'short', 'req-3');
+
+    const context = conversationLog.buildContext(session);
+    expect(context.map(turn => turn.text)).toEqual([longText, 'short']);
+  });
+
+  test('ignores duplicates and keeps only the latest loop answer', () => {
+    const session = newSession();
+    conversationLog.addUserTurn(session, 'Take me to the milk', 'req-1');
+    conversationLog.addUserTurn(session, 'Take me to the milk', 'req-1');
+    conversationLog.addAssistantTurn(session, answer('Walk forward'), undefined, true);
+    conversationLog.addAssistantTurn(session, answer('Turn left'), undefined, true);
+    conversationLog.addAssistantTurn(session, answer('   '), 'req-2');
+
+    expect(conversationLog.getTurns(session).map(turn => turn.text)).toEqual(['Take me to the milk', 'Turn left']);
+    expect(conversationLog.getLastAnswer(session)).toBe('Turn left');
+    expect(conversationLog.getRecap(session)).toBe('You asked: Take me to the milk I said: Turn left');
+
+    conversationLog.clearSession(session);
+    expect(conversationLog.getRecap(session)).toBeNull();
+  });
+
+  test('caps the turns kept per session', () => {
+    const session = newSession();
+    for (let i = 1; i <= CONVERSATION_CONFIG.MAX_TURNS_PER_SESSION + 5; i++) {
+      conversationLog.addUserTurn(session, `question ${i}`);
+    }
+
+    const turns = conversationLog.getTurns(session);
+    expect(turns).toHaveLength(CONVERSATION_CONFIG.MAX_TURNS_PER_SESSION);
+    expect(turns[0].text).toBe('question 6');
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * @format
+ */
+
+import { dHash, hammingDistance, HASH_BITS } from '../src/utils/frameHash';
+
+/**
+ * RGBA image whose luma is given per pixel
+ */
+const image = (width: number, height: number, luma: (x: number, y: number) => number) => {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.max(0, Math.min(255, Math.round(luma(x, y))));
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return data;
+};
+
+describe('dHash', () => {
+  const shelf = (x: number, y: number) => 128 + 60 * Math.sin(x / 3) + 40 * Math.cos(y / 5);
+
+  test('ignores exposure changes and small noise', () => {
+    const base = dHash(image(32, 32, shelf), 32, 32);
+    const brighter = dHash(image(32, 32, (x, y) => shelf(x, y) * 1.1 + 8 + ((x * 7 + y * 3) % 3)), 32, 32);
+
+    expect(base).toHaveLength(HASH_BITS);
+    expect(hammingDistance(base, brighter)).toBeLessThanOrEqual(4);
+  });
+
+  test('separates a different scene', () => {
+    const base = dHash(image(32, 32, shelf), 32, 32);
+    const other = dHash(image(32, 32, (x, y) => 128 + 60 * Math.cos(x / 2 + y / 4)), 32, 32);
+
+    expect(hammingDistance(base, other)).toBeGreaterThan(12);
+  });
+
+  test('treats hashes of different length as fully different', () => {
+    expect(hammingDistance('0101', '0101')).toBe(0);
+    expect(hammingDistance('0101', '010')).toBe(4);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @format
+ */
+
+import {
+  getInteractionFlags,
+  InteractionStateMachine,
+  nextState,
+} from '../src/services/InteractionStateMachine';
+import { INTERACTION_CONFIG } from '../src/utils/constants';
+
+const toSpeaking = (machine: InteractionStateMachine) => {
+  machine.send({ type: 'LISTEN' });
+  machine.send({ type: 'TRANSCRIPT' });
+  machine.send({ type: 'CAPTURED' });
+  machine.send({ type: 'ANSWER' });
+};
+
+describe('InteractionStateMachine', () => {
+  let machine: InteractionStateMachine;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+    machine = new InteractionStateMachine();
+  });
+
+  afterEach(() => {
+    machine.reset();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('follows the table and rejects anything else', () => {
+    expect(nextState('idle', 'ANSWER')).toBeNull();
+    expect(nextState('continuous', 'STOP')).toBe('idle');
+
+    expect(machine.send({ type: 'CAPTURED' })).toBe(false);
+    expect(machine.send({ type: 'STOP', reason: 'tap' })).toBe(false);
+    expect(machine.getState()).toBe('idle');
+
+    toSpeaking(machine);
+    expect(machine.getState()).toBe('speaking');
+    expect(machine.send({ type: 'DONE' })).toBe(true);
+    expect(machine.getState()).toBe('idle');
+  });
+
+  test('loops track their action and phase', () => {
+    toSpeaking(machine);
+    expect(machine.send({ type: 'START_LOOP', actionType: 'navigation' })).toBe(true);
+    expect(machine.send({ type: 'START_LOOP', actionType: 'navigation' })).toBe(false);
+    machine.send({ type: 'LOOP_PHASE', phase: 'processing' });
+
+    expect(getInteractionFlags(machine.getSnapshot())).toEqual({
+      isProcessing: true,
+      isSpeaking: false,
+      isPaused: false,
+      isNavigation: true,
+      isReaching: false,
+      isBusy: true,
+    });
+
+    expect(machine.send({ type: 'START_LOOP', actionType: 'reaching' })).toBe(true);
+    expect(machine.getSnapshot().actionType).toBe('reaching');
+  });
+
+  test('guards and hooks', () => {
+    const entered = jest.fn();
+    machine.onEnter('idle', entered);
+    const removeGuard = machine.addGuard('LISTEN', () => false);
+
+    expect(machine.send({ type: 'LISTEN' })).toBe(false);
+    removeGuard();
+    expect(machine.send({ type: 'LISTEN' })).toBe(true);
+
+    machine.send({ type: 'FAIL', error: 'boom' });
+    expect(entered).toHaveBeenCalledWith(expect.objectContaining({
+      event: { type: 'FAIL', error: 'boom' },
+    }));
+  });
+
+  test('a stopped run is no longer current', () => {
+    machine.send({ type: 'LISTEN' });
+    const run = machine.getRunId();
+    expect(machine.isCurrentRun(run)).toBe(true);
+
+    machine.send({ type: 'STOP', reason: 'tap' });
+    expect(machine.isCurrentRun(run)).toBe(false);
+
+    machine.send({ type: 'LISTEN' });
+    expect(machine.getRunId()).toBe(run + 1);
+    expect(machine.isCurrentRun(run)).toBe(false);
+  });
+
+  test('the watchdog ends a stuck state', () => {
+    jest.useFakeTimers();
+    const timeouts = jest.fn();
+    machine.onEnter('idle', ({ event }) => timeouts(event.type));
+
+    machine.send({ type: 'LISTEN' });
+    machine.send({ type: 'TRANSCRIPT' });
+    jest.advanceTimersByTime(INTERACTION_CONFIG.STATE_TIMEOUTS_MS.capturing - 1);
+    expect(machine.getState()).toBe('capturing');
+
+    jest.advanceTimersByTime(1);
+    expect(machine.getState()).toBe('idle');
+    expect(timeouts).toHaveBeenCalledWith('TIMEOUT');
+  });
+});
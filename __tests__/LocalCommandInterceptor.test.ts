@@ -0,0 +1,51 @@
+/**
+ * @format
+ */
+
+import { LocalCommandInterceptor } from '../src/services/LocalCommandInterceptor';
+
+describe('LocalCommandInterceptor', () => {
+  let interceptor: LocalCommandInterceptor;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+    interceptor = new LocalCommandInterceptor();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('matches synonyms, punctuation and fillers', () => {
+    expect(interceptor.match('Stop!')?.intent).toBe('stop');
+    expect(interceptor.match('stop stop')?.intent).toBe('stop');
+    expect(interceptor.match('Could you say that again, please?')?.intent).toBe('repeatAnswer');
+    expect(interceptor.match('Okay, slow down')?.intent).toBe('slowerSpeech');
+    expect(interceptor.match("Let's start over")).toBeNull();
+    expect(interceptor.match('start over')?.intent).toBe('newConversation');
+  });
+
+  test('anything else falls through to the workflow', () => {
+    expect(interceptor.match('where is the bus stop')).toBeNull();
+    expect(interceptor.match('can you read this label for me please')).toBeNull();
+    expect(interceptor.match('please')).toBeNull();
+    expect(interceptor.match('   ')).toBeNull();
+
+    interceptor.setEnabled(false);
+    expect(interceptor.match('stop')).toBeNull();
+  });
+
+  test('the grammar is configurable', () => {
+    interceptor.addSynonyms('fasterSpeech', ['hurry up']);
+    expect(interceptor.match('hurry up')?.intent).toBe('fasterSpeech');
+
+    interceptor.setGrammar({ stop: ['halt'] });
+    expect(interceptor.match('halt')?.intent).toBe('stop');
+    expect(interceptor.match('stop')).toBeNull();
+
+    interceptor.resetGrammar();
+    expect(interceptor.match('stop')?.intent).toBe('stop');
+    expect(interceptor.match('hurry up')).toBeNull();
+  });
+});
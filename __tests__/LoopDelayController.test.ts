@@ -0,0 +1,91 @@
+/**
+ * @format
+ */
+
+import { loopDelayController } from '../src/services/LoopDelayController';
+import { LOOP_TIMING_CONFIG, NAVIGATION_CONFIG } from '../src/utils/constants';
+
+let mockLoopDelay = 4000;
+
+jest.mock('../src/services/WorkflowService', () => ({
+  getCurrentLoopDelay: () => mockLoopDelay,
+}));
+
+jest.mock('../src/services/CapabilityService', () => ({
+  capabilityService: {
+    getLimits: () => ({ minLoopDelayMs: 0 }),
+    clampLoopDelay: (ms: number) => ms,
+  },
+}));
+
+/**
+ * One iteration with the given phase lengths; returns the chosen wait
+ */
+const iterate = (captureMs: number, roundTripMs: number, speechMs: number) => {
+  const start = Date.now();
+  loopDelayController.beginIteration();
+  jest.setSystemTime(start + captureMs);
+  loopDelayController.markRequestSent();
+  jest.setSystemTime(start + captureMs + roundTripMs);
+  loopDelayController.markResponse();
+  jest.setSystemTime(start + captureMs + roundTripMs + speechMs);
+  loopDelayController.markSpeechEnd();
+  return loopDelayController.nextDelay();
+};
+
+describe('LoopDelayController', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.useFakeTimers({ now: 1000000 });
+    mockLoopDelay = 4000;
+    loopDelayController.start();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('waits the full target before the first iteration', () => {
+    expect(loopDelayController.nextDelay()).toBe(4000);
+    expect(loopDelayController.getTiming()?.reason).toBe('first');
+    expect(loopDelayController.getCameraWarmupMs(800)).toBe(800);
+  });
+
+  test('starts the next capture early enough to keep the cadence', () => {
+    // target - time since the answer - (capture + round trip)
+    expect(iterate(500, 1000, 1000)).toBe(4000 - 1000 - 1500);
+    expect(loopDelayController.getTiming()).toMatchObject({ reason: 'cadence', captureMs: 500, roundTripMs: 1000 });
+    expect(loopDelayController.getCameraWarmupMs(800)).toBe(800);
+
+    // Averages move towards the newest sample
+    iterate(1500, 1000, 0);
+    expect(loopDelayController.getTiming()?.avgCaptureMs).toBe(500 + LOOP_TIMING_CONFIG.SMOOTHING * 1000);
+    expect(loopDelayController.getCameraWarmupMs(800)).toBe(LOOP_TIMING_CONFIG.CAMERA_SETTLE_MS);
+  });
+
+  test('never waits less than the settle time or the rate limit', () => {
+    expect(iterate(500, 1000, 4000)).toBe(LOOP_TIMING_CONFIG.SPEECH_SETTLE_MS);
+    expect(loopDelayController.getTiming()?.reason).toBe('settle');
+
+    mockLoopDelay = 1000;
+    loopDelayController.start();
+    expect(iterate(100, 100, 100)).toBe(NAVIGATION_CONFIG.MIN_REQUEST_INTERVAL_MS + LOOP_TIMING_CONFIG.RATE_MARGIN_MS - 300);
+    expect(loopDelayController.getTiming()?.reason).toBe('rate_limit');
+  });
+
+  test('backs off while the scene is unchanged and snaps back on change', () => {
+    loopDelayController.recordSceneChange(false);
+    loopDelayController.recordSceneChange(false);
+    expect(loopDelayController.nextDelay()).toBe(4000 * LOOP_TIMING_CONFIG.UNCHANGED_BACKOFF ** 2);
+
+    for (let i = 0; i < 10; i++) {
+      loopDelayController.recordSceneChange(false);
+    }
+    expect(loopDelayController.nextDelay()).toBe(NAVIGATION_CONFIG.MAX_LOOP_DELAY_MS);
+    expect(loopDelayController.getTiming()?.targetMs).toBe(NAVIGATION_CONFIG.MAX_LOOP_DELAY_MS);
+
+    loopDelayController.recordSceneChange(true);
+    expect(loopDelayController.nextDelay()).toBe(4000);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * @format
+ */
+
+import {
+  createMockBackend,
+  WORKFLOW_PATH,
+  TTS_PATH,
+  STT_PATH,
+  AUTH_TOKEN_PATH,
+  AUTH_REFRESH_PATH,
+  CAPABILITIES_PATH,
+  SESSION_EVENTS_PATH,
+} from '../scripts/mock-backend';
+
+const backend = createMockBackend({ quiet: true });
+let baseUrl = '';
+
+const postForm = (path: string, fields: Record<string, string>, headers: Record<string, string> = {}) => {
+  const form = new FormData();
+  Object.entries(fields).forEach(([key, value]) => form.append(key, value));
+  return fetch(`${baseUrl}${path}`, { method: 'POST', body: form, headers });
+};
+
+const ask = async (fields: Record<string, string>) => {
+  const response = await postForm(WORKFLOW_PATH, { session_id: 'test-session', ...fields });
+  return { status: response.status, body: await response.json() };
+};
+
+beforeAll(async () => {
+  const port = await backend.listen(0);
+  baseUrl = `http://localhost:${port}`;
+});
+
+afterAll(() => backend.close());
+
+describe('mock backend', () => {
+  test('answers a question with the workflow contract', async () => {
+    backend.setScenario('answer');
+    const { status, body } = await ask({ transcript: 'Where is the milk?', request_id: 'r1' });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      schema_version: 1,
+      text: 'Mock answer to: Where is the milk?',
+      navigation: false,
+      reaching_flag: false,
+      reaching_ios: false,
+      session_id: 'test-session',
+    });
+    expect(backend.getRequests()[0].fields.request_id).toBe('r1');
+  });
+
+  test('navigation ends after the configured number of iterations', async () => {
+    backend.setScenario('navigation', { iterations: 2, loopDelay: 1500 });
+
+    const flags = [];
+    for (let i = 0; i < 3; i++) {
+      const { body } = await ask({ transcript: '', navigation: 'true' });
+      flags.push(body.navigation);
+      if (body.navigation) {
+        expect(body.loopDelay).toBe(1500);
+      }
+    }
+
+    expect(flags).toEqual([true, true, false]);
+  });
+
+  test('reaching returns a bbox in the coordinate space of the uploaded image', async () => {
+    backend.setScenario('reaching', { iterations: 1, object: 'milk' });
+    const { body } = await ask({ transcript: 'Find the milk', image_width: '1000', image_height: '800' });
+
+    expect(body.reaching_ios).toBe(true);
+    expect(body.object).toBe('milk');
+    expect(body.bbox).toEqual([350, 240, 650, 560]);
+  });
+
+  test('error and flaky scenarios fail with the configured status', async () => {
+    backend.setScenario('error', { status: 503 });
+    expect((await ask({ transcript: 'hi' })).status).toBe(503);
+
+    backend.setScenario('flaky');
+    expect((await ask({ transcript: 'hi', request_id: 'r2' })).status).toBe(500);
+    expect((await ask({ transcript: 'hi', request_id: 'r2' })).status).toBe(200);
+  });
+
+  test('X-Mock-Scenario header overrides the active scenario', async () => {
+    backend.setScenario('answer');
+    const response = await postForm(WORKFLOW_PATH, { transcript: 'hi' }, { 'X-Mock-Scenario': 'error' });
+    expect(response.status).toBe(500);
+  });
+
+  test('Speaches TTS returns WAV audio and checks the API key', async () => {
+    const ok = await fetch(`${baseUrl}${TTS_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer local-mock-key' },
+      body: JSON.stringify({ input: 'Hello there', response_format: 'wav' }),
+    });
+    const audio = new Uint8Array(await ok.arrayBuffer());
+
+    expect(ok.status).toBe(200);
+    expect(ok.headers.get('content-type')).toBe('audio/wav');
+    expect(String.fromCharCode(...audio.slice(0, 4))).toBe('RIFF');
+
+    const denied = await fetch(`${baseUrl}${TTS_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer wrong' },
+      body: JSON.stringify({ input: 'Hello' }),
+    });
+    expect(denied.status).toBe(401);
+  });
+
+  test('Speaches STT returns the scripted transcript', async () => {
+    backend.setScenario('answer', { transcript: 'Where are the eggs?' });
+
+    const boundary = 'mock-boundary';
+    const body = [
+      `--${boundary}`,
+      'Content-Disposition: form-data; name="model"',
+      '',
+      'whisper',
+      `--${boundary}`,
+      'Content-Disposition: form-data; name="file"; filename="audio.wav"',
+      'Content-Type: audio/wav',
+      '',
+      'RIFF....WAVE',
+      `--${boundary}--`,
+      '',
+    ].join('\r\n');
+    const response = await fetch(`${baseUrl}${STT_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+      body,
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ text: 'Where are the eggs?' });
+  });
+
+  test('capability handshake advertises the configured actions', async () => {
+    backend.setScenario('answer', { actions: ['navigation'] });
+    const response = await fetch(`${baseUrl}${CAPABILITIES_PATH}`);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.schema_version).toBe(1);
+    expect(body.actions).toEqual(['navigation']);
+    expect(body.limits.min_loop_delay_ms).toBe(500);
+    expect(body.limits.max_images_per_request).toBe(3);
+    expect(body.voices).toContain('af_heart');
+    expect(body.features).toEqual(['stream', 'frame_unchanged']);
+    expect(body.session_events_url).toBe(`${baseUrl}${SESSION_EVENTS_PATH}`);
+  });
+
+  test('issues participant tokens and refreshes them after revocation', async () => {
+    const postJSON = (path: string, payload: object, headers: Record<string, string> = {}) =>
+      fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(payload),
+      });
+    const speak = (token: string) => postJSON(TTS_PATH, { input: 'Hello' }, { Authorization: `Bearer ${token}` });
+
+    expect((await postJSON(AUTH_TOKEN_PATH, { participant_id: 'P07', enrollment_code: '' })).status).toBe(401);
+
+    const signIn = await postJSON(AUTH_TOKEN_PATH, { participant_id: 'P07', enrollment_code: '1234' });
+    const tokens = await signIn.json();
+    expect(tokens).toMatchObject({ user_id: 'P07', expires_in: 3600 });
+    expect((await speak(tokens.access_token)).status).toBe(200);
+
+    await fetch(`${baseUrl}/__mock/revoke`, { method: 'POST' });
+    expect((await speak(tokens.access_token)).status).toBe(401);
+
+    const refreshed = await (await postJSON(AUTH_REFRESH_PATH, { refresh_token: tokens.refresh_token })).json();
+    expect(refreshed.user_id).toBe('P07');
+    expect((await speak(refreshed.access_token)).status).toBe(200);
+
+    // Refresh tokens are single use
+    expect((await postJSON(AUTH_REFRESH_PATH, { refresh_token: tokens.refresh_token })).status).toBe(401);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * @format
+ */
+
+import { pcm16DurationMs, pcm16LevelDb, pcm16ToWav, SILENCE_DB } from '../src/utils/pcm';
+
+/**
+ * 16-bit little-endian PCM with every sample set to `value`
+ */
+const pcm = (samples: number, value: number) => {
+  const data = new Uint8Array(samples * 2);
+  const view = new DataView(data.buffer);
+  for (let i = 0; i < samples; i++) {
+    view.setInt16(i * 2, value, true);
+  }
+  return data;
+};
+
+describe('pcm16LevelDb', () => {
+  test('measures RMS in dBFS', () => {
+    expect(pcm16LevelDb(pcm(160, 0))).toBe(SILENCE_DB);
+    expect(pcm16LevelDb(pcm(160, -32768))).toBeCloseTo(0, 5);
+    expect(pcm16LevelDb(pcm(160, 3277))).toBeCloseTo(-20, 1);
+    expect(pcm16LevelDb(new Uint8Array(0))).toBe(SILENCE_DB);
+  });
+});
+
+describe('pcm16ToWav', () => {
+  test('wraps the chunks in a 44-byte header', () => {
+    const wav = pcm16ToWav([pcm(100, 1), pcm(60, 2)], 16000);
+    const view = new DataView(wav.buffer);
+    const text = (offset: number) => String.fromCharCode(...wav.slice(offset, offset + 4));
+
+    expect(wav).toHaveLength(44 + 320);
+    expect(text(0)).toBe('RIFF');
+    expect(text(8)).toBe('WAVE');
+    expect(text(36)).toBe('data');
+    expect(view.getUint32(4, true)).toBe(36 + 320);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(40, true)).toBe(320);
+    expect(view.getInt16(44 + 100 * 2, true)).toBe(2);
+    expect(pcm16DurationMs(320, 16000)).toBe(10);
+  });
+});
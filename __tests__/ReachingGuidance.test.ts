@@ -0,0 +1,50 @@
+/**
+ * @format
+ */
+
+import { computeGuidanceCue, directionFromOffset } from '../src/utils/reachingGuidance';
+import { REACHING_GUIDANCE_CONFIG } from '../src/utils/constants';
+
+describe('reachingGuidance', () => {
+  test('a centered target is silent in pan and pitch', () => {
+    const cue = computeGuidanceCue([0.45, 0.45, 0.55, 0.55]);
+    expect(cue.centered).toBe(true);
+    expect(cue.direction).toBe('centered');
+    expect(cue.pan).toBe(0);
+    expect(cue.pitchCents).toBe(0);
+  });
+
+  test('pans towards the target and pitches up when it is above', () => {
+    const right = computeGuidanceCue([0.9, 0.45, 1, 0.55]);
+    expect(right.pan).toBeCloseTo(0.875, 3);
+    expect(right.direction).toBe('right');
+
+    const topLeft = computeGuidanceCue([0, 0, 0.1, 0.1]);
+    expect(topLeft.pan).toBeLessThan(0);
+    expect(topLeft.pitchCents).toBeGreaterThan(0);
+    expect(topLeft.pitchRate).toBeGreaterThan(1);
+    expect(topLeft.direction).toBe('top left');
+
+    expect(computeGuidanceCue([0.45, 0.9, 0.55, 1]).pitchCents).toBe(
+      Math.round(-REACHING_GUIDANCE_CONFIG.MAX_PITCH_CENTS * 0.729)
+    );
+  });
+
+  test('bips faster as the target grows', () => {
+    expect(computeGuidanceCue([0.48, 0.48, 0.52, 0.52]).intervalMs).toBe(REACHING_GUIDANCE_CONFIG.DEFAULT_INTERVAL_MS);
+    expect(computeGuidanceCue([0.1, 0.1, 0.9, 0.9]).intervalMs).toBe(REACHING_GUIDANCE_CONFIG.MIN_INTERVAL_MS);
+  });
+
+  test('stays centered inside the margin once centered', () => {
+    const box: [number, number, number, number] = [0.53, 0.45, 0.75, 0.55];   // center x 0.64
+    expect(computeGuidanceCue(box, false).centered).toBe(false);
+    expect(computeGuidanceCue(box, true).centered).toBe(true);
+  });
+
+  test('maps offsets to eight directions', () => {
+    expect(directionFromOffset(-0.3, 0)).toBe('left');
+    expect(directionFromOffset(0, -0.3)).toBe('top');
+    expect(directionFromOffset(0.3, 0.3)).toBe('down right');
+    expect(directionFromOffset(-0.3, 0.3)).toBe('down left');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * @format
+ */
+
+import { AxiosError } from 'axios';
+import {
+  computeBackoffDelay,
+  isRetryableError,
+  RetryPolicy,
+  withRetry,
+} from '../src/services/RetryPolicy';
+
+const POLICY: RetryPolicy = { maxAttempts: 4, baseDelayMs: 100, maxDelayMs: 1000, budgetMs: 60000 };
+
+const httpError = (status: number) =>
+  new AxiosError(`HTTP ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status,
+    statusText: '',
+    headers: {},
+    config: {} as any,
+    data: null,
+  });
+
+describe('RetryPolicy', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('doubles the backoff up to the cap, with full jitter', () => {
+    expect([1, 2, 3, 4, 5].map(attempt => computeBackoffDelay(attempt, POLICY, () => 1)))
+      .toEqual([100, 200, 400, 800, 1000]);
+    expect(computeBackoffDelay(3, POLICY, () => 0)).toBe(0);
+    expect(computeBackoffDelay(3, POLICY, () => 0.5)).toBe(200);
+  });
+
+  test('retries only transient failures', () => {
+    expect(isRetryableError(new AxiosError('timeout', 'ETIMEDOUT'))).toBe(true);
+    expect(isRetryableError(new AxiosError('offline', 'ERR_NETWORK'))).toBe(true);
+    expect([408, 429, 500, 503].every(status => isRetryableError(httpError(status)))).toBe(true);
+    expect([400, 401, 404, 501].some(status => isRetryableError(httpError(status)))).toBe(false);
+    expect(isRetryableError(new AxiosError('canceled', 'ERR_CANCELED'))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('parse'), { retryable: true }))).toBe(true);
+    expect(isRetryableError(new Error('parse'))).toBe(false);
+  });
+
+  test('retries until an attempt succeeds', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const onRetry = jest.fn();
+    const operation = jest.fn(async (attempt: number) => {
+      if (attempt < 3) {
+        throw httpError(503);
+      }
+      return 'ok';
+    });
+
+    await expect(withRetry(operation, { policy: POLICY, onRetry })).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+
+  test('gives up on max attempts, the budget or a permanent error', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const failing = jest.fn(async () => { throw httpError(503); });
+    await expect(withRetry(failing, { policy: { ...POLICY, maxAttempts: 2 } })).rejects.toThrow('HTTP 503');
+    expect(failing).toHaveBeenCalledTimes(2);
+
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const overBudget = jest.fn(async () => { throw httpError(503); });
+    await expect(withRetry(overBudget, { policy: { ...POLICY, budgetMs: 50 } })).rejects.toThrow('HTTP 503');
+    expect(overBudget).toHaveBeenCalledTimes(1);
+
+    const permanent = jest.fn(async () => { throw httpError(404); });
+    await expect(withRetry(permanent, { policy: POLICY })).rejects.toThrow('HTTP 404');
+    expect(permanent).toHaveBeenCalledTimes(1);
+  });
+
+  test('an abort ends the wait between attempts', async () => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const controller = new AbortController();
+    const operation = jest.fn(async () => { throw httpError(503); });
+
+    const result = withRetry(operation, { policy: POLICY, signal: controller.signal });
+    await Promise.resolve();
+    await Promise.resolve();
+    controller.abort();
+    await expect(result).rejects.toThrow('Request cancelled');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @format
+ */
+
+import { validateWorkflowResponse } from '../src/services/WorkflowResponseSchema';
+import { NAVIGATION_CONFIG } from '../src/utils/constants';
+
+describe('validateWorkflowResponse', () => {
+  test('accepts a canonical v1 payload without issues', () => {
+    const { response, diagnostics, valid } = validateWorkflowResponse({
+      schema_version: 1,
+      text: ' Turn left. ',
+      navigation: true,
+      reaching_flag: false,
+      reaching_ios: false,
+      loopDelay: 3000,
+      session_id: 'abc',
+    });
+
+    expect(valid).toBe(true);
+    expect(diagnostics.errors).toHaveLength(0);
+    expect(diagnostics.warnings).toHaveLength(0);
+    expect(response.text).toBe('Turn left.');
+    expect(response.navigation).toBe(true);
+    expect(response.loopDelay).toBe(3000);
+    expect(response.session_id).toBe('abc');
+    expect(response.schema_version).toBe(1);
+  });
+
+  test('records legacy envelopes, aliases and string booleans', () => {
+    const { response, diagnostics, valid } = validateWorkflowResponse(
+      [{ json: { response: 'Hello', reachingFlag: 'TRUE', objectName: 'milk' } }],
+      'fallback-session'
+    );
+
+    expect(valid).toBe(true);
+    expect(diagnostics.schemaVersion).toBeNull();
+    expect(diagnostics.aliasesUsed).toEqual([
+      '[0] (array envelope)',
+      'json (envelope)',
+      'response → text',
+      'reachingFlag → reaching_flag',
+      'objectName → object',
+    ]);
+    expect(response.text).toBe('Hello');
+    expect(response.reaching_flag).toBe(true);
+    expect(response.object).toBe('milk');
+    expect(response.session_id).toBe('fallback-session');
+  });
+
+  test('reports a flag typo instead of silently ignoring it', () => {
+    const { response, diagnostics } = validateWorkflowResponse({
+      schema_version: 1,
+      text: 'Keep going',
+      navigaton: true,
+    });
+
+    expect(response.navigation).toBe(false);
+    expect(diagnostics.warnings).toContainEqual(
+      expect.objectContaining({ code: 'unknown_field', field: 'navigaton' })
+    );
+    expect(diagnostics.warnings.find(w => w.field === 'navigaton')?.message).toContain('"navigation"');
+  });
+
+  test('flags unusable values as errors', () => {
+    const { response, diagnostics, valid } = validateWorkflowResponse({
+      schema_version: 1,
+      text: 'Found it',
+      navigation: 'yes',
+      reaching_ios: true,
+      bbox: '1,2,three,4',
+    });
+
+    expect(valid).toBe(false);
+    expect(response.navigation).toBe(false);
+    expect(response.bbox).toBeUndefined();
+    expect(diagnostics.errors.map(e => e.field)).toEqual(['navigation', 'bbox', 'bbox']);
+  });
+
+  test('parses legacy bbox strings', () => {
+    const { response } = validateWorkflowResponse({ reaching_ios: true, bbox: '[10, 20, 30, 40]' });
+    expect(response.bbox).toEqual([10, 20, 30, 40]);
+  });
+
+  test('clamps loopDelay to the configured bounds', () => {
+    const tooFast = validateWorkflowResponse({ schema_version: 1, text: 'a', loopDelay: 1 });
+    expect(tooFast.response.loopDelay).toBe(NAVIGATION_CONFIG.MIN_LOOP_DELAY_MS);
+    expect(tooFast.diagnostics.warnings[0].code).toBe('clamped');
+
+    const tooSlow = validateWorkflowResponse({ schema_version: 1, text: 'a', loopDelay: 10 ** 9 });
+    expect(tooSlow.response.loopDelay).toBe(NAVIGATION_CONFIG.MAX_LOOP_DELAY_MS);
+  });
+
+  test('warns about newer schema versions', () => {
+    const { diagnostics } = validateWorkflowResponse({ schema_version: 99, text: 'a' });
+    expect(diagnostics.warnings[0].code).toBe('unsupported_version');
+  });
+
+  test('reports empty payloads', () => {
+    const { response, valid, diagnostics } = validateWorkflowResponse(null);
+    expect(valid).toBe(false);
+    expect(diagnostics.errors[0].code).toBe('empty_payload');
+    expect(response.loopDelay).toBe(NAVIGATION_CONFIG.DEFAULT_LOOP_DELAY_MS);
+  });
+});
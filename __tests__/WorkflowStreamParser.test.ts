@@ -0,0 +1,68 @@
+/**
+ * @format
+ */
+
+import { StreamParser } from '../src/services/WorkflowStreamClient';
+
+const parse = (chunks: string[]) => {
+  const tokens: string[] = [];
+  const flags: Record<string, any>[] = [];
+  const parser = new StreamParser({
+    onToken: text => tokens.push(text),
+    onFlags: update => flags.push(update),
+  });
+  chunks.forEach(chunk => parser.push(chunk));
+  parser.end();
+  return { parser, tokens, flags };
+};
+
+describe('WorkflowStreamClient parser', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('reads SSE events split across chunks', () => {
+    const { parser, tokens, flags } = parse([
+      ': keep-alive\r\n\r\nevent: token\r\ndata: {"text": "Turn "}\r\n\r\nevent: tok',
+      'en\ndata: {"text": "left"}\n\nevent: flags\ndata: {"navigation": true}\n\n',
+      'event: done\ndata: {"text": "Turn left", "navigation": true}\n\n',
+    ]);
+
+    expect(tokens).toEqual(['Turn ', 'left']);
+    expect(flags).toEqual([{ navigation: true }]);
+    expect(parser.text).toBe('Turn left');
+    expect(parser.receivedTokens).toBe(true);
+    expect(parser.donePayload).toEqual({ text: 'Turn left', navigation: true });
+  });
+
+  test('joins multi-line data and treats plain data as text', () => {
+    const { parser, tokens } = parse(['data: first\ndata: second\n\ndata: {"delta": "!"}']);
+
+    expect(tokens).toEqual(['first\nsecond', '!']);
+    expect(parser.donePayload).toBeNull();
+  });
+
+  test('reads n8n NDJSON and plain JSON answers', () => {
+    const ndjson = parse([
+      '{"type": "begin"}\n{"type": "item", "content": "Shelf "}\n{"type": "it',
+      'em", "content": "two"}\n{"type": "flags", "content": {"loopDelay": 2000}}\n{"type": "end"}\n',
+    ]);
+    expect(ndjson.tokens).toEqual(['Shelf ', 'two']);
+    expect(ndjson.parser.flags).toEqual({ loopDelay: 2000 });
+    expect(ndjson.parser.donePayload).toBeNull();
+
+    const plain = parse(['{"text": "Milk is on your right", "navigation": false}']);
+    expect(plain.tokens).toEqual([]);
+    expect(plain.parser.donePayload).toEqual({ text: 'Milk is on your right', navigation: false });
+  });
+
+  test('keeps the server error message', () => {
+    expect(parse(['event: error\ndata: {"message": "Workflow failed"}\n\n']).parser.errorMessage)
+      .toBe('Workflow failed');
+    expect(parse(['{"type": "error", "message": "Quota"}\n']).parser.errorMessage).toBe('Quota');
+  });
+});
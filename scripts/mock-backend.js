@@ -0,0 +1,637 @@
+/**
+ * scripts/mock-backend.js
+ *
+ * Local mock workflow + Speaches server
+ *
+ * Stand-in for the lab server so the app and Jest tests can run without
+ * cybersight.cim.mcgill.ca. Speaks the same contracts:
+ *
+ *   POST /webhook/shelfscout                 multipart workflow webhook
+ *   POST /speaches/v1/audio/speech           OpenAI-style TTS (returns WAV)
+ *   POST /speaches/v1/audio/transcriptions   OpenAI-style STT
+ *   POST /auth/token                         participant sign-in
+ *   POST /auth/refresh                       refresh token exchange
+ *   GET  /capabilities                       capability handshake
+ *   POST /session-events                     session start / end / resume
+ *
+ * Paths match the "local" profile in BACKEND_ENVIRONMENTS, so selecting
+ * it from the dev menu points the app here (port 8787).
+ *
+ * Scenarios (--scenario, X-Mock-Scenario header or ?scenario=):
+ *
+ *   answer      Plain answer echoing the transcript (default)
+ *   navigation  navigation=true for N iterations, then "You have arrived."
+ *   reaching    reaching_ios + reaching_flag with a bbox for N iterations
+ *   error       Every workflow request fails with HTTP 500
+ *   flaky       First attempt of each request_id fails, retries succeed
+ *   slow        Answers after delayMs
+ *
+ * In navigation / reaching, a frame_unchanged=true heartbeat gets an empty
+ * text with the loop flags and does not count as an iteration.
+ *
+ * Control endpoints for tests:
+ *
+ *   GET  /__mock/health      liveness
+ *   GET  /__mock/requests    everything received so far
+ *   POST /__mock/scenario    {"name": "navigation", "options": {"iterations": 2}}
+ *   POST /__mock/reset       clear recorded requests and counters
+ *   POST /__mock/revoke      expire all access tokens (refresh still works)
+ *
+ * Auth: any participant id with a non-empty enrollment code gets tokens.
+ * Requests without an Authorization header are accepted unless
+ * --require-auth is given; the old shared key is still honoured.
+ *
+ * Usage:
+ *   node scripts/mock-backend.js --scenario navigation --iterations 3
+ *   node scripts/mock-backend.js --scenario slow --delay 8000
+ *   node scripts/mock-backend.js --require-auth
+ *   node scripts/mock-backend.js --actions navigation   (no reaching support)
+ */
+
+/* eslint-env node */
+'use strict';
+
+const http = require('http');
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DEFAULT_PORT = 8787;
+const API_KEY = 'local-mock-key';
+
+const WORKFLOW_PATH = '/webhook/shelfscout';
+const TTS_PATH = '/speaches/v1/audio/speech';
+const STT_PATH = '/speaches/v1/audio/transcriptions';
+const AUTH_TOKEN_PATH = '/auth/token';
+const AUTH_REFRESH_PATH = '/auth/refresh';
+const CAPABILITIES_PATH = '/capabilities';
+const SESSION_EVENTS_PATH = '/session-events';
+
+const TOKEN_TTL_SECONDS = 3600;
+
+const SCHEMA_VERSION = 1;
+
+const SCENARIOS = ['answer', 'navigation', 'reaching', 'error', 'flaky', 'slow'];
+
+const DEFAULT_OPTIONS = {
+  iterations: 3,            // navigation / reaching: continuous iterations before stopping
+  delayMs: 0,               // extra delay before every workflow answer (slow: 8000)
+  loopDelay: 2000,          // loopDelay returned with continuous flags
+  status: 500,              // error / flaky: HTTP status to fail with
+  failures: 1,              // flaky: failed attempts per request_id
+  stream: true,             // answer streaming clients with SSE
+  object: 'cereal box',     // reaching: detected object
+  transcript: 'What is on this shelf?',
+  ttsDelayMs: 0,
+  sampleRate: 24000,
+  actions: ['navigation', 'reaching_flag', 'reaching_ios'],  // advertised in /capabilities
+  voices: ['af_heart', 'am_adam'],
+  maxImages: 3,             // max_images_per_request (burst uploads as image_0..n)
+};
+
+// Fallback image size when the client did not send image_width / image_height
+const DEFAULT_IMAGE_SIZE = { width: 1280, height: 960 };
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// =============================================================================
+// Request parsing
+// =============================================================================
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+/**
+ * Minimal multipart/form-data parser
+ *
+ * Text fields become strings; file fields become
+ * { filename, contentType, size } (contents are not kept).
+ */
+const parseMultipart = (body, contentType) => {
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType || '');
+  if (!match) {
+    return {};
+  }
+
+  const boundary = `--${match[1] || match[2]}`;
+  const raw = body.toString('latin1');
+  const fields = {};
+
+  raw.split(boundary).forEach(part => {
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd === -1) {
+      return;
+    }
+
+    const headers = part.slice(0, headerEnd);
+    const value = part.slice(headerEnd + 4).replace(/\r\n$/, '');
+    const name = /name="([^"]*)"/i.exec(headers);
+    if (!name) {
+      return;
+    }
+
+    const filename = /filename="([^"]*)"/i.exec(headers);
+    if (filename) {
+      const type = /Content-Type:\s*([^\r\n]+)/i.exec(headers);
+      fields[name[1]] = {
+        filename: filename[1],
+        contentType: type ? type[1].trim() : 'application/octet-stream',
+        size: Buffer.byteLength(value, 'latin1'),
+      };
+    } else {
+      fields[name[1]] = Buffer.from(value, 'latin1').toString('utf8');
+    }
+  });
+
+  return fields;
+};
+
+const parseFields = (body, contentType) => {
+  if ((contentType || '').includes('multipart/form-data')) {
+    return parseMultipart(body, contentType);
+  }
+
+  if (!body.length) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+    return {};
+  }
+};
+
+// =============================================================================
+// Responses
+// =============================================================================
+
+const sendJSON = (res, status, payload) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+/**
+ * Stream an answer as SSE (token events, then a done event with the
+ * full payload) - the format WorkflowStreamClient expects
+ */
+const sendEventStream = async (res, payload) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const words = String(payload.text || '').split(/(\s+)/).filter(Boolean);
+  for (const word of words) {
+    res.write(`event: token\ndata: ${JSON.stringify({ text: word })}\n\n`);
+    await sleep(20);
+  }
+
+  res.write(`event: done\ndata: ${JSON.stringify(payload)}\n\n`);
+  res.end();
+};
+
+/**
+ * Silent 16-bit mono WAV, roughly as long as reading the text aloud
+ */
+const createSilentWav = (text, sampleRate) => {
+  const words = String(text || '').trim().split(/\s+/).filter(Boolean).length;
+  const seconds = Math.min(10, Math.max(0.3, words * 0.3));
+  const dataSize = Math.round(seconds * sampleRate) * 2;
+
+  const wav = Buffer.alloc(44 + dataSize);
+  wav.write('RIFF', 0, 'ascii');
+  wav.writeUInt32LE(36 + dataSize, 4);
+  wav.write('WAVE', 8, 'ascii');
+  wav.write('fmt ', 12, 'ascii');
+  wav.writeUInt32LE(16, 16);               // fmt chunk size
+  wav.writeUInt16LE(1, 20);                // PCM
+  wav.writeUInt16LE(1, 22);                // mono
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28);   // byte rate
+  wav.writeUInt16LE(2, 32);                // block align
+  wav.writeUInt16LE(16, 34);               // bits per sample
+  wav.write('data', 36, 'ascii');
+  wav.writeUInt32LE(dataSize, 40);
+  return wav;
+};
+
+// =============================================================================
+// Scenarios
+// =============================================================================
+
+const baseAnswer = (fields, text) => ({
+  schema_version: SCHEMA_VERSION,
+  text,
+  navigation: false,
+  reaching_flag: false,
+  reaching_ios: false,
+  loopDelay: 0,
+  session_id: fields.session_id || 'mock-session',
+});
+
+/**
+ * A bbox around the centre of the image the client actually sent
+ */
+const centreBbox = (fields) => {
+  const width = Number(fields.image_width) || DEFAULT_IMAGE_SIZE.width;
+  const height = Number(fields.image_height) || DEFAULT_IMAGE_SIZE.height;
+  return [
+    Math.round(width * 0.35),
+    Math.round(height * 0.3),
+    Math.round(width * 0.65),
+    Math.round(height * 0.7),
+  ];
+};
+
+/**
+ * Build the workflow payload, or null for a scripted failure
+ */
+const answerFor = (scenario, options, fields, state) => {
+  const transcript = String(fields.transcript || '').trim();
+  const sessionId = fields.session_id || 'mock-session';
+
+  switch (scenario) {
+    case 'error':
+      return null;
+
+    case 'flaky': {
+      const key = fields.request_id || 'no-request-id';
+      const failed = state.failures.get(key) || 0;
+      if (failed < options.failures) {
+        state.failures.set(key, failed + 1);
+        return null;
+      }
+      return baseAnswer(fields, transcript ? `Mock answer to: ${transcript}` : 'Mock answer.');
+    }
+
+    case 'navigation':
+    case 'reaching': {
+      // Heartbeat for an unchanged frame: nothing new to say, keep looping
+      if (fields.frame_unchanged === 'true' && state.iterations.get(sessionId)) {
+        return {
+          ...baseAnswer(fields, ''),
+          navigation: scenario === 'navigation',
+          reaching_flag: scenario === 'reaching',
+          loopDelay: options.loopDelay,
+        };
+      }
+
+      const iteration = (state.iterations.get(sessionId) || 0) + 1;
+      const isLast = iteration > options.iterations;
+      state.iterations.set(sessionId, isLast ? 0 : iteration);
+
+      if (isLast) {
+        return baseAnswer(fields, scenario === 'navigation'
+          ? 'You have arrived.'
+          : `Your hand is on the ${options.object}.`);
+      }
+
+      if (scenario === 'navigation') {
+        return {
+          ...baseAnswer(fields, `Step ${iteration}. Walk forward, the aisle continues ahead.`),
+          navigation: true,
+          loopDelay: options.loopDelay,
+        };
+      }
+
+      return {
+        ...baseAnswer(fields, `Step ${iteration}. The ${options.object} is slightly to your right.`),
+        reaching_flag: true,
+        reaching_ios: true,
+        bbox: centreBbox(fields),
+        object: options.object,
+        loopDelay: options.loopDelay,
+      };
+    }
+
+    case 'answer':
+    case 'slow':
+    default:
+      return baseAnswer(fields, transcript ? `Mock answer to: ${transcript}` : 'I see a shelf with cereal boxes.');
+  }
+};
+
+// =============================================================================
+// Server
+// =============================================================================
+
+/**
+ * @param {{ scenario?: string, options?: Partial<typeof DEFAULT_OPTIONS>, quiet?: boolean, requireAuth?: boolean }} config
+ */
+const createMockBackend = (config = {}) => {
+  let scenario = config.scenario || 'answer';
+  let options = { ...DEFAULT_OPTIONS, ...(scenario === 'slow' ? { delayMs: 8000 } : {}), ...config.options };
+  let requests = [];
+  const state = { iterations: new Map(), failures: new Map() };
+  // Issued tokens, kept across reset() so a signed-in app stays signed in
+  const auth = { accessTokens: new Map(), refreshTokens: new Map(), counter: 0 };
+
+  const log = (...args) => {
+    if (!config.quiet) {
+      console.log('[MockBackend]', ...args);
+    }
+  };
+
+  const reset = () => {
+    requests = [];
+    state.iterations.clear();
+    state.failures.clear();
+  };
+
+  const setScenario = (name, scenarioOptions = {}) => {
+    if (!SCENARIOS.includes(name)) {
+      throw new Error(`Unknown scenario "${name}" (expected one of ${SCENARIOS.join(', ')})`);
+    }
+    scenario = name;
+    options = { ...DEFAULT_OPTIONS, ...(name === 'slow' ? { delayMs: 8000 } : {}), ...scenarioOptions };
+    reset();
+    log(`Scenario: ${scenario}`, JSON.stringify(options));
+  };
+
+  const isAuthorized = (req) => {
+    const header = req.headers.authorization;
+    if (!header) {
+      return !config.requireAuth;
+    }
+    const token = header.replace(/^Bearer /, '');
+    return token === API_KEY || auth.accessTokens.has(token);
+  };
+
+  const issueTokens = (userId) => {
+    auth.counter += 1;
+    const accessToken = `mock-access-${auth.counter}`;
+    const refreshToken = `mock-refresh-${auth.counter}`;
+    auth.accessTokens.set(accessToken, userId);
+    auth.refreshTokens.set(refreshToken, userId);
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_in: TOKEN_TTL_SECONDS,
+      user_id: userId,
+    };
+  };
+
+  const handleAuth = (res, path, fields) => {
+    if (path === AUTH_TOKEN_PATH) {
+      const participantId = String(fields.participant_id || '').trim();
+      if (!participantId || !String(fields.enrollment_code || '').trim()) {
+        sendJSON(res, 401, { message: 'Unknown participant or enrollment code' });
+        return;
+      }
+      sendJSON(res, 200, issueTokens(participantId));
+      return;
+    }
+
+    const userId = auth.refreshTokens.get(fields.refresh_token);
+    if (!userId) {
+      sendJSON(res, 401, { message: 'Invalid refresh token' });
+      return;
+    }
+    auth.refreshTokens.delete(fields.refresh_token);
+    sendJSON(res, 200, issueTokens(userId));
+  };
+
+  const handleWorkflow = async (req, res, fields, url) => {
+    if (!isAuthorized(req)) {
+      sendJSON(res, 401, { message: 'Unauthorized' });
+      return;
+    }
+
+    const active = req.headers['x-mock-scenario'] || url.searchParams.get('scenario') || scenario;
+
+    if (options.delayMs > 0) {
+      await sleep(options.delayMs);
+    }
+
+    const payload = answerFor(active, options, fields, state);
+    if (!payload) {
+      sendJSON(res, options.status, { message: `Mock ${active} failure` });
+      return;
+    }
+
+    const wantsStream = fields.stream === 'true' &&
+      String(req.headers.accept || '').includes('text/event-stream') &&
+      options.stream;
+
+    if (wantsStream) {
+      await sendEventStream(res, payload);
+    } else {
+      sendJSON(res, 200, payload);
+    }
+  };
+
+  const handleSpeech = async (req, res, fields) => {
+    if (!isAuthorized(req)) {
+      sendJSON(res, 401, { detail: 'Invalid API key' });
+      return;
+    }
+    if (!fields.input) {
+      sendJSON(res, 422, { detail: 'input is required' });
+      return;
+    }
+
+    if (options.ttsDelayMs > 0) {
+      await sleep(options.ttsDelayMs);
+    }
+
+    const wav = createSilentWav(fields.input, options.sampleRate);
+    if (fields.response_format === 'pcm') {
+      res.writeHead(200, { 'Content-Type': 'audio/pcm' });
+      res.end(wav.subarray(44));
+    } else {
+      res.writeHead(200, { 'Content-Type': 'audio/wav' });
+      res.end(wav);
+    }
+  };
+
+  const handleTranscription = (req, res, fields) => {
+    if (!isAuthorized(req)) {
+      sendJSON(res, 401, { detail: 'Invalid API key' });
+      return;
+    }
+    if (!fields.file) {
+      sendJSON(res, 422, { detail: 'file is required' });
+      return;
+    }
+    sendJSON(res, 200, { text: options.transcript });
+  };
+
+  // Session lifecycle notifications (SessionManager), never the workflow
+  const handleSessionEvent = (req, res, fields) => {
+    if (!isAuthorized(req)) {
+      sendJSON(res, 401, { message: 'Unauthorized' });
+      return;
+    }
+    if (!fields.session_event || !fields.session_id) {
+      sendJSON(res, 422, { message: 'session_event and session_id are required' });
+      return;
+    }
+    sendJSON(res, 200, { ok: true });
+  };
+
+  const handleCapabilities = (req, res) => {
+    if (!isAuthorized(req)) {
+      sendJSON(res, 401, { message: 'Unauthorized' });
+      return;
+    }
+    sendJSON(res, 200, {
+      schema_version: SCHEMA_VERSION,
+      actions: options.actions,
+      limits: {
+        max_image_dimension: 1280,
+        max_image_bytes: 250 * 1024,
+        min_loop_delay_ms: 500,
+        max_images_per_request: options.maxImages,
+      },
+      voices: options.voices,
+      session_events_url: `http://${req.headers.host}${SESSION_EVENTS_PATH}`,
+      features: options.stream ? ['stream', 'frame_unchanged'] : ['frame_unchanged'],
+      tts_model: 'speaches-ai/Kokoro-82M-v1.0-ONNX',
+      stt_model: 'Systran/faster-distil-whisper-small.en',
+    });
+  };
+
+  const handleControl = (req, res, path, fields) => {
+    if (path === '/__mock/health') {
+      sendJSON(res, 200, { ok: true, scenario, options });
+    } else if (path === '/__mock/requests') {
+      sendJSON(res, 200, requests);
+    } else if (path === '/__mock/reset' && req.method === 'POST') {
+      reset();
+      sendJSON(res, 200, { ok: true });
+    } else if (path === '/__mock/revoke' && req.method === 'POST') {
+      auth.accessTokens.clear();
+      sendJSON(res, 200, { ok: true });
+    } else if (path === '/__mock/scenario' && req.method === 'POST') {
+      try {
+        setScenario(fields.name, fields.options);
+        sendJSON(res, 200, { ok: true, scenario, options });
+      } catch (error) {
+        sendJSON(res, 400, { message: error.message });
+      }
+    } else {
+      sendJSON(res, 404, { message: `Unknown control endpoint ${path}` });
+    }
+  };
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const body = await readBody(req);
+      const fields = parseFields(body, req.headers['content-type']);
+
+      if (url.pathname.startsWith('/__mock/')) {
+        handleControl(req, res, url.pathname, fields);
+        return;
+      }
+
+      requests.push({ method: req.method, path: url.pathname, fields, at: Date.now() });
+      log(req.method, url.pathname, fields.transcript !== undefined ? `"${fields.transcript}"` : '');
+
+      if (url.pathname === CAPABILITIES_PATH && req.method === 'GET') {
+        handleCapabilities(req, res);
+      } else if (req.method !== 'POST') {
+        sendJSON(res, 405, { message: 'Method not allowed' });
+      } else if (url.pathname === WORKFLOW_PATH) {
+        await handleWorkflow(req, res, fields, url);
+      } else if (url.pathname === TTS_PATH) {
+        await handleSpeech(req, res, fields);
+      } else if (url.pathname === STT_PATH) {
+        handleTranscription(req, res, fields);
+      } else if (url.pathname === SESSION_EVENTS_PATH) {
+        handleSessionEvent(req, res, fields);
+      } else if (url.pathname === AUTH_TOKEN_PATH || url.pathname === AUTH_REFRESH_PATH) {
+        handleAuth(res, url.pathname, fields);
+      } else {
+        sendJSON(res, 404, { message: `No mock for ${url.pathname}` });
+      }
+    } catch (error) {
+      log('Handler error:', error);
+      if (!res.headersSent) {
+        sendJSON(res, 500, { message: 'Mock server error' });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  return {
+    server,
+    setScenario,
+    reset,
+    getRequests: () => [...requests],
+
+    /**
+     * @returns the bound port (pass 0 for a random free port)
+     */
+    listen: (port = DEFAULT_PORT) => new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, () => {
+        const address = server.address();
+        resolve(typeof address === 'object' && address ? address.port : port);
+      });
+    }),
+
+    close: () => new Promise(resolve => server.close(() => resolve(undefined))),
+  };
+};
+
+// =============================================================================
+// CLI
+// =============================================================================
+
+const parseArgs = (argv) => {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const key = argv[i].replace(/^--/, '');
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = 'true';
+    }
+  }
+  return args;
+};
+
+if (require.main === module) {
+  const args = parseArgs(process.argv.slice(2));
+  const options = {};
+  if (args.iterations) options.iterations = Number(args.iterations);
+  if (args.delay) options.delayMs = Number(args.delay);
+  if (args.status) options.status = Number(args.status);
+  if (args.failures) options.failures = Number(args.failures);
+  if (args.transcript) options.transcript = args.transcript;
+  if (args['no-stream']) options.stream = false;
+  if (args.actions) options.actions = args.actions.split(',').filter(Boolean);
+  if (args['max-images']) options.maxImages = Number(args['max-images']);
+
+  const backend = createMockBackend({ scenario: args.scenario, options, requireAuth: args['require-auth'] === 'true' });
+  const port = Number(args.port || process.env.MOCK_BACKEND_PORT || DEFAULT_PORT);
+
+  backend.setScenario(args.scenario || 'answer', options);
+  backend.listen(port).then(boundPort => {
+    console.log(`[MockBackend] Listening on http://localhost:${boundPort}`);
+    console.log(`[MockBackend] Workflow: ${WORKFLOW_PATH}  Speaches: /speaches/v1`);
+  });
+}
+
+module.exports = {
+  createMockBackend,
+  SCENARIOS,
+  WORKFLOW_PATH,
+  TTS_PATH,
+  STT_PATH,
+  AUTH_TOKEN_PATH,
+  AUTH_REFRESH_PATH,
+  CAPABILITIES_PATH,
+  SESSION_EVENTS_PATH,
+};
@@ -0,0 +1,104 @@
+/**
+ * src/components/GestureSurface.tsx
+ *
+ * Full-screen touch surface: tap plus the mapped gestures (GestureMap)
+ *
+ * Compliance Features:
+ * - 2.1.1 Keyboard: Every gesture action is also a screen reader action
+ *   (the caller passes accessibilityActions / onAccessibilityAction)
+ * - 2.5.1 Pointer Gestures: Multi-finger and path gestures are shortcuts,
+ *   never the only way to reach an action
+ * - No conflict with VoiceOver / TalkBack: with a screen reader on
+ *   (enabled = false) the recognizers are off and touches go to the
+ *   screen reader; activation arrives as the 'activate' action
+ *
+ * Gestures mapped to 'none' get no recognizer, so an unused double tap
+ * does not delay single taps.
+ */
+
+import React, { useMemo } from 'react';
+import { View, ViewProps } from 'react-native';
+import { Directions, Gesture, GestureDetector, GestureType } from 'react-native-gesture-handler';
+import { GESTURE_CONFIG } from '../utils/constants';
+import { GestureMappings, SurfaceGesture } from '../services/GestureMap';
+
+interface GestureSurfaceProps extends ViewProps {
+  enabled: boolean;
+  mappings: GestureMappings;
+  onTap: () => void;
+  onGesture: (gesture: SurfaceGesture) => void;
+}
+
+const SWIPES: Array<[SurfaceGesture, Directions]> = [
+  ['swipeLeft', Directions.LEFT],
+  ['swipeRight', Directions.RIGHT],
+  ['swipeUp', Directions.UP],
+  ['swipeDown', Directions.DOWN],
+];
+
+export const GestureSurface: React.FC<GestureSurfaceProps> = ({
+  enabled,
+  mappings,
+  onTap,
+  onGesture,
+  children,
+  ...viewProps
+}) => {
+  const gesture = useMemo(() => {
+    const mapped = (name: SurfaceGesture) => mappings[name] !== 'none';
+
+    // Callbacks stay on the JS thread (no Reanimated worklets here)
+    const tap = Gesture.Tap()
+      .maxDistance(GESTURE_CONFIG.TAP_MAX_DISTANCE)
+      .runOnJS(true)
+      .onEnd((_event, success) => success && onTap());
+
+    // Earlier taps win: two fingers, then a double tap, then a single tap
+    const taps: GestureType[] = [];
+    if (mapped('twoFingerTap')) {
+      taps.push(Gesture.Tap()
+        .minPointers(2)
+        .maxDistance(GESTURE_CONFIG.TAP_MAX_DISTANCE)
+        .runOnJS(true)
+        .onEnd((_event, success) => success && onGesture('twoFingerTap')));
+    }
+    if (mapped('doubleTap')) {
+      taps.push(Gesture.Tap()
+        .numberOfTaps(2)
+        .maxDelay(GESTURE_CONFIG.DOUBLE_TAP_MAX_DELAY_MS)
+        .maxDistance(GESTURE_CONFIG.TAP_MAX_DISTANCE)
+        .runOnJS(true)
+        .onEnd((_event, success) => success && onGesture('doubleTap')));
+    }
+    taps.push(tap);
+
+    const others: GestureType[] = SWIPES
+      .filter(([name]) => mapped(name))
+      .map(([name, direction]) => Gesture.Fling()
+        .direction(direction)
+        .runOnJS(true)
+        .onEnd((_event, success) => success && onGesture(name)));
+
+    if (mapped('longPress')) {
+      others.push(Gesture.LongPress()
+        .minDuration(GESTURE_CONFIG.LONG_PRESS_MS)
+        .runOnJS(true)
+        .onStart(() => onGesture('longPress')));
+    }
+
+    // Off while a screen reader is on
+    [...others, ...taps].forEach(recognizer => recognizer.enabled(enabled));
+
+    return Gesture.Race(...others, Gesture.Exclusive(...taps));
+  }, [enabled, mappings, onTap, onGesture]);
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <View collapsable={false} {...viewProps}>
+        {children}
+      </View>
+    </GestureDetector>
+  );
+};
+
+export default GestureSurface;
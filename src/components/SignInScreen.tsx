@@ -0,0 +1,212 @@
+/**
+ * src/components/SignInScreen.tsx
+ *
+ * Participant sign-in (participant id + enrollment code), iOS and Android
+ *
+ * Compliance Features:
+ * - 1.3.1 Info and Relationships: Each field has its own label
+ * - 3.3.1 Error Identification: A failed sign-in is shown and announced
+ * - 3.3.2 Labels or Instructions: Says where the code comes from
+ * - 4.1.2 Name, Role, Value: Buttons have roles, labels and busy state
+ *
+ * Opens at launch while the device is not signed in, and on the "sign in"
+ * voice command; AuthService does the rest.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  AccessibilityInfo,
+  ActivityIndicator,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { COLORS } from '../utils/constants';
+
+interface SignInScreenProps {
+  visible: boolean;
+  onSignIn: (participantId: string, enrollmentCode: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const SignInScreen: React.FC<SignInScreenProps> = ({ visible, onSignIn, onClose }) => {
+  const [participantId, setParticipantId] = useState('');
+  const [enrollmentCode, setEnrollmentCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Fresh form every time it opens
+  useEffect(() => {
+    if (visible) {
+      setParticipantId('');
+      setEnrollmentCode('');
+      setError(null);
+      setBusy(false);
+    }
+  }, [visible]);
+
+  const canSubmit = !busy && participantId.trim().length > 0 && enrollmentCode.trim().length > 0;
+
+  const submit = async () => {
+    if (!canSubmit) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await onSignIn(participantId, enrollmentCode);
+      onClose();
+    } catch (signInError: any) {
+      const message = `Sign-in failed. ${signInError?.message || String(signInError)}`;
+      setError(message);
+      AccessibilityInfo.announceForAccessibility(message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.panel} accessibilityViewIsModal>
+          <Text style={styles.title} accessibilityRole="header">Sign in participant</Text>
+          <Text style={styles.hint}>Participant id and enrollment code from the study team</Text>
+
+          <Text style={styles.label} nativeID="participantIdLabel">Participant id</Text>
+          <TextInput
+            style={styles.input}
+            value={participantId}
+            onChangeText={setParticipantId}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            editable={!busy}
+            accessibilityLabel="Participant id"
+            accessibilityLabelledBy="participantIdLabel"
+            returnKeyType="next"
+          />
+
+          <Text style={styles.label} nativeID="enrollmentCodeLabel">Enrollment code</Text>
+          <TextInput
+            style={styles.input}
+            value={enrollmentCode}
+            onChangeText={setEnrollmentCode}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+            editable={!busy}
+            accessibilityLabel="Enrollment code"
+            accessibilityLabelledBy="enrollmentCodeLabel"
+            returnKeyType="done"
+            onSubmitEditing={submit}
+          />
+
+          {error && (
+            <Text style={styles.error} accessibilityLiveRegion="assertive">{error}</Text>
+          )}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={onClose}
+              disabled={busy}
+              accessibilityRole="button"
+              accessibilityLabel="Cancel"
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.primaryButton, !canSubmit && styles.disabledButton]}
+              onPress={submit}
+              disabled={!canSubmit}
+              accessibilityRole="button"
+              accessibilityLabel="Sign in"
+              accessibilityState={{ disabled: !canSubmit, busy }}
+            >
+              {busy
+                ? <ActivityIndicator color={COLORS.WHITE} />
+                : <Text style={styles.buttonText}>Sign in</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+  },
+  panel: {
+    padding: 24,
+    borderRadius: 12,
+    backgroundColor: '#1C1C1E',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: COLORS.WHITE,
+  },
+  hint: {
+    marginTop: 8,
+    fontSize: 16,
+    color: COLORS.WHITE,
+  },
+  label: {
+    marginTop: 20,
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+  input: {
+    marginTop: 8,
+    minHeight: 48,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: COLORS.WHITE,
+    fontSize: 18,
+    color: COLORS.WHITE,
+  },
+  error: {
+    marginTop: 16,
+    fontSize: 16,
+    color: COLORS.CANCEL,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 24,
+  },
+  button: {
+    minWidth: 96,
+    minHeight: 48,
+    marginLeft: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: COLORS.WHITE,
+  },
+  primaryButton: {
+    backgroundColor: COLORS.PRIMARY,
+    borderColor: COLORS.PRIMARY,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+});
+
+export default SignInScreen;
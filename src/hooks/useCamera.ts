@@ -19,6 +19,7 @@ import {
   useCameraPermission 
 } from 'react-native-vision-camera';
 import { AccessibilityService } from '../services/AccessibilityService';
+import { imagePreprocessor } from '../services/ImagePreprocessor';
 
 /**
  * Camera Hook with WCAG-compliant error handling
@@ -121,10 +122,13 @@ export const useCamera = () => {
 
       console.log('[Camera] ✅ Photo captured:', photo.path);
 
+      // Downscale / strip metadata before upload
+      const processed = await imagePreprocessor.preprocess(photo.path, photo.width, photo.height);
+
       // Ensure proper file URI format
-      const photoUri = photo.path.startsWith('file://') 
-        ? photo.path 
-        : `file://${photo.path}`;
+      const photoUri = processed.path.startsWith('file://') 
+        ? processed.path 
+        : `file://${processed.path}`;
 
       return photoUri;
       
@@ -0,0 +1,31 @@
+/**
+ * src/hooks/useInteractionState.ts
+ *
+ * React view of the interaction state machine
+ *
+ * Re-renders on every accepted event (including loop phases) and returns
+ * the snapshot plus the UI flags derived from it, so components never
+ * keep their own copy of "processing" / "speaking".
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  getInteractionFlags,
+  interactionMachine,
+  InteractionFlags,
+  InteractionSnapshot,
+  InteractionStateMachine,
+} from '../services/InteractionStateMachine';
+
+export const useInteractionState = (
+  machine: InteractionStateMachine = interactionMachine
+): InteractionSnapshot & InteractionFlags => {
+  const [snapshot, setSnapshot] = useState<InteractionSnapshot>(machine.getSnapshot());
+
+  useEffect(() => {
+    setSnapshot(machine.getSnapshot());
+    return machine.onTransition(({ to }) => setSnapshot(to));
+  }, [machine]);
+
+  return { ...snapshot, ...getInteractionFlags(snapshot) };
+};
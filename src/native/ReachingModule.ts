@@ -11,6 +11,8 @@
  */
 
 import { NativeModules, NativeEventEmitter, Platform } from 'react-native';
+import { Bbox, ReachingTarget } from '../utils/types';
+import { validateBbox } from '../utils/bbox';
 
 // =============================================================================
 // Types
@@ -25,6 +27,8 @@ export interface ReachingConfig {
   imageWidth: number;
   /** Height of the image that was sent to Qwen */
   imageHeight: number;
+  /** Same box, 0..1 in the camera sensor frame */
+  sensorBbox?: Bbox;
 }
 
 export type ReachingState = 'idle' | 'tracking' | 'locked' | 'reached' | 'lost';
@@ -107,7 +111,8 @@ const AndroidStub: ReachingModuleInterface = {
  * ReachingBridge - Platform-aware interface to native reaching module
  * 
  * iOS: Full ARKit-based reaching with hand detection and audio guidance
- * Android: Stub that returns unavailable (use reaching_flag workflow instead)
+ * Android: Stub that returns unavailable (use reaching_flag workflow instead;
+ *          its loop plays audio cues via ReachingGuidanceEngine)
  */
 export const ReachingBridge: ReachingModuleInterface = Platform.select({
   ios: NativeReachingModule as ReachingModuleInterface,
@@ -162,6 +167,17 @@ export const isIOSReachingAvailable = async (): Promise<boolean> => {
   }
 };
 
+/**
+ * ReachingConfig for a validated target (see resolveReachingTarget)
+ */
+export const reachingConfigFromTarget = (target: ReachingTarget): ReachingConfig => ({
+  objectName: target.object,
+  bbox: target.bbox,
+  imageWidth: target.imageWidth,
+  imageHeight: target.imageHeight,
+  sensorBbox: target.sensorBbox,
+});
+
 /**
  * Safely start reaching mode with error handling
  */
@@ -170,6 +186,13 @@ export const startReachingMode = async (config: ReachingConfig): Promise<boolean
     console.warn('[ReachingModule] Cannot start reaching on non-iOS platform');
     return false;
   }
+
+  // A box outside the image would guide the hand to the wrong place
+  const validation = validateBbox(config.bbox, { width: config.imageWidth, height: config.imageHeight }, 'pixels');
+  if (!validation.valid) {
+    console.warn('[ReachingModule] Invalid bbox:', validation.error);
+    return false;
+  }
   
   try {
     const available = await ReachingBridge.isAvailable();
@@ -209,6 +232,7 @@ export default {
   ReachingBridge,
   ReachingEvents,
   isIOSReachingAvailable,
+  reachingConfigFromTarget,
   startReachingMode,
   stopReachingMode,
 };
\ No newline at end of file
@@ -0,0 +1,293 @@
+/**
+ * src/services/ActionRegistry.ts
+ *
+ * Registry of backend-triggered actions
+ *
+ * determineActionMode used to know exactly four outcomes (reaching_ios,
+ * reaching, navigation, none), and adding one meant editing App.tsx,
+ * useContinuousMode and WorkflowService together. Each action now
+ * declares everything the orchestration needs:
+ *
+ * - detect:        whether a response asks for it (default: response.action === type)
+ * - priority:      lower wins when several match (reaching_ios 10, reaching 20, navigation 30)
+ * - loop:          'continuous' (capture → send → speak → wait → repeat)
+ *                  or 'handover' (a native module takes over, no loop)
+ * - requestFlags:  legacy flags sent with each loop iteration
+ * - capability / platforms: when it is available at all
+ * - earcons, announcements, start (handover), onResponse (each loop
+ *   iteration's answer) and cleanup
+ *
+ * New backend skills (label reading, product comparison, ...) register
+ * here; the loop (ContinuousLoopEngine) and App.tsx only talk to the registry.
+ */
+
+import { Platform } from 'react-native';
+import { WorkflowRequest, WorkflowResponse } from '../utils/types';
+import { resolveReachingTarget } from '../utils/bbox';
+import { stopIOSReaching, triggerIOSReaching } from './CybsGuidanceBridge';
+import { reachingGuidanceEngine } from './ReachingGuidanceEngine';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ActionType = string;
+
+export type ActionEarcon = 'ready' | 'listening' | 'thinking' | 'speaking' | 'error' | 'cancel';
+
+export type ActionLoopPolicy = 'continuous' | 'handover';
+
+export interface ActionAnnouncements {
+  /** Loop started / handover beginning */
+  start?: (response: WorkflowResponse) => string;
+  /** Loop switched to this action from another one */
+  switchTo?: string;
+  /** Backend ended the loop */
+  complete?: string;
+  /** User stopped it */
+  stopped?: string;
+  /** User put the loop on hold / picked it up again */
+  paused?: string;
+  resumed?: string;
+}
+
+export interface ActionResponseContext {
+  /** Answer to a frame_unchanged request (no new image) */
+  heartbeat: boolean;
+}
+
+export interface ActionDefinition {
+  type: ActionType;
+  label: string;                       // Spoken name, e.g. "Object guidance"
+  priority: number;
+  capability?: string;                 // Must be in the handshake's actions
+  platforms?: Array<typeof Platform.OS>;
+  detect: (response: WorkflowResponse) => boolean;
+  loop: ActionLoopPolicy;
+  requestFlags?: Partial<Pick<WorkflowRequest, 'navigation' | 'reaching_flag'>>;
+  earcons?: { start?: ActionEarcon; stop?: ActionEarcon };
+  announcements?: ActionAnnouncements;
+  /** Handover actions: start the native side. false = not available. */
+  start?: (response: WorkflowResponse) => Promise<boolean>;
+  /** Continuous actions: each iteration's answer while this action runs */
+  onResponse?: (response: WorkflowResponse, context: ActionResponseContext) => void | Promise<void>;
+  cleanup?: (reason: string) => void | Promise<void>;
+}
+
+/**
+ * What register() accepts: detect and priority have defaults
+ */
+export type ActionRegistration = Omit<ActionDefinition, 'detect' | 'priority'> & {
+  detect?: ActionDefinition['detect'];
+  priority?: number;
+};
+
+export interface DetectOptions {
+  /** The running loop's action; it wins over higher priorities while it still matches */
+  currentType?: ActionType | null;
+  /** e.g. capability check against the backend handshake */
+  isSupported?: (action: ActionDefinition) => boolean;
+}
+
+const DEFAULT_PRIORITY = 100;
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+class ActionRegistry {
+  private actions: Map<ActionType, ActionDefinition> = new Map();
+
+  /**
+   * Add (or replace) an action
+   *
+   * @returns unregister function
+   */
+  register(registration: ActionRegistration): () => void {
+    const definition: ActionDefinition = {
+      ...registration,
+      priority: registration.priority ?? DEFAULT_PRIORITY,
+      detect: registration.detect || (response => response.action === registration.type),
+    };
+
+    if (this.actions.has(definition.type)) {
+      console.warn(`⚠️ [Actions] Replacing action "${definition.type}"`);
+    }
+    this.actions.set(definition.type, definition);
+    console.log(`🧩 [Actions] Registered ${definition.type} (${definition.loop}, priority ${definition.priority})`);
+
+    return () => {
+      if (this.actions.get(definition.type) === definition) {
+        this.actions.delete(definition.type);
+      }
+    };
+  }
+
+  get(type: ActionType | null | undefined): ActionDefinition | null {
+    return (type && this.actions.get(type)) || null;
+  }
+
+  /**
+   * All actions, highest priority first
+   */
+  list(): ActionDefinition[] {
+    return [...this.actions.values()].sort((a, b) => a.priority - b.priority);
+  }
+
+  /**
+   * The action a response asks for, or null
+   */
+  detect(response: WorkflowResponse, options: DetectOptions = {}): ActionDefinition | null {
+    const available = (action: ActionDefinition) =>
+      (!action.platforms || action.platforms.includes(Platform.OS)) &&
+      (!options.isSupported || options.isSupported(action));
+
+    const matches = (action: ActionDefinition) => {
+      try {
+        return available(action) && action.detect(response);
+      } catch (error) {
+        console.error(`❌ [Actions] ${action.type} detect failed:`, error);
+        return false;
+      }
+    };
+
+    // Stay in the running loop while the backend still asks for it
+    const current = this.get(options.currentType);
+    if (current && current.loop === 'continuous' && matches(current)) {
+      return current;
+    }
+
+    return this.list().find(matches) || null;
+  }
+
+  /**
+   * Request fields for a loop iteration of this action
+   */
+  getRequestFlags(type: ActionType | null): Pick<WorkflowRequest, 'navigation' | 'reaching_flag' | 'action'> {
+    const action = this.get(type);
+    return {
+      navigation: false,
+      reaching_flag: false,
+      ...(action?.requestFlags || {}),
+      ...(action ? { action: action.type } : {}),
+    };
+  }
+
+  /**
+   * Spoken text for a lifecycle moment, with generic defaults
+   */
+  announce(type: ActionType | null, moment: keyof ActionAnnouncements, response?: WorkflowResponse): string {
+    const action = this.get(type);
+    const label = action?.label || 'Task';
+
+    switch (moment) {
+      case 'start':
+        return (response && action?.announcements?.start?.(response)) || `${label} started. Tap to stop.`;
+      case 'switchTo':
+        return action?.announcements?.switchTo || `Switching to ${label.toLowerCase()}.`;
+      case 'complete':
+        return action?.announcements?.complete || 'Task complete.';
+      case 'stopped':
+        return action?.announcements?.stopped || 'Stopped. Tap to speak.';
+      case 'paused':
+        return action?.announcements?.paused || `${label} paused. Long press to resume.`;
+      case 'resumed':
+        return action?.announcements?.resumed || `Resuming ${label.toLowerCase()}.`;
+    }
+  }
+
+  getEarcon(type: ActionType | null, moment: 'start' | 'stop'): ActionEarcon | null {
+    const earcon = this.get(type)?.earcons?.[moment];
+    return earcon || (moment === 'stop' ? 'cancel' : null);
+  }
+
+  /**
+   * Pass a loop iteration's answer to the running action; failures are
+   * logged, never thrown
+   */
+  async handleResponse(
+    type: ActionType | null,
+    response: WorkflowResponse,
+    context: ActionResponseContext
+  ): Promise<void> {
+    const action = this.get(type);
+    if (!action?.onResponse) {
+      return;
+    }
+    try {
+      await action.onResponse(response, context);
+    } catch (error) {
+      console.error(`❌ [Actions] ${action.type} onResponse failed:`, error);
+    }
+  }
+
+  /**
+   * Run an action's cleanup; failures are logged, never thrown
+   */
+  async cleanup(type: ActionType | null, reason: string): Promise<void> {
+    const action = this.get(type);
+    if (!action?.cleanup) {
+      return;
+    }
+    try {
+      await action.cleanup(reason);
+    } catch (error) {
+      console.error(`❌ [Actions] ${action.type} cleanup failed:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const actionRegistry = new ActionRegistry();
+
+// =============================================================================
+// Built-in actions (THREE-FLAG SYSTEM)
+// =============================================================================
+
+actionRegistry.register({
+  type: 'reaching_ios',
+  label: 'AR object guidance',
+  priority: 10,
+  capability: 'reaching_ios',
+  platforms: ['ios'],
+  // An unplaceable bbox falls through to the reaching loop
+  detect: response => response.reaching_ios && !!resolveReachingTarget(response),
+  loop: 'handover',
+  announcements: {
+    start: response => `Guiding you to ${response.object || 'object'}. Follow the audio cues.`,
+  },
+  start: async response => {
+    const target = resolveReachingTarget(response);
+    return target ? triggerIOSReaching(target) : false;
+  },
+  cleanup: () => stopIOSReaching(),
+});
+
+actionRegistry.register({
+  type: 'reaching',
+  label: 'Object guidance',
+  priority: 20,
+  capability: 'reaching_flag',
+  detect: response => response.reaching_flag,
+  loop: 'continuous',
+  requestFlags: { reaching_flag: true },
+  // Audio / haptic cues between the spoken answers (Android has no ARKit module)
+  onResponse: (response, { heartbeat }) => {
+    if (heartbeat && !response.bbox) {
+      reachingGuidanceEngine.keep();
+      return;
+    }
+    return reachingGuidanceEngine.update(resolveReachingTarget(response));
+  },
+  cleanup: reason => reachingGuidanceEngine.stop(reason),
+});
+
+actionRegistry.register({
+  type: 'navigation',
+  label: 'Navigation',
+  priority: 30,
+  capability: 'navigation',
+  detect: response => response.navigation,
+  loop: 'continuous',
+  requestFlags: { navigation: true },
+});
@@ -0,0 +1,346 @@
+/**
+ * src/services/AuthService.ts
+ *
+ * Participant authentication for the workflow and Speaches endpoints
+ *
+ * Per-participant tokens; no shared key ships in release builds:
+ *
+ * - Each study participant signs in once (participant id + enrollment
+ *   code from the study team) against the environment's token service
+ * - Access / refresh tokens are kept in the OS keychain, per environment
+ * - getAuthHeaders() is the single header injector used by every client;
+ *   in debug builds a device that is not signed in sends the
+ *   environment's development key (sharedApiKey) instead
+ * - withAuth() refreshes the token once on 401 and repeats the request
+ * - getUserId() is the participant id sent as user_id (an install id
+ *   until the device is signed in)
+ *
+ * Token service contract ({authUrl} from BACKEND_ENVIRONMENTS, if any):
+ *   POST {authUrl}/token    {participant_id, enrollment_code, device_id}
+ *   POST {authUrl}/refresh  {refresh_token, device_id}
+ *   → {access_token, refresh_token?, expires_in?, user_id?}
+ */
+
+import axios from 'axios';
+import * as Keychain from 'react-native-keychain';
+import { AUTH_CONFIG } from '../utils/constants';
+import { AuthCredentials } from '../utils/types';
+import { readJSON, writeJSON } from '../utils/storage';
+import { environmentService } from './EnvironmentService';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AuthChangeListener = (signedIn: boolean) => void;
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;       // seconds
+  user_id?: string;
+}
+
+interface StoredDevice {
+  installId: string;
+}
+
+interface StoredTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;
+}
+
+const DEVICE_FILE = 'device.json';
+
+const generateInstallId = (): string =>
+  `device-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * 401 from axios, fetch (Response), XHR / stream errors carrying a status
+ */
+const isUnauthorized = (value: any): boolean =>
+  value?.status === 401 || value?.response?.status === 401;
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class AuthService {
+  private installId: string | null = null;
+  // Keyed by environment id; null = looked up, not signed in
+  private credentials: Map<string, AuthCredentials | null> = new Map();
+  private loadPromise: Promise<void> | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private listeners: Set<AuthChangeListener> = new Set();
+
+  /**
+   * Restore the install id and the current environment's credentials.
+   * Safe to call more than once.
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const stored = await readJSON<StoredDevice | null>(DEVICE_FILE, null);
+        if (stored?.installId) {
+          this.installId = stored.installId;
+        } else {
+          this.installId = generateInstallId();
+          await writeJSON(DEVICE_FILE, { installId: this.installId } as StoredDevice).catch(error => {
+            console.warn('⚠️ [Auth] Could not persist install id:', error);
+          });
+        }
+
+        const credentials = await this.getCredentials();
+        console.log(credentials
+          ? `🔑 [Auth] Signed in as ${credentials.userId}`
+          : `🔑 [Auth] Not signed in (device ${this.installId})`);
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Participant id, or the install id when not signed in
+   */
+  getUserId(): string {
+    const credentials = this.credentials.get(environmentService.getEnvironmentId());
+    return credentials?.userId || this.installId || 'mobile-user';
+  }
+
+  /**
+   * Whether the current environment has credentials
+   */
+  async isSignedIn(): Promise<boolean> {
+    return !!(await this.getCredentials());
+  }
+
+  /**
+   * Whether the current environment has a token service to sign in with
+   */
+  canSignIn(): boolean {
+    return !!environmentService.getEnvironment().authUrl;
+  }
+
+  /**
+   * Whether requests carry credentials (participant tokens, or the
+   * development key in debug builds)
+   */
+  async hasAccess(): Promise<boolean> {
+    return !!environmentService.getEnvironment().sharedApiKey || await this.isSignedIn();
+  }
+
+  /**
+   * Exchange a participant id and enrollment code for tokens
+   */
+  async signIn(participantId: string, enrollmentCode: string): Promise<AuthCredentials> {
+    await this.load();
+
+    const { authUrl, label } = environmentService.getEnvironment();
+    if (!authUrl) {
+      throw new Error(`${label} has no participant sign-in yet`);
+    }
+
+    const response = await axios.post<TokenResponse>(
+      `${authUrl}/token`,
+      {
+        participant_id: participantId.trim(),
+        enrollment_code: enrollmentCode.trim(),
+        device_id: this.installId,
+      },
+      { timeout: AUTH_CONFIG.REQUEST_TIMEOUT_MS }
+    );
+
+    const credentials = this.toCredentials(response.data, participantId.trim());
+    await this.saveCredentials(credentials);
+    console.log(`🔑 [Auth] Signed in as ${credentials.userId}`);
+    this.notify(true);
+    return credentials;
+  }
+
+  async signOut(): Promise<void> {
+    await this.saveCredentials(null);
+    console.log('🔑 [Auth] Signed out');
+    this.notify(false);
+  }
+
+  /**
+   * Headers for any request to the workflow or Speaches.
+   * Refreshes the token first if it is about to expire; without
+   * credentials a debug build sends the development key instead.
+   */
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    let credentials = await this.getCredentials();
+
+    if (credentials?.expiresAt && credentials.expiresAt - Date.now() < AUTH_CONFIG.REFRESH_MARGIN_MS) {
+      await this.refresh();
+      credentials = await this.getCredentials();
+    }
+
+    const headers: Record<string, string> = { 'X-User-ID': this.getUserId() };
+    const sharedApiKey = environmentService.getEnvironment().sharedApiKey;
+    if (credentials) {
+      headers.Authorization = `Bearer ${credentials.accessToken}`;
+    } else if (sharedApiKey) {
+      headers.Authorization = `Bearer ${sharedApiKey}`;
+      headers['X-API-Key'] = sharedApiKey;
+    }
+    return headers;
+  }
+
+  /**
+   * Get new tokens with the refresh token. Concurrent callers share one
+   * refresh. A rejected refresh token signs the device out.
+   *
+   * @returns true if a new access token is available
+   */
+  refresh(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.doRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Run a request with auth headers; on 401 refresh once and repeat it
+   *
+   * @param send - Performs the request with the given headers. A 401 may
+   *   be returned (fetch Response) or thrown (axios / XHR error with status).
+   */
+  async withAuth<T>(send: (headers: Record<string, string>) => Promise<T>): Promise<T> {
+    let result: T;
+    try {
+      result = await send(await this.getAuthHeaders());
+    } catch (error) {
+      if (isUnauthorized(error) && await this.refresh()) {
+        console.log('🔑 [Auth] Retrying after token refresh');
+        return send(await this.getAuthHeaders());
+      }
+      throw error;
+    }
+
+    if (isUnauthorized(result) && await this.refresh()) {
+      console.log('🔑 [Auth] Retrying after token refresh');
+      return send(await this.getAuthHeaders());
+    }
+    return result;
+  }
+
+  /**
+   * @returns unsubscribe function
+   */
+  onChange(listener: AuthChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private async doRefresh(): Promise<boolean> {
+    const credentials = await this.getCredentials();
+    const authUrl = environmentService.getEnvironment().authUrl;
+    if (!credentials?.refreshToken || !authUrl) {
+      console.warn('⚠️ [Auth] 401 and no refresh token - device needs to be signed in');
+      return false;
+    }
+
+    try {
+      const response = await axios.post<TokenResponse>(
+        `${authUrl}/refresh`,
+        { refresh_token: credentials.refreshToken, device_id: this.installId },
+        { timeout: AUTH_CONFIG.REQUEST_TIMEOUT_MS }
+      );
+
+      const refreshed = this.toCredentials(response.data, credentials.userId, credentials.refreshToken);
+      await this.saveCredentials(refreshed);
+      console.log('🔑 [Auth] Token refreshed');
+      return true;
+    } catch (error: any) {
+      const status = error?.response?.status;
+      if (status === 400 || status === 401 || status === 403) {
+        console.warn('⚠️ [Auth] Refresh token rejected, signing out');
+        await this.saveCredentials(null);
+        this.notify(false);
+      } else {
+        // Offline etc. - keep the tokens, the next request tries again
+        console.warn('⚠️ [Auth] Token refresh failed:', error?.message || error);
+      }
+      return false;
+    }
+  }
+
+  private toCredentials(data: TokenResponse, fallbackUserId: string, previousRefreshToken?: string): AuthCredentials {
+    if (!data?.access_token) {
+      throw new Error('Token service returned no access_token');
+    }
+    return {
+      userId: data.user_id || fallbackUserId,
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || previousRefreshToken,
+      expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : undefined,
+    };
+  }
+
+  private keychainService(): string {
+    return `${AUTH_CONFIG.KEYCHAIN_SERVICE}.${environmentService.getEnvironmentId()}`;
+  }
+
+  private async getCredentials(): Promise<AuthCredentials | null> {
+    const environmentId = environmentService.getEnvironmentId();
+    if (this.credentials.has(environmentId)) {
+      return this.credentials.get(environmentId) || null;
+    }
+
+    let credentials: AuthCredentials | null = null;
+    try {
+      const stored = await Keychain.getGenericPassword({ service: this.keychainService() });
+      if (stored) {
+        const tokens = JSON.parse(stored.password) as StoredTokens;
+        credentials = { userId: stored.username, ...tokens };
+      }
+    } catch (error) {
+      console.warn('⚠️ [Auth] Could not read keychain:', error);
+    }
+
+    this.credentials.set(environmentId, credentials);
+    return credentials;
+  }
+
+  private async saveCredentials(credentials: AuthCredentials | null): Promise<void> {
+    this.credentials.set(environmentService.getEnvironmentId(), credentials);
+
+    try {
+      if (credentials) {
+        const { userId, ...tokens } = credentials;
+        await Keychain.setGenericPassword(userId, JSON.stringify(tokens as StoredTokens), {
+          service: this.keychainService(),
+          accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+        });
+      } else {
+        await Keychain.resetGenericPassword({ service: this.keychainService() });
+      }
+    } catch (error) {
+      // Still usable for this run
+      console.warn('⚠️ [Auth] Could not update keychain:', error);
+    }
+  }
+
+  private notify(signedIn: boolean): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(signedIn);
+      } catch (error) {
+        console.error('❌ [Auth] Change listener failed:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
@@ -0,0 +1,266 @@
+/**
+ * src/services/BargeInController.ts
+ *
+ * Barge-in: talking over a spoken answer interrupts it
+ *
+ * While an answer plays (interaction state 'speaking'),
+ * RMSVoiceActivityDetector watches the microphone with echo-aware
+ * thresholds (BARGE_IN_CONFIG): only speech clearly louder than our own
+ * playback, lasting MIN_SPEECH_MS, counts. The handler (App.tsx) then
+ * stops playback and hands the utterance to STT.
+ *
+ * Android records the microphone during playback (react-native-audio-record,
+ * VOICE_COMMUNICATION source so the platform echo canceller runs) and
+ * keeps PRE_ROLL_MS of audio, so the whole utterance, beginning included,
+ * is transcribed with Speaches. On iOS that library switches the audio
+ * session to record-only, which would stop playback; there the detector
+ * uses react-native-sound-level and on-device STT starts at the barge-in,
+ * so the first word or two can be cut.
+ */
+
+import { Platform } from 'react-native';
+import AudioRecord from 'react-native-audio-record';
+import RNFS from 'react-native-fs';
+import { Buffer } from 'buffer';
+import { BARGE_IN_CONFIG } from '../utils/constants';
+import { pcm16DurationMs, pcm16LevelDb, pcm16ToWav } from '../utils/pcm';
+import { RMSVoiceActivityDetector } from './RMSVoiceActivityDetector';
+import { speachesSTT } from './speachesSttClient';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type BargeInStatus = 'off' | 'armed' | 'capturing';
+
+/**
+ * @param utterance - Transcript of the whole utterance once it ends
+ *   (Android), or null: start STT now (iOS)
+ */
+export type BargeInHandler = (utterance: Promise<string> | null) => void;
+
+const RECORDING_FILE = 'barge-in-raw.wav';   // The library's own copy, deleted
+const UTTERANCE_FILE = `${RNFS.CachesDirectoryPath}/barge-in.wav`;
+
+// =============================================================================
+// Controller
+// =============================================================================
+
+class BargeInController {
+  private status: BargeInStatus = 'off';
+  private handler: BargeInHandler | null = null;
+  private vad: RMSVoiceActivityDetector | null = null;
+  private recording = false;
+  private preRoll: Uint8Array[] = [];
+  private preRollBytes = 0;
+  private utterance: Uint8Array[] = [];
+  private endUtteranceNow: (() => void) | null = null;
+  private maxTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Register what happens on a barge-in (App.tsx)
+   */
+  setHandler(handler: BargeInHandler): void {
+    this.handler = handler;
+  }
+
+  getStatus(): BargeInStatus {
+    return this.status;
+  }
+
+  isCapturing(): boolean {
+    return this.status === 'capturing';
+  }
+
+  /**
+   * Playback started: listen for the user talking over it
+   */
+  async arm(): Promise<void> {
+    if (!BARGE_IN_CONFIG.ENABLED || !this.handler || this.status !== 'off') {
+      return;
+    }
+
+    this.status = 'armed';
+    const vad = new RMSVoiceActivityDetector({
+      minSpeechMs: BARGE_IN_CONFIG.MIN_SPEECH_MS,
+      echoMarginDb: BARGE_IN_CONFIG.ECHO_MARGIN_DB,
+      echoWindowMs: BARGE_IN_CONFIG.ECHO_WINDOW_MS,
+      echoCalibrationMs: BARGE_IN_CONFIG.ECHO_CALIBRATION_MS,
+      silenceThresholdMs: BARGE_IN_CONFIG.END_SILENCE_MS,
+      levelSource: this.recordsAudio() ? 'external' : 'sound-level',
+    });
+    this.vad = vad;
+
+    try {
+      if (this.recordsAudio()) {
+        this.startRecording();
+      }
+      await vad.start({
+        onSpeechStart: this.handleSpeech,
+        onEndOfUtterance: () => this.endUtteranceNow?.(),
+      });
+      if (this.vad !== vad) {
+        await vad.stop();   // Playback ended while monitoring started
+        return;
+      }
+      console.log('🗣️ [BargeIn] Armed');
+    } catch (error) {
+      console.warn('⚠️ [BargeIn] Could not monitor the microphone:', error);
+      await this.stopAll();
+    }
+  }
+
+  /**
+   * Playback ended without a barge-in. An utterance being captured carries on.
+   */
+  async disarm(): Promise<void> {
+    if (this.status === 'armed') {
+      await this.stopAll();
+    }
+  }
+
+  /**
+   * Drop everything; an utterance being captured resolves to ''
+   */
+  async cancel(): Promise<void> {
+    const endCapture = this.endUtteranceNow;
+    if (this.status === 'capturing' && endCapture) {
+      console.log('🗣️ [BargeIn] Utterance dropped');
+      this.status = 'off';
+      endCapture();   // captureUtterance cleans up
+      return;
+    }
+    if (this.status !== 'off') {
+      await this.stopAll();
+    }
+  }
+
+  /**
+   * End the utterance now (e.g. the user tapped) instead of at the silence
+   */
+  endUtterance(): void {
+    this.endUtteranceNow?.();
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private recordsAudio(): boolean {
+    return Platform.OS === 'android';
+  }
+
+  private handleSpeech = (): void => {
+    const handler = this.handler;
+    if (this.status !== 'armed' || !handler) {
+      return;
+    }
+
+    console.log('🗣️ [BargeIn] Speech over playback');
+    if (!this.recordsAudio()) {
+      // Free the microphone for on-device STT first
+      this.stopAll().then(() => handler(null));
+      return;
+    }
+
+    this.status = 'capturing';
+    handler(this.captureUtterance());
+  };
+
+  private async captureUtterance(): Promise<string> {
+    await new Promise<void>(resolve => {
+      this.endUtteranceNow = resolve;
+      this.maxTimer = setTimeout(resolve, BARGE_IN_CONFIG.MAX_UTTERANCE_MS);
+    });
+
+    const cancelled = this.status !== 'capturing';
+    const chunks = [...this.preRoll, ...this.utterance];
+    await this.stopAll();
+    if (cancelled || chunks.length === 0) {
+      return '';
+    }
+
+    const wav = pcm16ToWav(chunks, BARGE_IN_CONFIG.SAMPLE_RATE);
+    const durationMs = pcm16DurationMs(wav.length - 44, BARGE_IN_CONFIG.SAMPLE_RATE);
+    console.log(`🗣️ [BargeIn] Transcribing ${Math.round(durationMs)}ms`);
+
+    await RNFS.writeFile(UTTERANCE_FILE, Buffer.from(wav).toString('base64'), 'base64');
+    try {
+      return await speachesSTT.transcribeAudioFile(UTTERANCE_FILE);
+    } finally {
+      RNFS.unlink(UTTERANCE_FILE).catch(() => { });
+    }
+  }
+
+  private handleChunk = (base64: string): void => {
+    if (this.status === 'off') {
+      return;
+    }
+
+    const chunk = new Uint8Array(Buffer.from(base64, 'base64'));
+    if (this.status === 'capturing') {
+      this.utterance.push(chunk);
+    } else {
+      // Only the last PRE_ROLL_MS before the speech is confirmed
+      this.preRoll.push(chunk);
+      this.preRollBytes += chunk.length;
+      while (
+        this.preRoll.length > 1 &&
+        pcm16DurationMs(this.preRollBytes - this.preRoll[0].length, BARGE_IN_CONFIG.SAMPLE_RATE) >= BARGE_IN_CONFIG.PRE_ROLL_MS
+      ) {
+        this.preRollBytes -= this.preRoll.shift()!.length;
+      }
+    }
+
+    this.vad?.pushLevel(pcm16LevelDb(chunk));
+  };
+
+  private startRecording(): void {
+    AudioRecord.init({
+      sampleRate: BARGE_IN_CONFIG.SAMPLE_RATE,
+      channels: 1,
+      bitsPerSample: 16,
+      audioSource: BARGE_IN_CONFIG.AUDIO_SOURCE,
+      wavFile: RECORDING_FILE,
+    });
+    AudioRecord.on('data', this.handleChunk);
+    AudioRecord.start();
+    this.recording = true;
+  }
+
+  private async stopAll(): Promise<void> {
+    this.status = 'off';
+    this.endUtteranceNow = null;
+    if (this.maxTimer) {
+      clearTimeout(this.maxTimer);
+      this.maxTimer = null;
+    }
+
+    const vad = this.vad;
+    this.vad = null;
+    try {
+      await vad?.stop();
+    } catch (error) {
+      console.warn('⚠️ [BargeIn] Could not stop monitoring:', error);
+    }
+
+    if (this.recording) {
+      this.recording = false;
+      try {
+        const file = await AudioRecord.stop();
+        if (file) {
+          await RNFS.unlink(file.replace('file://', '')).catch(() => { });
+        }
+      } catch (error) {
+        console.warn('⚠️ [BargeIn] Could not stop recording:', error);
+      }
+    }
+
+    this.preRoll = [];
+    this.preRollBytes = 0;
+    this.utterance = [];
+  }
+}
+
+// Export singleton instance
+export const bargeInController = new BargeInController();
@@ -0,0 +1,124 @@
+/**
+ * src/services/BurstCapture.ts
+ *
+ * Multi-frame burst capture for continuous mode
+ *
+ * Motion blur while walking is the top cause of bad guidance, and one
+ * blurry frame wastes a whole loop iteration. With BURST_CAPTURE_CONFIG
+ * enabled, each iteration takes FRAME_COUNT photos INTERVAL_MS apart and:
+ *
+ * - 'sharpest': uploads only the sharpest frame
+ * - 'all':      uploads every frame as image_0..n with capture timestamps
+ * - 'auto':     'all' if the backend advertises max_images_per_request > 1
+ *
+ * Sharpness is scored by the camera JPEG size. Blur removes high-frequency
+ * detail, so with identical camera settings a blurred frame of the same
+ * scene compresses smaller. No pixel decoding is needed on the JS thread.
+ */
+
+import RNFS from 'react-native-fs';
+import { BURST_CAPTURE_CONFIG } from '../utils/constants';
+import { BurstFrame, CameraPhoto } from '../utils/types';
+import { removeFile } from '../utils/storage';
+import { capabilityService } from './CapabilityService';
+import { sleepWithSignal } from './RetryPolicy';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BurstSelection {
+  primary: BurstFrame;       // Sharpest frame (bbox / image size reference)
+  upload: BurstFrame[];      // Frames to send, oldest first
+  discard: BurstFrame[];     // Not uploaded, safe to delete
+}
+
+/**
+ * @param index - Frame number in the burst (0 = first)
+ */
+export type TakePhoto = (index: number) => Promise<CameraPhoto>;
+
+const fileSize = async (path: string): Promise<number> => {
+  try {
+    const stat = await RNFS.stat(path.replace('file://', ''));
+    return Number(stat.size) || 0;
+  } catch {
+    return 0;
+  }
+};
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class BurstCapture {
+  /**
+   * Take a burst of photos. Frames that fail are skipped; throws only if
+   * none could be captured.
+   */
+  async capture(
+    takePhoto: TakePhoto,
+    frameCount: number = BURST_CAPTURE_CONFIG.FRAME_COUNT,
+    intervalMs: number = BURST_CAPTURE_CONFIG.INTERVAL_MS
+  ): Promise<BurstFrame[]> {
+    const frames: BurstFrame[] = [];
+    let lastError: unknown = null;
+
+    for (let index = 0; index < frameCount; index++) {
+      if (index > 0) {
+        await sleepWithSignal(intervalMs);
+      }
+
+      try {
+        const capturedAt = Date.now();
+        const photo = await takePhoto(index);
+        frames.push({ ...photo, capturedAt, rawBytes: await fileSize(photo.path) });
+      } catch (error) {
+        console.warn(`⚠️ [Burst] Frame ${index + 1}/${frameCount} failed:`, error);
+        lastError = error;
+      }
+    }
+
+    if (frames.length === 0) {
+      throw lastError || new Error('Burst capture produced no frames');
+    }
+
+    console.log(`📸 [Burst] ${frames.length} frames:`, frames.map(frame => `${Math.round(frame.rawBytes / 1024)}KB`).join(' '));
+    return frames;
+  }
+
+  /**
+   * Decide which frames to upload, based on MODE and the backend's
+   * max_images_per_request
+   */
+  select(frames: BurstFrame[]): BurstSelection {
+    const bySharpness = [...frames].sort((a, b) => b.rawBytes - a.rawBytes);
+    const primary = bySharpness[0];
+    const maxImages = capabilityService.getLimits().maxImagesPerRequest;
+
+    let uploadAll = false;
+    if (BURST_CAPTURE_CONFIG.MODE === 'all' || BURST_CAPTURE_CONFIG.MODE === 'auto') {
+      uploadAll = maxImages > 1;
+      if (!uploadAll && BURST_CAPTURE_CONFIG.MODE === 'all') {
+        console.warn('⚠️ [Burst] Backend accepts one image per request, sending the sharpest frame');
+      }
+    }
+
+    const upload = uploadAll
+      ? bySharpness.slice(0, maxImages).sort((a, b) => a.capturedAt - b.capturedAt)
+      : [primary];
+
+    return {
+      primary,
+      upload,
+      discard: frames.filter(frame => !upload.includes(frame)),
+    };
+  }
+
+  async discard(frames: BurstFrame[]): Promise<void> {
+    await Promise.all(frames.map(frame => removeFile(frame.path.replace('file://', ''))));
+  }
+}
+
+// Export singleton instance
+export const burstCapture = new BurstCapture();
@@ -0,0 +1,325 @@
+/**
+ * src/services/CapabilityService.ts
+ *
+ * Backend capability handshake
+ *
+ * The client used to assume the backend understands navigation,
+ * reaching_flag and reaching_ios, and that the Speaches voice and models
+ * in SPEACHES_CONFIG exist. A mismatch only showed up as silent
+ * misbehavior. At launch (and on environment switch) the app now asks:
+ *
+ *   GET {capabilitiesUrl}
+ *   → {schema_version, actions: [...], limits: {max_image_dimension,
+ *      max_image_bytes, min_loop_delay_ms, max_images_per_request},
+ *      voices: [...], features?: [...], session_events_url?,
+ *      tts_model?, stt_model?}
+ *
+ * and adapts to the answer:
+ *
+ * - determineActionMode / parsed responses ignore unsupported actions
+ *   (reported as 'unsupported_action' warnings for the caller to announce)
+ * - Uploads are never larger than the server's limits
+ * - loopDelay is never shorter than the server's minimum
+ * - The TTS voice / models fall back to ones the server has
+ *   (adaptTtsSettings / adaptSttSettings in the Speaches clients)
+ * - Protocol extensions (BackendFeature, e.g. streamed answers) are used
+ *   only if the server lists them under features
+ * - Session events go to session_events_url, and nowhere without one
+ *
+ * The last answer per environment is cached on device. If the handshake
+ * fails and nothing is cached, the old assumptions apply (every action
+ * supported, client-side limits, no protocol extensions).
+ */
+
+import axios from 'axios';
+import {
+  CAPABILITY_CONFIG,
+  IMAGE_PREPROCESS_CONFIG,
+  NAVIGATION_CONFIG,
+  WORKFLOW_SCHEMA_CONFIG,
+} from '../utils/constants';
+import {
+  BackendActionType,
+  BackendCapabilities,
+  BackendFeature,
+  BackendLimits,
+  WorkflowResponse,
+} from '../utils/types';
+import { readJSON, writeJSON } from '../utils/storage';
+import { environmentService } from './EnvironmentService';
+import { authService } from './AuthService';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CapabilityChangeListener = (capabilities: BackendCapabilities) => void;
+
+type StoredCapabilities = Record<string, BackendCapabilities>;
+
+const CAPABILITIES_FILE = 'capabilities.json';
+
+export const ALL_ACTIONS: BackendActionType[] = ['navigation', 'reaching_flag', 'reaching_ios'];
+
+/**
+ * Spoken names, for "... is not supported by this server"
+ */
+export const ACTION_LABELS: Record<BackendActionType, string> = {
+  navigation: 'Navigation',
+  reaching_flag: 'Object guidance',
+  reaching_ios: 'AR object guidance',
+};
+
+const DEFAULT_LIMITS: BackendLimits = {
+  maxImageDimension: IMAGE_PREPROCESS_CONFIG.MAX_DIMENSION,
+  maxImageBytes: IMAGE_PREPROCESS_CONFIG.MAX_BYTES,
+  minLoopDelayMs: NAVIGATION_CONFIG.MIN_LOOP_DELAY_MS,
+  maxImagesPerRequest: 1,
+};
+
+const assumedCapabilities = (): BackendCapabilities => ({
+  schemaVersion: WORKFLOW_SCHEMA_CONFIG.VERSION,
+  actions: [...ALL_ACTIONS],
+  limits: { ...DEFAULT_LIMITS },
+  voices: [],
+  features: [],
+  source: 'assumed',
+  fetchedAt: 0,
+});
+
+const positiveNumber = (value: unknown, fallback: number): number => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : fallback;
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.length > 0) : [];
+
+/**
+ * Lenient parse of the handshake payload. Missing fields keep the old
+ * assumptions; a missing actions list means "everything".
+ */
+export const parseCapabilities = (data: any): BackendCapabilities => {
+  const assumed = assumedCapabilities();
+  const limits = data?.limits || {};
+
+  return {
+    schemaVersion: positiveNumber(data?.schema_version, assumed.schemaVersion),
+    actions: Array.isArray(data?.actions) ? stringList(data.actions) : assumed.actions,
+    limits: {
+      maxImageDimension: positiveNumber(limits.max_image_dimension, DEFAULT_LIMITS.maxImageDimension),
+      maxImageBytes: positiveNumber(limits.max_image_bytes, DEFAULT_LIMITS.maxImageBytes),
+      minLoopDelayMs: positiveNumber(limits.min_loop_delay_ms, DEFAULT_LIMITS.minLoopDelayMs),
+      maxImagesPerRequest: Math.floor(
+        positiveNumber(limits.max_images_per_request, DEFAULT_LIMITS.maxImagesPerRequest)
+      ),
+    },
+    voices: stringList(data?.voices),
+    features: stringList(data?.features),
+    sessionEventsUrl: typeof data?.session_events_url === 'string' && data.session_events_url
+      ? data.session_events_url
+      : undefined,
+    ttsModel: typeof data?.tts_model === 'string' ? data.tts_model : undefined,
+    sttModel: typeof data?.stt_model === 'string' ? data.stt_model : undefined,
+    source: 'backend',
+    fetchedAt: Date.now(),
+  };
+};
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class CapabilityService {
+  private capabilities: BackendCapabilities = assumedCapabilities();
+  private cache: StoredCapabilities | null = null;
+  private negotiatePromise: Promise<BackendCapabilities> | null = null;
+  private listeners: Set<CapabilityChangeListener> = new Set();
+
+  /**
+   * Ask the current environment what it supports. Concurrent callers
+   * share one request; call again after switching environment.
+   */
+  negotiate(): Promise<BackendCapabilities> {
+    if (!this.negotiatePromise) {
+      this.negotiatePromise = this.doNegotiate().finally(() => {
+        this.negotiatePromise = null;
+      });
+    }
+    return this.negotiatePromise;
+  }
+
+  get(): BackendCapabilities {
+    return this.capabilities;
+  }
+
+  /**
+   * The capabilities once a handshake in flight has finished
+   */
+  ready(): Promise<BackendCapabilities> {
+    return this.negotiatePromise || Promise.resolve(this.capabilities);
+  }
+
+  /**
+   * @param action - BackendActionType or a registered skill's capability
+   */
+  supportsAction(action: string): boolean {
+    return this.capabilities.actions.includes(action);
+  }
+
+  /**
+   * Whether the backend opted into a protocol extension. Never assumed:
+   * false until a handshake (or its cached answer) lists it.
+   */
+  supportsFeature(feature: BackendFeature): boolean {
+    return (this.capabilities.features || []).includes(feature);
+  }
+
+  /**
+   * Actions the current backend does not offer
+   */
+  getUnsupportedActions(): BackendActionType[] {
+    return ALL_ACTIONS.filter(action => !this.supportsAction(action));
+  }
+
+  /**
+   * Upload / loop limits: the stricter of client config and server
+   */
+  getLimits(): BackendLimits {
+    const { limits } = this.capabilities;
+    return {
+      maxImageDimension: Math.min(DEFAULT_LIMITS.maxImageDimension, limits.maxImageDimension),
+      maxImageBytes: Math.min(DEFAULT_LIMITS.maxImageBytes, limits.maxImageBytes),
+      minLoopDelayMs: Math.max(DEFAULT_LIMITS.minLoopDelayMs, limits.minLoopDelayMs),
+      maxImagesPerRequest: limits.maxImagesPerRequest || DEFAULT_LIMITS.maxImagesPerRequest,
+    };
+  }
+
+  clampLoopDelay(delayMs: number): number {
+    return Math.max(this.getLimits().minLoopDelayMs, delayMs);
+  }
+
+  /**
+   * TTS settings with a voice and model the server has. The configured
+   * voice is kept if the server lists it (or lists none).
+   */
+  adaptTtsSettings<T extends { model: string; voice: string }>(settings: T): T {
+    const { voices, ttsModel } = this.capabilities;
+    const voice = voices.length === 0 || voices.includes(settings.voice) ? settings.voice : voices[0];
+    return { ...settings, voice, model: ttsModel || settings.model };
+  }
+
+  adaptSttSettings<T extends { model: string }>(settings: T): T {
+    return { ...settings, model: this.capabilities.sttModel || settings.model };
+  }
+
+  /**
+   * Clear action flags the backend did not declare, and enforce the
+   * minimum loop delay. Each dropped flag is added to the diagnostics as
+   * an 'unsupported_action' warning so the caller can announce it.
+   *
+   * @returns the dropped actions
+   */
+  adaptResponse(response: WorkflowResponse): BackendActionType[] {
+    const dropped = ALL_ACTIONS.filter(action => response[action] === true && !this.supportsAction(action));
+
+    dropped.forEach(action => {
+      response[action] = false;
+      response.diagnostics?.warnings.push({
+        severity: 'warning',
+        code: 'unsupported_action',
+        field: action,
+        message: `${action} is not supported by this backend, ignored`,
+      });
+    });
+
+    response.loopDelay = this.clampLoopDelay(response.loopDelay);
+    return dropped;
+  }
+
+  /**
+   * @returns unsubscribe function
+   */
+  onChange(listener: CapabilityChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private async doNegotiate(): Promise<BackendCapabilities> {
+    const environment = environmentService.getEnvironment();
+
+    if (!CAPABILITY_CONFIG.ENABLED) {
+      return this.apply(assumedCapabilities());
+    }
+
+    try {
+      const response = await authService.withAuth(headers =>
+        axios.get(environment.capabilitiesUrl, { headers, timeout: CAPABILITY_CONFIG.REQUEST_TIMEOUT_MS })
+      );
+      const capabilities = parseCapabilities(response.data);
+
+      if (capabilities.schemaVersion !== WORKFLOW_SCHEMA_CONFIG.VERSION) {
+        console.warn(
+          `⚠️ [Capabilities] Backend speaks schema v${capabilities.schemaVersion}, ` +
+          `client v${WORKFLOW_SCHEMA_CONFIG.VERSION}`
+        );
+      }
+
+      await this.saveToCache(environment.id, capabilities);
+      return this.apply(capabilities);
+    } catch (error: any) {
+      console.warn('⚠️ [Capabilities] Handshake failed:', error?.message || error);
+
+      const cached = (await this.loadCache())[environment.id];
+      return this.apply(cached ? { ...cached, source: 'cached' } : assumedCapabilities());
+    }
+  }
+
+  private apply(capabilities: BackendCapabilities): BackendCapabilities {
+    this.capabilities = capabilities;
+
+    console.log(`🤝 [Capabilities] ${capabilities.source}:`, {
+      schema: capabilities.schemaVersion,
+      actions: capabilities.actions,
+      limits: capabilities.limits,
+      voices: capabilities.voices.length,
+    });
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(capabilities);
+      } catch (error) {
+        console.error('❌ [Capabilities] Change listener failed:', error);
+      }
+    });
+
+    return capabilities;
+  }
+
+  private async loadCache(): Promise<StoredCapabilities> {
+    if (!this.cache) {
+      this.cache = await readJSON<StoredCapabilities>(CAPABILITIES_FILE, {});
+    }
+    return this.cache;
+  }
+
+  private async saveToCache(environmentId: string, capabilities: BackendCapabilities): Promise<void> {
+    const cache = await this.loadCache();
+    cache[environmentId] = capabilities;
+
+    try {
+      await writeJSON(CAPABILITIES_FILE, cache);
+    } catch (error) {
+      console.warn('⚠️ [Capabilities] Could not persist capabilities:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const capabilityService = new CapabilityService();
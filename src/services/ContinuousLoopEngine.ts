@@ -0,0 +1,617 @@
+/**
+ * src/services/ContinuousLoopEngine.ts
+ *
+ * The continuous loop (capture → send → speak → wait → repeat), outside React
+ *
+ * App.tsx (runContinuousLoop) and useContinuousMode each ran their own
+ * copy of the loop with their own abort ref and cleanup, and they had
+ * drifted apart: only App's loop had adaptive timing, unchanged-frame
+ * skipping and retries. Both now drive this engine:
+ *
+ *   start(mode, driver)   runs until the backend ends the action, a handover
+ *                         action takes over, a fatal error or stop(reason);
+ *                         resolves with a LoopResult saying which
+ *   pause() / resume()    hold the loop between iterations with the same
+ *                         session and mode (e.g. while talking to staff);
+ *                         a pause longer than MAX_PAUSE_MS ends the loop
+ *   stop(reason)          aborts the request and speech, ends the loop
+ *
+ * The caller supplies what needs a camera or a speaker (LoopDriver).
+ * subscribe() sees the status, addHooks() sees every phase, response and
+ * iteration. The engine keeps WorkflowService's continuous-mode state,
+ * the action registry, LoopDelayController and FrameChangeDetector in
+ * step; the interaction state machine is the caller's business.
+ */
+
+import { FRAME_CHANGE_CONFIG, NAVIGATION_CONFIG } from '../utils/constants';
+import { WorkflowRequest, WorkflowResponse } from '../utils/types';
+import { AccessibilityService } from './AccessibilityService';
+import { actionRegistry, ActionDefinition, ActionType } from './ActionRegistry';
+import { capabilityService } from './CapabilityService';
+import { conversationLog } from './ConversationLog';
+import { frameChangeDetector } from './FrameChangeDetector';
+import { LoopPhase } from './InteractionStateMachine';
+import { latencyTracer } from './LatencyTracer';
+import { loopDelayController } from './LoopDelayController';
+import { sessionManager } from './SessionManager';
+import { isCancelledError, isWorkflowError } from './WorkflowErrors';
+import {
+  ActionMode,
+  determineActionMode,
+  incrementContinuousMode,
+  sendToWorkflow,
+  shouldPreventInfiniteLoop,
+  startContinuousMode,
+  stopContinuousMode,
+  updateLoopDelay,
+} from './WorkflowService';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LoopStatus = 'idle' | 'running' | 'paused';
+
+export interface LoopSnapshot {
+  status: LoopStatus;
+  mode: ActionType | null;
+  phase: LoopPhase | null;
+  iteration: number;                   // Of this loop, across mode switches
+  pausedAt: number | null;
+}
+
+export type LoopOutcome =
+  | 'done'                             // Backend ended the action (session kept)
+  | 'handover'                         // A handover action takes over (see LoopResult.handover)
+  | 'stopped'                          // stop(reason)
+  | 'limit'                            // shouldPreventInfiniteLoop
+  | 'error'
+  | 'disabled';                        // NAVIGATION_CONFIG.ENABLE_NAVIGATION_LOOP
+
+export interface LoopResult {
+  outcome: LoopOutcome;
+  mode: ActionType | null;             // Last mode
+  reason: string;
+  error?: string;
+  handover?: { action: ActionDefinition; response: WorkflowResponse };
+}
+
+/**
+ * What the engine cannot do itself
+ */
+export interface LoopDriver {
+  /** Photo for an iteration; '' continues voice-only */
+  capture: () => Promise<string>;
+  /** Extra request fields for the photo (image size, burst frames) */
+  describePhoto?: (photoPath: string, heartbeat: boolean) => Partial<WorkflowRequest>;
+  speak: (text: string) => Promise<void>;
+  /** Cut speech short on pause / stop */
+  stopSpeaking?: () => Promise<void>;
+  /** Look at a response before it is acted on (e.g. announce diagnostics) */
+  inspect?: (response: WorkflowResponse) => void;
+}
+
+export interface LoopIteration {
+  index: number;
+  mode: ActionType;
+  photoPath: string;
+  heartbeat: boolean;
+  response: WorkflowResponse;
+  action: ActionMode;
+}
+
+export interface LoopHooks {
+  onPhase?: (phase: LoopPhase, snapshot: LoopSnapshot) => void;
+  /** Backend moved on to another continuous action */
+  onModeChange?: (from: ActionType, to: ActionType) => void;
+  /** Before the answer is spoken */
+  onResponse?: (iteration: LoopIteration) => void;
+  onIterationEnd?: (iteration: LoopIteration) => void;
+  onEnd?: (result: LoopResult) => void;
+}
+
+type SnapshotListener = (snapshot: LoopSnapshot) => void;
+
+const IDLE: LoopSnapshot = { status: 'idle', mode: null, phase: null, iteration: 0, pausedAt: null };
+
+// =============================================================================
+// Engine
+// =============================================================================
+
+class ContinuousLoopEngine {
+  private snapshot: LoopSnapshot = IDLE;
+  private loopId = 0;
+  private driver: LoopDriver | null = null;
+  private abortController: AbortController | null = null;
+  private settle: ((result: LoopResult) => void) | null = null;
+  private wake: (() => void) | null = null;
+  private sleepTimer: ReturnType<typeof setTimeout> | null = null;
+  private pauseTimer: ReturnType<typeof setTimeout> | null = null;
+  private hooks: Set<LoopHooks> = new Set();
+  private listeners: Set<SnapshotListener> = new Set();
+
+  getSnapshot(): LoopSnapshot {
+    return this.snapshot;
+  }
+
+  isRunning(): boolean {
+    return this.snapshot.status !== 'idle';
+  }
+
+  isPaused(): boolean {
+    return this.snapshot.status === 'paused';
+  }
+
+  /**
+   * Run a loop for mode (a running one is stopped first)
+   *
+   * @returns Resolves when the loop ends, however it ends
+   */
+  start(mode: ActionType, driver: LoopDriver, loopDelay?: number): Promise<LoopResult> {
+    if (!NAVIGATION_CONFIG.ENABLE_NAVIGATION_LOOP) {
+      console.log('🔄 [ContinuousLoop] Disabled in config');
+      return Promise.resolve({ outcome: 'disabled', mode, reason: 'disabled in config' });
+    }
+
+    if (this.isRunning()) {
+      this.stop(`restarted for ${mode}`);
+    }
+
+    const id = ++this.loopId;
+    this.driver = driver;
+
+    // Fresh counters, not the ones of the request that started the loop
+    stopContinuousMode('resetting for new loop');
+    startContinuousMode(mode, loopDelay);
+    frameChangeDetector.reset();
+    loopDelayController.start();
+
+    console.log(`🔄 [ContinuousLoop] Starting ${mode} loop`);
+    this.update({ status: 'running', mode, phase: null, iteration: 0, pausedAt: null });
+    AccessibilityService.announce(actionRegistry.announce(mode, 'start'));
+
+    const ended = new Promise<LoopResult>(resolve => {
+      this.settle = resolve;
+    });
+    this.run(id, driver);
+    return ended;
+  }
+
+  /**
+   * Hold the loop; the request in flight and speech are cut short
+   *
+   * @returns false if no loop is running
+   */
+  pause(): boolean {
+    if (this.snapshot.status !== 'running') {
+      return false;
+    }
+    console.log(`⏸️ [ContinuousLoop] Paused ${this.snapshot.mode}`);
+
+    this.abortRequest();
+    this.stopSpeaking();
+    this.update({ status: 'paused', pausedAt: Date.now() });
+    this.setPhase('paused');
+    this.interruptWait();
+
+    const id = this.loopId;
+    this.pauseTimer = setTimeout(() => {
+      this.pauseTimer = null;
+      if (id === this.loopId && this.isPaused()) {
+        AccessibilityService.announce(actionRegistry.announce(this.snapshot.mode, 'stopped'));
+        this.finish(id, { outcome: 'stopped', mode: this.snapshot.mode, reason: 'pause timeout' });
+      }
+    }, NAVIGATION_CONFIG.MAX_PAUSE_MS);
+    return true;
+  }
+
+  /**
+   * Continue a paused loop with the same session and mode
+   *
+   * @returns false if the loop is not paused
+   */
+  resume(): boolean {
+    if (!this.isPaused()) {
+      return false;
+    }
+    const pausedMs = Date.now() - (this.snapshot.pausedAt || Date.now());
+    console.log(`▶️ [ContinuousLoop] Resuming ${this.snapshot.mode} after ${pausedMs}ms`);
+
+    this.clearPauseTimer();
+    // The scene and the network have moved on: upload the next frame, re-measure
+    frameChangeDetector.reset();
+    loopDelayController.start();
+    this.update({ status: 'running', pausedAt: null });
+    this.interruptWait();
+    return true;
+  }
+
+  /**
+   * End the loop (user tap, new interaction)
+   */
+  stop(reason: string): void {
+    if (!this.isRunning()) {
+      return;
+    }
+    this.stopSpeaking();
+    this.finish(this.loopId, { outcome: 'stopped', mode: this.snapshot.mode, reason });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Extension points
+  // ---------------------------------------------------------------------------
+
+  /**
+   * @returns remove function
+   */
+  addHooks(hooks: LoopHooks): () => void {
+    this.hooks.add(hooks);
+    return () => {
+      this.hooks.delete(hooks);
+    };
+  }
+
+  /**
+   * Every status, mode, phase or iteration change
+   *
+   * @returns remove function
+   */
+  subscribe(listener: SnapshotListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ===========================================================================
+  // Loop
+  // ===========================================================================
+
+  private async run(id: number, driver: LoopDriver): Promise<void> {
+    let consecutiveErrors = 0;
+
+    while (this.isLive(id)) {
+      if (this.isPaused()) {
+        await this.waitForWake();
+        continue;
+      }
+
+      // Wait for delay (adaptive: round trip, speech and scene change of the last iteration)
+      this.setPhase('waiting');
+      const delay = loopDelayController.nextDelay();
+      console.log(`🔄 [ContinuousLoop] Waiting ${delay}ms before next iteration`);
+      await this.sleep(delay);
+
+      if (!this.isActive(id)) {
+        continue;   // Paused or stopped while waiting
+      }
+
+      // Safety check
+      if (shouldPreventInfiniteLoop()) {
+        console.log('🔄 [ContinuousLoop] Stopping due to safety limits');
+        AccessibilityService.announce('Stopped due to time limit.');
+        this.finish(id, { outcome: 'limit', mode: this.snapshot.mode, reason: 'safety limits' });
+        return;
+      }
+
+      try {
+        const result = await this.iterate(id, driver, delay);
+        if (result) {
+          this.finish(id, result);
+          return;
+        }
+        consecutiveErrors = 0;
+      } catch (error: any) {
+        this.abortController = null;
+
+        if (isCancelledError(error)) {
+          latencyTracer.endTrace('cancelled');
+          if (this.isActive(id)) {
+            this.finish(id, { outcome: 'stopped', mode: this.snapshot.mode, reason: 'request cancelled' });
+          }
+          continue;   // Paused mid-request: the loop holds
+        }
+
+        console.error('🔄 [ContinuousLoop] Error in iteration:', error);
+        latencyTracer.endTrace('error', { kind: isWorkflowError(error) ? error.kind : 'unknown' });
+        if (!this.isActive(id)) {
+          continue;
+        }
+
+        // Transient failures skip this frame; the next iteration captures a fresh one
+        consecutiveErrors++;
+        if (isWorkflowError(error) && error.retryable && consecutiveErrors < NAVIGATION_CONFIG.MAX_CONSECUTIVE_ERRORS) {
+          console.log(`🔄 [ContinuousLoop] ${error.kind} error, continuing (${consecutiveErrors}/${NAVIGATION_CONFIG.MAX_CONSECUTIVE_ERRORS})`);
+          AccessibilityService.announce('Connection problem. Retrying.');
+          continue;
+        }
+
+        const message = isWorkflowError(error) ? error.userMessage : String(error.message || error);
+        AccessibilityService.announce(`Error: ${message}`);
+        this.finish(id, { outcome: 'error', mode: this.snapshot.mode, reason: 'error', error: message });
+        return;
+      }
+    }
+  }
+
+  /**
+   * One capture → send → speak round
+   *
+   * @returns How the loop ends, or null to keep going
+   */
+  private async iterate(id: number, driver: LoopDriver, delay: number): Promise<LoopResult | null> {
+    const mode = this.snapshot.mode as ActionType;
+    const index = this.snapshot.iteration + 1;
+
+    incrementContinuousMode();
+    loopDelayController.beginIteration();
+    this.update({ iteration: index });
+
+    const timing = loopDelayController.getTiming();
+    latencyTracer.startTrace(mode === 'reaching' ? 'reaching' : 'navigation', {
+      loopDelay: delay,
+      ...(timing ? { loopTarget: timing.targetMs, loopWaitReason: timing.reason } : {}),
+    });
+
+    // Capture photo
+    console.log('🔄 [ContinuousLoop] Capturing photo...');
+    this.setPhase('capturing');
+    const photoPath = await driver.capture();
+    if (!photoPath) {
+      console.warn('🔄 [ContinuousLoop] Failed to capture photo, continuing with voice-only');
+    }
+
+    if (!this.isActive(id)) {
+      latencyTracer.endTrace('cancelled');
+      return null;
+    }
+
+    // Unchanged scene → no upload (skip, or heartbeat without image)
+    const frameChange = await frameChangeDetector.check(photoPath, mode);
+    const heartbeat = !frameChange.changed;
+    loopDelayController.recordSceneChange(frameChange.changed);
+
+    const sendsHeartbeats = FRAME_CHANGE_CONFIG.UNCHANGED_ACTION === 'heartbeat' &&
+      capabilityService.supportsFeature('frame_unchanged');
+    if (heartbeat && !sendsHeartbeats) {
+      console.log('🔄 [ContinuousLoop] Scene unchanged, skipping upload');
+      latencyTracer.endTrace('ok', { unchanged: true, skipped: true });
+      return null;
+    }
+
+    // Send request with CURRENT mode flags
+    console.log(`🔄 [ContinuousLoop] Sending ${heartbeat ? 'heartbeat' : 'frame'} to backend...`);
+    this.setPhase('processing');
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    loopDelayController.markRequestSent();
+    const response = await sendToWorkflow(
+      {
+        text: '',
+        imageUri: heartbeat ? '' : photoPath,
+        ...(heartbeat ? { frame_unchanged: true } : {}),
+        ...driver.describePhoto?.(photoPath, heartbeat),
+        ...actionRegistry.getRequestFlags(mode),
+      },
+      abortController.signal,
+      { shouldAbort: () => !this.isActive(id) }
+    );
+    this.abortController = null;
+
+    loopDelayController.markResponse(!heartbeat);
+    if (!heartbeat) {
+      frameChangeDetector.markUploaded(frameChange, mode);
+    }
+
+    if (!this.isActive(id)) {
+      console.log('🔄 [ContinuousLoop] Response discarded (paused or stopped)');
+      latencyTracer.endTrace('cancelled');
+      return null;
+    }
+
+    driver.inspect?.(response);
+
+    console.log('🔄 [ContinuousLoop] Backend response:', {
+      text: response.text.substring(0, 50),
+      navigation: response.navigation,
+      reaching_flag: response.reaching_flag,
+      reaching_ios: response.reaching_ios,
+      action: response.action,
+      bbox: response.bbox,
+      object: response.object,
+      loopDelay: response.loopDelay,
+    });
+
+    const action = determineActionMode(response, mode);
+    if (response.loopDelay) {
+      updateLoopDelay(response.loopDelay);
+    }
+
+    // Handover actions (iOS ARKit) take over once the answer is spoken
+    if (action.action?.loop === 'handover') {
+      await this.speak(id, driver, response.text, response);
+      if (!this.isActive(id)) {
+        latencyTracer.endTrace('cancelled');
+        return null;
+      }
+      latencyTracer.endTrace('ok', { handover: action.type });
+      return {
+        outcome: 'handover',
+        mode,
+        reason: `${action.type} takeover`,
+        handover: { action: action.action, response },
+      };
+    }
+
+    console.log('🔄 [ContinuousLoop] Action:', action.type);
+
+    // No action left → done; the session carries on, so "repeat that"
+    // and the recap still find the loop's last answer
+    if (!action.action) {
+      await this.speak(id, driver, response.text, response);
+      AccessibilityService.announce(actionRegistry.announce(mode, 'complete'));
+      latencyTracer.endTrace('ok', { final: true });
+      return { outcome: 'done', mode, reason: 'no action' };
+    }
+
+    // Backend moved on to another continuous action
+    if (action.type !== mode) {
+      console.log(`🔄 [ContinuousLoop] Switching ${mode} → ${action.type}`);
+      actionRegistry.cleanup(mode, `switched to ${action.type}`);
+      startContinuousMode(action.type, action.loopDelay);
+      this.update({ mode: action.type });
+      this.runHooks(hooks => hooks.onModeChange?.(mode, action.type as ActionType));
+      AccessibilityService.announce(actionRegistry.announce(action.type, 'switchTo'));
+    }
+
+    const iteration: LoopIteration = {
+      index,
+      mode: action.type as ActionType,
+      photoPath,
+      heartbeat,
+      response,
+      action,
+    };
+
+    // Action-specific feedback (e.g. reaching audio cues), runs during speech
+    actionRegistry.handleResponse(action.type, response, { heartbeat });
+    this.runHooks(hooks => hooks.onResponse?.(iteration));
+
+    await this.speak(id, driver, response.text, response);
+
+    // The pause after speech is part of the next adaptive wait
+    loopDelayController.markSpeechEnd();
+    latencyTracer.endTrace('ok');
+    this.runHooks(hooks => hooks.onIterationEnd?.(iteration));
+    return null;
+  }
+
+  /**
+   * @param response - Logged as the loop's latest answer once it is spoken
+   */
+  private async speak(id: number, driver: LoopDriver, text: string, response?: WorkflowResponse): Promise<void> {
+    if (!text || !this.isActive(id)) {
+      return;
+    }
+    console.log('🔄 [ContinuousLoop] Speaking response...');
+    this.setPhase('speaking');
+    if (response) {
+      conversationLog.addAssistantTurn(sessionManager.getSessionId(), response, undefined, true);
+    }
+    await driver.speak(text);
+  }
+
+  /**
+   * Tear down a loop; later calls for the same loop are ignored
+   */
+  private finish(id: number, result: LoopResult): void {
+    if (id !== this.loopId || !this.isRunning()) {
+      return;
+    }
+    console.log(`🔄 [ContinuousLoop] ${result.mode} loop ended: ${result.outcome} (${result.reason})`);
+
+    this.abortRequest();
+    this.clearPauseTimer();
+    latencyTracer.endTrace('cancelled');   // No-op unless an iteration was cut short
+    frameChangeDetector.reset();
+    stopContinuousMode(result.reason);
+    actionRegistry.cleanup(result.mode, result.reason);
+
+    this.driver = null;
+    this.update(IDLE);
+    this.interruptWait();
+
+    const settle = this.settle;
+    this.settle = null;
+    this.runHooks(hooks => hooks.onEnd?.(result));
+    settle?.(result);
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  /** This loop has not ended (it may be paused) */
+  private isLive(id: number): boolean {
+    return id === this.loopId && this.isRunning();
+  }
+
+  /** This loop is running and not paused */
+  private isActive(id: number): boolean {
+    return id === this.loopId && this.snapshot.status === 'running';
+  }
+
+  private setPhase(phase: LoopPhase): void {
+    this.update({ phase });
+    this.runHooks(hooks => hooks.onPhase?.(phase, this.snapshot));
+  }
+
+  private update(changes: Partial<LoopSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    const snapshot = this.snapshot;
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error('❌ [ContinuousLoop] Listener failed:', error);
+      }
+    });
+  }
+
+  private runHooks(call: (hooks: LoopHooks) => void): void {
+    this.hooks.forEach(hooks => {
+      try {
+        call(hooks);
+      } catch (error) {
+        // A failing hook must not end the loop
+        console.error('❌ [ContinuousLoop] Hook failed:', error);
+      }
+    });
+  }
+
+  private abortRequest(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+  }
+
+  private stopSpeaking(): void {
+    this.driver?.stopSpeaking?.().catch(error => {
+      console.warn('⚠️ [ContinuousLoop] Could not stop speech:', error);
+    });
+  }
+
+  /** Wait that pause() / resume() / stop() cut short */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wake = resolve;
+      this.sleepTimer = setTimeout(() => this.interruptWait(), ms);
+    });
+  }
+
+  private waitForWake(): Promise<void> {
+    return new Promise(resolve => {
+      this.wake = resolve;
+    });
+  }
+
+  private interruptWait(): void {
+    if (this.sleepTimer) {
+      clearTimeout(this.sleepTimer);
+      this.sleepTimer = null;
+    }
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+
+  private clearPauseTimer(): void {
+    if (this.pauseTimer) {
+      clearTimeout(this.pauseTimer);
+      this.pauseTimer = null;
+    }
+  }
+}
+
+// Export singleton instance
+export const continuousLoopEngine = new ContinuousLoopEngine();
@@ -0,0 +1,244 @@
+/**
+ * src/services/ConversationLog.ts
+ *
+ * Client-side conversation log
+ *
+ * Follow-ups like "what about the other one?" used to depend entirely on
+ * server memory. The app now keeps its own record of each session:
+ *
+ * - User turns (transcripts), assistant replies and their action flags
+ * - What continuous loops say; a run of loop answers keeps only the
+ *   latest, so step-by-step guidance does not push questions out
+ * - A window of recent turns is attached to every workflow request as
+ *   conversation_history, bounded by turn count, estimated tokens and
+ *   bytes (CONVERSATION_CONFIG), so the backend can be stateless
+ * - The recent history can be read back to the user on request
+ *
+ * Retries and stream fallbacks reuse the request_id, so each request is
+ * logged once. Logs are kept per session id, so "continue last
+ * conversation" picks its history back up.
+ */
+
+import { CONVERSATION_CONFIG, SESSION_CONFIG } from '../utils/constants';
+import { ConversationRole, ConversationTurn, WorkflowResponse } from '../utils/types';
+import { readJSON, writeJSON } from '../utils/storage';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Wire format of one turn in conversation_history
+ */
+export interface ConversationContextTurn {
+  role: ConversationRole;
+  text: string;
+  navigation?: boolean;
+  reaching_flag?: boolean;
+  reaching_ios?: boolean;
+  object?: string;
+}
+
+type StoredConversations = Record<string, ConversationTurn[]>;
+
+const CONVERSATIONS_FILE = 'conversations.json';
+
+const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / CONVERSATION_CONFIG.CHARS_PER_TOKEN);
+
+const utf8Bytes = (text: string): number => {
+  let bytes = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) || 0;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+  }
+  return bytes;
+};
+
+const toContextTurn = (turn: ConversationTurn): ConversationContextTurn => ({
+  role: turn.role,
+  text: turn.text,
+  ...(turn.flags || {}),
+});
+
+// =============================================================================
+// Log
+// =============================================================================
+
+class ConversationLog {
+  private sessions: StoredConversations = {};
+  private loadPromise: Promise<void> | null = null;
+  private persistChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Restore logs from earlier runs. Safe to call more than once.
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const stored = await readJSON<StoredConversations>(CONVERSATIONS_FILE, {});
+        // Turns recorded before load finished win
+        this.sessions = { ...stored, ...this.sessions };
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  addUserTurn(sessionId: string, text: string, requestId?: string): void {
+    const trimmed = text.trim();
+    if (!trimmed || this.hasTurn(sessionId, 'user', requestId)) {
+      return;
+    }
+    this.append(sessionId, { role: 'user', text: trimmed, at: Date.now(), requestId });
+  }
+
+  /**
+   * @param loop - Spoken by a continuous loop: replaces the previous turn
+   *   if that was a loop answer too
+   */
+  addAssistantTurn(sessionId: string, response: WorkflowResponse, requestId?: string, loop: boolean = false): void {
+    const text = response.text?.trim();
+    if (!text || this.hasTurn(sessionId, 'assistant', requestId)) {
+      return;
+    }
+    if (loop && this.sessions[sessionId]?.[this.sessions[sessionId].length - 1]?.loop) {
+      this.sessions[sessionId] = this.sessions[sessionId].slice(0, -1);
+    }
+    this.append(sessionId, {
+      role: 'assistant',
+      text,
+      at: Date.now(),
+      requestId,
+      ...(loop ? { loop: true } : {}),
+      flags: {
+        navigation: response.navigation,
+        reaching_flag: response.reaching_flag,
+        reaching_ios: response.reaching_ios,
+        ...(response.object ? { object: response.object } : {}),
+      },
+    });
+  }
+
+  /**
+   * All turns of a session, oldest first
+   */
+  getTurns(sessionId: string): ConversationTurn[] {
+    return [...(this.sessions[sessionId] || [])];
+  }
+
+  /**
+   * Recent turns to send with a request, oldest first
+   *
+   * Newest turns are kept first; older ones are dropped once the turn,
+   * token or byte budget would be exceeded.
+   *
+   * @param excludeRequestId - The request being sent (its own question is
+   *   already in the transcript field)
+   */
+  buildContext(sessionId: string, excludeRequestId?: string): ConversationContextTurn[] {
+    if (!CONVERSATION_CONFIG.ENABLED) {
+      return [];
+    }
+
+    const candidates = (this.sessions[sessionId] || [])
+      .filter(turn => !excludeRequestId || turn.requestId !== excludeRequestId)
+      .slice(-CONVERSATION_CONFIG.CONTEXT_TURNS);
+
+    const context: ConversationContextTurn[] = [];
+    let tokens = 0;
+    let bytes = 2; // []
+
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const turn = toContextTurn(candidates[i]);
+      const turnTokens = estimateTokens(turn.text);
+      const turnBytes = utf8Bytes(JSON.stringify(turn)) + 1; // comma
+
+      if (tokens + turnTokens > CONVERSATION_CONFIG.CONTEXT_MAX_TOKENS ||
+          bytes + turnBytes > CONVERSATION_CONFIG.CONTEXT_MAX_BYTES) {
+        break;
+      }
+
+      context.unshift(turn);
+      tokens += turnTokens;
+      bytes += turnBytes;
+    }
+
+    return context;
+  }
+
+  /**
+   * Spoken summary of the last few turns, or null if there are none
+   */
+  getRecap(sessionId: string, turnCount: number = CONVERSATION_CONFIG.RECAP_TURNS): string | null {
+    const turns = (this.sessions[sessionId] || []).slice(-turnCount);
+    if (turns.length === 0) {
+      return null;
+    }
+
+    return turns
+      .map(turn => (turn.role === 'user' ? `You asked: ${turn.text}` : `I said: ${turn.text}`))
+      .join(' ');
+  }
+
+  /**
+   * What was last said back in a session (repeat last answer)
+   */
+  getLastAnswer(sessionId: string): string | null {
+    const turns = this.sessions[sessionId] || [];
+    for (let i = turns.length - 1; i >= 0; i--) {
+      if (turns[i].role === 'assistant') {
+        return turns[i].text;
+      }
+    }
+    return null;
+  }
+
+  clearSession(sessionId: string): void {
+    delete this.sessions[sessionId];
+    this.persist();
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private hasTurn(sessionId: string, role: ConversationRole, requestId?: string): boolean {
+    if (!requestId) {
+      return false;
+    }
+    return (this.sessions[sessionId] || []).some(turn => turn.role === role && turn.requestId === requestId);
+  }
+
+  private append(sessionId: string, turn: ConversationTurn): void {
+    const turns = [...(this.sessions[sessionId] || []), turn]
+      .slice(-CONVERSATION_CONFIG.MAX_TURNS_PER_SESSION);
+
+    // Re-insert so the object's key order is least recently used first
+    delete this.sessions[sessionId];
+    this.sessions[sessionId] = turns;
+
+    // Same retention as the session history, plus the current session
+    const ids = Object.keys(this.sessions);
+    ids.slice(0, Math.max(0, ids.length - (SESSION_CONFIG.MAX_HISTORY + 1)))
+      .forEach(id => delete this.sessions[id]);
+
+    this.persist();
+  }
+
+  /**
+   * Writes are chained so rapid turns never race on the temp file
+   */
+  private persist(): Promise<void> {
+    this.persistChain = this.persistChain.then(async () => {
+      try {
+        await writeJSON(CONVERSATIONS_FILE, this.sessions);
+      } catch (error) {
+        console.warn('⚠️ [Conversation] Could not persist log:', error);
+      }
+    });
+    return this.persistChain;
+  }
+}
+
+// Export singleton instance
+export const conversationLog = new ConversationLog();
@@ -0,0 +1,81 @@
+/**
+ * src/services/CybsGuidanceBridge.ts
+ *
+ * Bridge to the native iOS ARKit reaching module (CybsGuidance)
+ *
+ * Moved out of WorkflowService so the action registry can hand over to
+ * it without importing the workflow transport.
+ *
+ * Only validated targets (resolveReachingTarget in utils/bbox) reach the
+ * native side: pixel bbox with the uploaded image size, plus the same box
+ * normalized in image and sensor coordinates.
+ */
+
+import { Platform, NativeModules } from 'react-native';
+import { ReachingTarget } from '../utils/types';
+import { AccessibilityService } from './AccessibilityService';
+
+// =============================================================================
+// iOS ARKit Native Module Bridge (Nicolas's CybsGuidance)
+// =============================================================================
+
+// This will be the bridge to Nicolas's Swift ViewController
+const { CybsGuidanceModule } = NativeModules;
+
+/**
+ * Trigger iOS ARKit reaching with bounding box data
+ * 
+ * @param target - Validated bbox of the detected object (see utils/bbox)
+ */
+export const triggerIOSReaching = async (target: ReachingTarget): Promise<boolean> => {
+  const objectName = target.object;
+
+  if (Platform.OS !== 'ios') {
+    console.warn('🚫 triggerIOSReaching called on non-iOS platform');
+    return false;
+  }
+
+  try {
+    console.log('🎯 [iOS ARKit] Triggering reaching for:', objectName);
+    console.log('📦 [iOS ARKit] Bounding box:', target.bbox, `in ${target.imageWidth}x${target.imageHeight}`);
+
+    // If the native module exists, call it
+    if (CybsGuidanceModule?.startReaching) {
+      await CybsGuidanceModule.startReaching({
+        bbox: target.bbox,
+        object: objectName,
+        imageWidth: target.imageWidth,
+        imageHeight: target.imageHeight,
+        normalizedBbox: target.normalized,
+        sensorBbox: target.sensorBbox,
+      });
+      console.log('✅ [iOS ARKit] Reaching started successfully');
+      return true;
+    } else {
+      console.warn('⚠️ CybsGuidanceModule not available - is the native module linked?');
+      
+      // Fallback: Announce to user
+      AccessibilityService.announce(`Guiding you to ${objectName}. ARKit module initializing.`);
+      return false;
+    }
+  } catch (error) {
+    console.error('❌ [iOS ARKit] Failed to start reaching:', error);
+    return false;
+  }
+};
+
+/**
+ * Stop a running iOS ARKit reaching session (user tap, new interaction)
+ */
+export const stopIOSReaching = async (): Promise<void> => {
+  if (Platform.OS !== 'ios' || !CybsGuidanceModule?.stopReaching) {
+    return;
+  }
+
+  try {
+    await CybsGuidanceModule.stopReaching();
+    console.log('🛑 [iOS ARKit] Reaching stopped');
+  } catch (error) {
+    console.error('❌ [iOS ARKit] Failed to stop reaching:', error);
+  }
+};
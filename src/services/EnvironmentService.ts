@@ -0,0 +1,183 @@
+/**
+ * src/services/EnvironmentService.ts
+ *
+ * Runtime backend environment selection
+ *
+ * Every service reads its workflow / Speaches endpoints from here
+ * instead of hardcoding URLs, so switching backend (production, a
+ * developer's own workflow, local mock server) needs no rebuild:
+ *
+ * - Profiles are declared in BACKEND_ENVIRONMENTS (constants.ts)
+ * - The selected profile is persisted to <DocumentDirectory>/shelfscout
+ * - Listeners are notified on change (e.g. to reset the session)
+ *
+ * Until load() finishes the default profile is used, so synchronous
+ * callers always get a valid environment.
+ */
+
+import {
+  BACKEND_ENVIRONMENTS,
+  BackendEnvironmentId,
+  DEFAULT_ENVIRONMENT_ID,
+  SPEACHES_CONFIG,
+} from '../utils/constants';
+import { BackendEnvironment } from '../utils/types';
+import { readJSON, writeJSON } from '../utils/storage';
+import { speechSettings } from './SpeechSettings';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type EnvironmentChangeListener = (environment: BackendEnvironment) => void;
+
+interface StoredEnvironment {
+  id: string;
+}
+
+const ENVIRONMENT_FILE = 'environment.json';
+
+const isEnvironmentId = (id: unknown): id is BackendEnvironmentId =>
+  typeof id === 'string' && Object.prototype.hasOwnProperty.call(BACKEND_ENVIRONMENTS, id);
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class EnvironmentService {
+  private currentId: BackendEnvironmentId = DEFAULT_ENVIRONMENT_ID;
+  private loadPromise: Promise<BackendEnvironment> | null = null;
+  private listeners: Set<EnvironmentChangeListener> = new Set();
+
+  /**
+   * Restore the persisted selection. Safe to call more than once.
+   */
+  load(): Promise<BackendEnvironment> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const stored = await readJSON<StoredEnvironment | null>(ENVIRONMENT_FILE, null);
+        if (stored && isEnvironmentId(stored.id)) {
+          this.currentId = stored.id;
+        } else if (stored) {
+          console.warn(`⚠️ [Environment] Unknown environment "${stored.id}", using ${DEFAULT_ENVIRONMENT_ID}`);
+        }
+
+        const environment = this.getEnvironment();
+        console.log(`🌐 [Environment] ${environment.label} (${environment.workflowUrl})`);
+        return environment;
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  getEnvironment(): BackendEnvironment {
+    return BACKEND_ENVIRONMENTS[this.currentId];
+  }
+
+  getEnvironmentId(): BackendEnvironmentId {
+    return this.currentId;
+  }
+
+  listEnvironments(): BackendEnvironment[] {
+    return Object.values(BACKEND_ENVIRONMENTS);
+  }
+
+  /**
+   * Switch backend and persist the choice
+   */
+  async setEnvironment(id: BackendEnvironmentId): Promise<BackendEnvironment> {
+    if (!isEnvironmentId(id)) {
+      throw new Error(`Unknown backend environment: ${id}`);
+    }
+
+    await this.load();
+
+    if (id === this.currentId) {
+      return this.getEnvironment();
+    }
+
+    this.currentId = id;
+    const environment = this.getEnvironment();
+    console.log(`🔀 [Environment] Switched to ${environment.label} (${environment.workflowUrl})`);
+
+    try {
+      await writeJSON(ENVIRONMENT_FILE, { id } as StoredEnvironment);
+    } catch (error) {
+      // Still switched for this run
+      console.warn('⚠️ [Environment] Could not persist selection:', error);
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(environment);
+      } catch (error) {
+        console.error('❌ [Environment] Change listener failed:', error);
+      }
+    });
+
+    return environment;
+  }
+
+  /**
+   * Move to the next profile in BACKEND_ENVIRONMENTS (dev menu)
+   */
+  cycleEnvironment(): Promise<BackendEnvironment> {
+    const ids = Object.keys(BACKEND_ENVIRONMENTS) as BackendEnvironmentId[];
+    const next = ids[(ids.indexOf(this.currentId) + 1) % ids.length];
+    return this.setEnvironment(next);
+  }
+
+  /**
+   * @returns unsubscribe function
+   */
+  onChange(listener: EnvironmentChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ===========================================================================
+  // Endpoint helpers
+  // ===========================================================================
+
+  getWorkflowUrl(): string {
+    return this.getEnvironment().workflowUrl;
+  }
+
+  /**
+   * @param endpoint - Speaches path, e.g. SPEACHES_CONFIG.TTS_ENDPOINT
+   */
+  getSpeachesUrl(endpoint: string): string {
+    return `${this.getEnvironment().speachesBaseUrl}${endpoint}`;
+  }
+}
+
+// Export singleton instance
+export const environmentService = new EnvironmentService();
+
+// =============================================================================
+// Speaches client settings (shared by the TTS / STT clients)
+// =============================================================================
+
+/**
+ * TTS settings matching the N8N TTS workflow, for the active environment
+ */
+export const getSpeachesTtsSettings = () => ({
+  ttsUrl: environmentService.getSpeachesUrl(SPEACHES_CONFIG.TTS_ENDPOINT),
+  model: SPEACHES_CONFIG.MODEL,
+  voice: SPEACHES_CONFIG.VOICE,
+  language: SPEACHES_CONFIG.LANGUAGE,
+  responseFormat: SPEACHES_CONFIG.FORMAT,
+  speed: speechSettings.getRate(),             // User's choice (SPEACHES_CONFIG.SPEED by default)
+  sampleRate: SPEACHES_CONFIG.SAMPLE_RATE,
+});
+
+/**
+ * STT settings matching the N8N STT workflow, for the active environment
+ */
+export const getSpeachesSttSettings = () => ({
+  sttUrl: environmentService.getSpeachesUrl(SPEACHES_CONFIG.STT_ENDPOINT),
+  model: SPEACHES_CONFIG.STT_MODEL,
+  language: SPEACHES_CONFIG.STT_LANGUAGE,
+});
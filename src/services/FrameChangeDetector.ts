@@ -0,0 +1,145 @@
+/**
+ * src/services/FrameChangeDetector.ts
+ *
+ * Skips continuous-mode uploads while the scene is unchanged
+ *
+ * A user standing still in front of the same shelf used to get a full
+ * upload, a server round trip and the same sentence again every
+ * iteration. Each loop frame is now downscaled to a THUMBNAIL_SIZE JPEG,
+ * decoded and hashed (dHash, src/utils/frameHash). If it is within the
+ * action's threshold of the last UPLOADED frame, the caller either skips
+ * the request or sends a "frame_unchanged" heartbeat without the image
+ * (FRAME_CHANGE_CONFIG.UNCHANGED_ACTION, heartbeats only to backends that
+ * list the frame_unchanged feature).
+ *
+ * After MAX_UNCHANGED unchanged frames in a row the next one is uploaded
+ * anyway, so slow drift is never missed for long. Any hashing failure
+ * counts as "changed" - an extra upload is better than a stale answer.
+ */
+
+import ImageResizer from '@bam.tech/react-native-image-resizer';
+import RNFS from 'react-native-fs';
+import { Buffer } from 'buffer';
+import * as jpeg from 'jpeg-js';
+import { FRAME_CHANGE_CONFIG } from '../utils/constants';
+import { removeFile } from '../utils/storage';
+import { dHash, hammingDistance } from '../utils/frameHash';
+import { latencyTracer } from './LatencyTracer';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface FrameChangeResult {
+  changed: boolean;
+  hash: string | null;       // null = hashing disabled or failed
+  distance: number | null;   // null = nothing to compare against
+  threshold: number;
+}
+
+interface ReferenceFrame {
+  hash: string;
+  mode: string;
+}
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class FrameChangeDetector {
+  private reference: ReferenceFrame | null = null;
+  private unchangedCount = 0;
+
+  getThreshold(mode: string | null): number {
+    return (mode ? FRAME_CHANGE_CONFIG.THRESHOLDS[mode] : undefined) ?? FRAME_CHANGE_CONFIG.DEFAULT_THRESHOLD;
+  }
+
+  /**
+   * Compare a captured frame with the last uploaded one
+   *
+   * @param imagePath - Frame about to be uploaded
+   * @param mode - Running action type (thresholds are per action)
+   */
+  async check(imagePath: string | null, mode: string | null): Promise<FrameChangeResult> {
+    const threshold = this.getThreshold(mode);
+
+    if (!FRAME_CHANGE_CONFIG.ENABLED || !imagePath) {
+      return { changed: true, hash: null, distance: null, threshold };
+    }
+
+    const span = latencyTracer.startSpan('frame_hash');
+    const hash = await this.hashImage(imagePath);
+
+    if (!hash || !this.reference || this.reference.mode !== mode) {
+      span.end({ compared: false });
+      return { changed: true, hash, distance: null, threshold };
+    }
+
+    const distance = hammingDistance(hash, this.reference.hash);
+    const unchanged = distance <= threshold && this.unchangedCount < FRAME_CHANGE_CONFIG.MAX_UNCHANGED;
+    span.end({ distance, threshold, unchanged });
+
+    if (unchanged) {
+      this.unchangedCount++;
+      console.log(`🟰 [FrameChange] Unchanged (distance ${distance} ≤ ${threshold}, ${this.unchangedCount}/${FRAME_CHANGE_CONFIG.MAX_UNCHANGED})`);
+    } else {
+      console.log(`🆕 [FrameChange] Changed (distance ${distance}, threshold ${threshold})`);
+    }
+
+    return { changed: !unchanged, hash, distance, threshold };
+  }
+
+  /**
+   * The checked frame reached the backend; later frames compare against it
+   */
+  markUploaded(result: FrameChangeResult, mode: string | null): void {
+    this.unchangedCount = 0;
+    this.reference = result.hash && mode ? { hash: result.hash, mode } : null;
+  }
+
+  /**
+   * Forget the reference (loop started / stopped)
+   */
+  reset(): void {
+    this.reference = null;
+    this.unchangedCount = 0;
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private async hashImage(imagePath: string): Promise<string | null> {
+    const size = FRAME_CHANGE_CONFIG.THUMBNAIL_SIZE;
+    let thumbnailPath: string | null = null;
+
+    try {
+      const thumbnail = await ImageResizer.createResizedImage(
+        imagePath.startsWith('file://') ? imagePath : `file://${imagePath}`,
+        size,
+        size,
+        'JPEG',
+        90,
+        0,
+        undefined,    // Cache directory
+        false,
+        { mode: 'stretch' }
+      );
+      thumbnailPath = thumbnail.path;
+
+      const data = Buffer.from(await RNFS.readFile(thumbnail.path, 'base64'), 'base64');
+      const image = jpeg.decode(data, { useTArray: true, maxResolutionInMP: 1 });
+      return dHash(image.data, image.width, image.height);
+    } catch (error) {
+      console.warn('⚠️ [FrameChange] Could not hash frame:', error);
+      return null;
+    } finally {
+      if (thumbnailPath) {
+        await removeFile(thumbnailPath.replace('file://', ''));
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const frameChangeDetector = new FrameChangeDetector();
@@ -0,0 +1,208 @@
+/**
+ * src/services/GestureMap.ts
+ *
+ * Which action each touch gesture on the full-screen surface triggers
+ *
+ * A single tap stays the state-dependent main action (speak / stop /
+ * submit). The other gestures (GestureSurface) map to actions from
+ * GESTURE_CONFIG.MAPPINGS, which a user can change; their choice is
+ * persisted to <DocumentDirectory>/shelfscout/gestures.json.
+ *
+ * While VoiceOver / TalkBack is on the screen reader owns the gestures,
+ * so the surface turns its recognizers off and every action is offered
+ * as a screen reader action instead (getHelp explains both).
+ */
+
+import { Platform } from 'react-native';
+import { GESTURE_CONFIG } from '../utils/constants';
+import { readJSON, writeJSON } from '../utils/storage';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SurfaceGesture =
+  | 'doubleTap'
+  | 'longPress'
+  | 'twoFingerTap'
+  | 'swipeLeft'
+  | 'swipeRight'
+  | 'swipeUp'
+  | 'swipeDown';
+
+export type GestureAction =
+  | 'repeatAnswer'
+  | 'stop'
+  | 'togglePause'
+  | 'slowerSpeech'
+  | 'fasterSpeech'
+  | 'newConversation'
+  | 'continueConversation'
+  | 'recentConversation'
+  | 'gestureHelp'
+  | 'handsFree'
+  | 'none';
+
+export type GestureMappings = Record<SurfaceGesture, GestureAction>;
+
+/**
+ * Spoken names; labels double as screen reader action labels
+ */
+export const GESTURE_ACTIONS: Record<GestureAction, { label: string; help: string }> = {
+  repeatAnswer: { label: 'Repeat last answer', help: 'repeats the last answer' },
+  stop: { label: 'Stop', help: 'stops whatever is going on' },
+  togglePause: { label: 'Pause or resume guidance', help: 'pauses or resumes navigation and object guidance' },
+  slowerSpeech: { label: 'Slower speech', help: 'makes speech slower' },
+  fasterSpeech: { label: 'Faster speech', help: 'makes speech faster' },
+  newConversation: { label: 'New conversation', help: 'starts a new conversation' },
+  continueConversation: { label: 'Continue last conversation', help: 'continues your last conversation' },
+  recentConversation: { label: 'Hear recent conversation', help: 'reads out the recent conversation' },
+  gestureHelp: { label: 'Gesture help', help: 'explains the gestures' },
+  handsFree: { label: 'Hands-free listening', help: 'turns hands-free listening on or off' },
+  none: { label: 'Nothing', help: 'does nothing' },
+};
+
+export const GESTURE_NAMES: Record<SurfaceGesture, string> = {
+  doubleTap: 'Double tap',
+  longPress: 'Long press',
+  twoFingerTap: 'Two-finger tap',
+  swipeLeft: 'Swipe left',
+  swipeRight: 'Swipe right',
+  swipeUp: 'Swipe up',
+  swipeDown: 'Swipe down',
+};
+
+type MappingListener = (mappings: GestureMappings) => void;
+
+const GESTURES_FILE = 'gestures.json';
+
+const isGesture = (value: unknown): value is SurfaceGesture =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(GESTURE_NAMES, value);
+
+const isAction = (value: unknown): value is GestureAction =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(GESTURE_ACTIONS, value);
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class GestureMap {
+  private mappings: GestureMappings = { ...GESTURE_CONFIG.MAPPINGS };
+  private loadPromise: Promise<GestureMappings> | null = null;
+  private listeners: Set<MappingListener> = new Set();
+
+  /**
+   * Restore the user's mappings over the defaults. Safe to call more than once.
+   */
+  load(): Promise<GestureMappings> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const stored = await readJSON<Partial<Record<string, string>>>(GESTURES_FILE, {});
+
+        Object.entries(stored).forEach(([gesture, action]) => {
+          if (isGesture(gesture) && isAction(action)) {
+            this.mappings[gesture] = action;
+          } else {
+            console.warn(`⚠️ [Gestures] Ignoring stored mapping ${gesture} → ${action}`);
+          }
+        });
+
+        this.notify();
+        return this.getMappings();
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  getMappings(): GestureMappings {
+    return { ...this.mappings };
+  }
+
+  getAction(gesture: SurfaceGesture): GestureAction {
+    return this.mappings[gesture];
+  }
+
+  /**
+   * Remap a gesture and persist the choice ('none' turns it off)
+   */
+  async setMapping(gesture: SurfaceGesture, action: GestureAction): Promise<void> {
+    if (!isGesture(gesture) || !isAction(action)) {
+      throw new Error(`Unknown gesture mapping: ${gesture} → ${action}`);
+    }
+
+    await this.load();
+    this.mappings[gesture] = action;
+    console.log(`👆 [Gestures] ${gesture} → ${action}`);
+    await this.persist();
+    this.notify();
+  }
+
+  /**
+   * Back to GESTURE_CONFIG.MAPPINGS
+   */
+  async resetMappings(): Promise<void> {
+    await this.load();
+    this.mappings = { ...GESTURE_CONFIG.MAPPINGS };
+    await this.persist();
+    this.notify();
+  }
+
+  /**
+   * @returns remove function
+   */
+  onChange(listener: MappingListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Spoken help for the gestures that work right now
+   *
+   * @param screenReader - VoiceOver / TalkBack is on (surface gestures are off)
+   */
+  getHelp(screenReader: boolean): string {
+    if (screenReader) {
+      return [
+        'Double tap to speak, and double tap again to stop.',
+        'Double tap and hold to pause or resume guidance.',
+        Platform.OS === 'ios'
+          ? 'A two-finger double tap, or the escape gesture, stops. Swipe up or down for more actions.'
+          : 'More actions, including stop, are in the TalkBack actions menu.',
+      ].join(' ');
+    }
+
+    const mapped = (Object.keys(GESTURE_NAMES) as SurfaceGesture[])
+      .filter(gesture => this.mappings[gesture] !== 'none')
+      .map(gesture => `${GESTURE_NAMES[gesture]} ${GESTURE_ACTIONS[this.mappings[gesture]].help}.`);
+
+    return ['Tap to speak, and tap again to stop.', ...mapped].join(' ');
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private async persist(): Promise<void> {
+    // Only what differs from the defaults, so new defaults reach everyone else
+    const overrides = (Object.keys(this.mappings) as SurfaceGesture[])
+      .filter(gesture => this.mappings[gesture] !== GESTURE_CONFIG.MAPPINGS[gesture])
+      .reduce((stored, gesture) => ({ ...stored, [gesture]: this.mappings[gesture] }), {});
+
+    try {
+      await writeJSON(GESTURES_FILE, overrides);
+    } catch (error) {
+      // Still mapped for this run
+      console.warn('⚠️ [Gestures] Could not persist mappings:', error);
+    }
+  }
+
+  private notify(): void {
+    const mappings = this.getMappings();
+    this.listeners.forEach(listener => listener(mappings));
+  }
+}
+
+// Export singleton instance
+export const gestureMap = new GestureMap();
@@ -0,0 +1,155 @@
+/**
+ * src/services/ImagePreprocessor.ts
+ *
+ * Image preprocessing before upload
+ *
+ * Camera photos come off the sensor at full resolution (several MB),
+ * and upload size dominates loop latency on cellular. Before a photo is
+ * sent to the workflow it is:
+ *
+ * - Downscaled so its longest side is at most MAX_DIMENSION
+ * - Rotated according to EXIF orientation (pixels upright, no tag)
+ * - Recompressed, lowering JPEG quality until it fits MAX_BYTES
+ * - Stripped of EXIF metadata, including GPS location
+ *
+ * Both limits are lowered further if the backend's capability handshake
+ * asks for smaller uploads.
+ *
+ * The final dimensions are returned so bounding boxes from the backend
+ * (which sees the processed image) can be mapped back.
+ *
+ * If the resizer fails, the original photo is used unchanged - a slow
+ * upload is better than no answer.
+ */
+
+import ImageResizer from '@bam.tech/react-native-image-resizer';
+import RNFS from 'react-native-fs';
+import { IMAGE_PREPROCESS_CONFIG } from '../utils/constants';
+import { ProcessedImage } from '../utils/types';
+import { removeFile } from '../utils/storage';
+import { latencyTracer } from './LatencyTracer';
+import { capabilityService } from './CapabilityService';
+
+const OUTPUT_DIR = `${RNFS.CachesDirectoryPath}/shelfscout-upload`;
+
+class ImagePreprocessor {
+  private recent: ProcessedImage[] = [];
+  private outputDirReady: Promise<void> | null = null;
+
+  /**
+   * Prepare a captured photo for upload
+   *
+   * @param photoPath - Path from VisionCamera takePhoto()
+   * @param originalWidth - Width reported by the camera (for logging / fallback)
+   * @param originalHeight - Height reported by the camera
+   */
+  async preprocess(
+    photoPath: string,
+    originalWidth: number = 0,
+    originalHeight: number = 0
+  ): Promise<ProcessedImage> {
+    const original: ProcessedImage = {
+      path: photoPath,
+      width: originalWidth,
+      height: originalHeight,
+      originalWidth,
+      originalHeight,
+      bytes: 0,
+      quality: 100,
+    };
+
+    if (!IMAGE_PREPROCESS_CONFIG.ENABLED || !photoPath) {
+      return original;
+    }
+
+    const startedAt = Date.now();
+    const span = latencyTracer.startSpan('image_preprocess');
+    const sourceUri = photoPath.startsWith('file://') ? photoPath : `file://${photoPath}`;
+
+    try {
+      await this.ensureOutputDir();
+
+      const { maxImageDimension, maxImageBytes } = capabilityService.getLimits();
+      let quality: number = IMAGE_PREPROCESS_CONFIG.QUALITY;
+      let result = await this.resize(sourceUri, quality, maxImageDimension);
+
+      // Walk quality down until the byte budget is met
+      while (result.size > maxImageBytes && quality > IMAGE_PREPROCESS_CONFIG.MIN_QUALITY) {
+        quality = Math.max(IMAGE_PREPROCESS_CONFIG.MIN_QUALITY, quality - IMAGE_PREPROCESS_CONFIG.QUALITY_STEP);
+        console.log(`🗜️ [ImagePrep] ${Math.round(result.size / 1024)}KB over budget, retrying at quality ${quality}`);
+        await removeFile(result.path);
+        result = await this.resize(sourceUri, quality, maxImageDimension);
+      }
+
+      const processed: ProcessedImage = {
+        path: result.path,
+        width: result.width,
+        height: result.height,
+        originalWidth,
+        originalHeight,
+        bytes: result.size,
+        quality,
+      };
+
+      console.log(
+        `🖼️ [ImagePrep] ${originalWidth}x${originalHeight} → ${processed.width}x${processed.height}, ` +
+        `${Math.round(processed.bytes / 1024)}KB @ q${quality} in ${Date.now() - startedAt}ms`
+      );
+
+      span.end({ width: processed.width, height: processed.height, bytes: processed.bytes, quality });
+
+      // The full-resolution original is no longer needed
+      await removeFile(photoPath.replace('file://', ''));
+      this.remember(processed);
+
+      return processed;
+    } catch (error) {
+      span.end({ failed: true });
+      console.warn('⚠️ [ImagePrep] Preprocessing failed, uploading original:', error);
+      return original;
+    }
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private resize(sourceUri: string, quality: number, maxDimension: number) {
+    return ImageResizer.createResizedImage(
+      sourceUri,
+      maxDimension,
+      maxDimension,
+      'JPEG',
+      quality,
+      0,          // Rotation: EXIF orientation is applied automatically
+      OUTPUT_DIR,
+      false,      // keepMeta: drop EXIF (GPS, device, timestamps)
+      { mode: 'contain', onlyScaleDown: true }
+    );
+  }
+
+  private ensureOutputDir(): Promise<void> {
+    if (!this.outputDirReady) {
+      this.outputDirReady = RNFS.mkdir(OUTPUT_DIR).catch(error => {
+        this.outputDirReady = null;
+        throw error;
+      });
+    }
+    return this.outputDirReady;
+  }
+
+  /**
+   * Keep the last few processed files (the current request may still be
+   * uploading or being copied into the offline queue), delete the rest
+   */
+  private remember(image: ProcessedImage): void {
+    this.recent.push(image);
+    while (this.recent.length > IMAGE_PREPROCESS_CONFIG.KEEP_RECENT) {
+      const old = this.recent.shift()!;
+      removeFile(old.path);
+    }
+  }
+}
+
+// Export singleton instance
+export const imagePreprocessor = new ImagePreprocessor();
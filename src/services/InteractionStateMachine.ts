@@ -0,0 +1,366 @@
+/**
+ * src/services/InteractionStateMachine.ts
+ *
+ * One source of truth for what the app is doing
+ *
+ * App.tsx used to coordinate a tap, STT, capture, the request, speech and
+ * the loops through a dozen refs and flags (isProcessingRef,
+ * isCapturingPhotoRef, isEmergencyStopped, isContinuousModeRunning, ...)
+ * that were set and cleared in different places. A missed reset left the
+ * app "processing" until restart.
+ *
+ *   idle → listening → capturing → processing → speaking → idle
+ *                                                  ├→ continuous → idle
+ *                                                  └→ native_reaching → idle
+ *   continuous → continuous (other action, loop phase) / native_reaching
+ *   idle → speaking (queued answers, recaps)
+ *
+ * - TRANSITIONS is the whole table; anything else is rejected (logged, no throw)
+ * - Guards veto a transition (built in: a loop cannot restart itself,
+ *   stale watchdog timers are ignored); callers add their own with addGuard
+ * - onEnter / onExit / onTransition hooks carry the side effects (UI,
+ *   announcements, aborting requests)
+ * - STOP and FAIL are accepted from every state but idle, so a tap always works
+ * - Every interaction gets a run id. Async work captures it and checks
+ *   isCurrentRun(run) after each await instead of a global "stopped"
+ *   flag, so a late callback of a stopped run can never touch a new one
+ * - States in INTERACTION_CONFIG.STATE_TIMEOUTS_MS have a watchdog
+ */
+
+import { INTERACTION_CONFIG } from '../utils/constants';
+import { ActionType } from './ActionRegistry';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type InteractionState =
+  | 'idle'
+  | 'listening'
+  | 'capturing'
+  | 'processing'
+  | 'speaking'
+  | 'continuous'
+  | 'native_reaching';
+
+/** What a continuous loop iteration is doing (UI only) */
+export type LoopPhase = 'waiting' | 'capturing' | 'processing' | 'speaking' | 'paused';
+
+export type InteractionEvent =
+  | { type: 'LISTEN' }
+  | { type: 'TRANSCRIPT' }
+  | { type: 'CAPTURED' }
+  | { type: 'ANSWER' }
+  | { type: 'SPEAK' }                                    // Idle speech: queued answers, recaps
+  | { type: 'DONE' }
+  | { type: 'START_LOOP'; actionType: ActionType }
+  | { type: 'LOOP_PHASE'; phase: LoopPhase }
+  | { type: 'HANDOVER'; actionType: ActionType }
+  | { type: 'STOP'; reason: string }
+  | { type: 'FAIL'; error: string }
+  | { type: 'TIMEOUT'; state: InteractionState; enteredAt: number };
+
+export type InteractionEventType = InteractionEvent['type'];
+
+export interface InteractionSnapshot {
+  state: InteractionState;
+  runId: number;                       // Increments when an interaction starts from idle
+  actionType: ActionType | null;       // continuous / native_reaching
+  loopPhase: LoopPhase | null;         // continuous only
+  enteredAt: number;
+}
+
+export interface InteractionTransition {
+  from: InteractionSnapshot;
+  to: InteractionSnapshot;
+  event: InteractionEvent;
+}
+
+export type InteractionGuard = (snapshot: InteractionSnapshot, event: InteractionEvent) => boolean;
+type TransitionListener = (transition: InteractionTransition) => void;
+
+// =============================================================================
+// Transition table
+// =============================================================================
+
+const ANY_STATE_EVENTS: Partial<Record<InteractionEventType, InteractionState>> = {
+  STOP: 'idle',
+  FAIL: 'idle',
+  TIMEOUT: 'idle',
+};
+
+export const TRANSITIONS: Record<InteractionState, Partial<Record<InteractionEventType, InteractionState>>> = {
+  idle: {
+    LISTEN: 'listening',
+    SPEAK: 'speaking',
+  },
+  listening: {
+    TRANSCRIPT: 'capturing',
+  },
+  capturing: {
+    CAPTURED: 'processing',
+  },
+  processing: {
+    ANSWER: 'speaking',
+    DONE: 'idle',                      // Nothing to say (e.g. queued offline)
+  },
+  speaking: {
+    DONE: 'idle',
+    START_LOOP: 'continuous',
+    HANDOVER: 'native_reaching',
+  },
+  continuous: {
+    START_LOOP: 'continuous',          // Backend switched to another action
+    LOOP_PHASE: 'continuous',
+    HANDOVER: 'native_reaching',
+    DONE: 'idle',
+  },
+  native_reaching: {
+    DONE: 'idle',
+  },
+};
+
+/**
+ * Target state for an event, or null if the table has no such edge
+ */
+export const nextState = (state: InteractionState, event: InteractionEventType): InteractionState | null =>
+  TRANSITIONS[state][event] ?? ANY_STATE_EVENTS[event] ?? null;
+
+const BUILT_IN_GUARDS: Partial<Record<InteractionEventType, InteractionGuard>> = {
+  // Same action again = a second loop, not a switch
+  START_LOOP: (snapshot, event) =>
+    event.type === 'START_LOOP' && !!event.actionType &&
+    !(snapshot.state === 'continuous' && snapshot.actionType === event.actionType),
+  HANDOVER: (_snapshot, event) => event.type === 'HANDOVER' && !!event.actionType,
+  // A watchdog timer of a state that has already been left
+  TIMEOUT: (snapshot, event) =>
+    event.type === 'TIMEOUT' && event.state === snapshot.state && event.enteredAt === snapshot.enteredAt,
+  STOP: snapshot => snapshot.state !== 'idle',
+  FAIL: snapshot => snapshot.state !== 'idle',
+};
+
+export interface InteractionFlags {
+  isProcessing: boolean;               // Capturing or waiting for the backend
+  isSpeaking: boolean;
+  isPaused: boolean;                   // Continuous loop on hold
+  isNavigation: boolean;
+  isReaching: boolean;
+  isBusy: boolean;
+}
+
+/**
+ * What the UI shows for a snapshot (loops report their phase)
+ */
+export const getInteractionFlags = (snapshot: InteractionSnapshot): InteractionFlags => {
+  const { state, loopPhase, actionType } = snapshot;
+  const looping = state === 'continuous';
+  return {
+    isProcessing: state === 'capturing' || state === 'processing' ||
+      (looping && (loopPhase === 'capturing' || loopPhase === 'processing')),
+    isSpeaking: state === 'speaking' || (looping && loopPhase === 'speaking'),
+    isPaused: looping && loopPhase === 'paused',
+    isNavigation: looping && actionType === 'navigation',
+    isReaching: looping && actionType === 'reaching',
+    isBusy: state !== 'idle' && state !== 'listening',
+  };
+};
+
+// =============================================================================
+// Machine
+// =============================================================================
+
+export class InteractionStateMachine {
+  private snapshot: InteractionSnapshot = {
+    state: 'idle',
+    runId: 0,
+    actionType: null,
+    loopPhase: null,
+    enteredAt: Date.now(),
+  };
+  private guards: Map<InteractionEventType, InteractionGuard[]> = new Map();
+  private enterHooks: Map<InteractionState, Set<TransitionListener>> = new Map();
+  private exitHooks: Map<InteractionState, Set<TransitionListener>> = new Map();
+  private listeners: Set<TransitionListener> = new Set();
+  private watchdog: ReturnType<typeof setTimeout> | null = null;
+
+  getSnapshot(): InteractionSnapshot {
+    return this.snapshot;
+  }
+
+  getState(): InteractionState {
+    return this.snapshot.state;
+  }
+
+  is(...states: InteractionState[]): boolean {
+    return states.includes(this.snapshot.state);
+  }
+
+  /**
+   * Something other than listening or idle is going on
+   */
+  isBusy(): boolean {
+    return getInteractionFlags(this.snapshot).isBusy;
+  }
+
+  getRunId(): number {
+    return this.snapshot.runId;
+  }
+
+  /**
+   * The run that started async work is still the active one
+   */
+  isCurrentRun(runId: number): boolean {
+    return this.snapshot.state !== 'idle' && this.snapshot.runId === runId;
+  }
+
+  /**
+   * Apply an event
+   *
+   * @returns false if the table or a guard rejected it (nothing changed)
+   */
+  send(event: InteractionEvent): boolean {
+    const from = this.snapshot;
+    const target = nextState(from.state, event.type);
+
+    if (!target) {
+      console.warn(`⚠️ [Interaction] ${event.type} ignored in ${from.state}`);
+      return false;
+    }
+
+    const guards = [BUILT_IN_GUARDS[event.type], ...(this.guards.get(event.type) || [])];
+    if (guards.some(guard => guard && !guard(from, event))) {
+      console.warn(`⚠️ [Interaction] ${event.type} blocked by guard in ${from.state}`);
+      return false;
+    }
+
+    const to: InteractionSnapshot = {
+      state: target,
+      runId: from.state === 'idle' && target !== 'idle' ? from.runId + 1 : from.runId,
+      actionType: target === 'continuous' || target === 'native_reaching'
+        ? this.actionTypeFor(event, from)
+        : null,
+      loopPhase: target === 'continuous'
+        ? (event.type === 'LOOP_PHASE' ? event.phase : from.loopPhase ?? 'waiting')
+        : null,
+      enteredAt: target === from.state ? from.enteredAt : Date.now(),
+    };
+    this.snapshot = to;
+
+    if (INTERACTION_CONFIG.LOG_TRANSITIONS && (target !== from.state || event.type !== 'LOOP_PHASE')) {
+      const detail = event.type === 'STOP' ? ` (${event.reason})` : event.type === 'FAIL' ? ` (${event.error})` : '';
+      console.log(`🔀 [Interaction] ${from.state} → ${target} on ${event.type}${detail}`, { run: to.runId, action: to.actionType });
+    }
+
+    const transition: InteractionTransition = { from, to, event };
+    if (target !== from.state) {
+      this.armWatchdog();
+      this.run(this.exitHooks.get(from.state), transition);
+      this.run(this.enterHooks.get(target), transition);
+    }
+    this.run(this.listeners, transition);
+    return true;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Extension points
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Extra condition for an event, e.g. only loop actions may START_LOOP
+   *
+   * @returns remove function
+   */
+  addGuard(type: InteractionEventType, guard: InteractionGuard): () => void {
+    const guards = this.guards.get(type) || [];
+    guards.push(guard);
+    this.guards.set(type, guards);
+    return () => {
+      this.guards.set(type, (this.guards.get(type) || []).filter(existing => existing !== guard));
+    };
+  }
+
+  onEnter(state: InteractionState, hook: TransitionListener): () => void {
+    return this.addHook(this.enterHooks, state, hook);
+  }
+
+  onExit(state: InteractionState, hook: TransitionListener): () => void {
+    return this.addHook(this.exitHooks, state, hook);
+  }
+
+  /**
+   * Every accepted event, including self transitions (loop phases)
+   */
+  onTransition(listener: TransitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Back to idle without hooks (tests, hot reload)
+   */
+  reset(): void {
+    this.clearWatchdog();
+    this.snapshot = { state: 'idle', runId: this.snapshot.runId, actionType: null, loopPhase: null, enteredAt: Date.now() };
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private actionTypeFor(event: InteractionEvent, from: InteractionSnapshot): ActionType | null {
+    if (event.type === 'START_LOOP' || event.type === 'HANDOVER') {
+      return event.actionType;
+    }
+    return from.actionType;
+  }
+
+  private addHook(
+    hooks: Map<InteractionState, Set<TransitionListener>>,
+    state: InteractionState,
+    hook: TransitionListener
+  ): () => void {
+    const set = hooks.get(state) || new Set();
+    set.add(hook);
+    hooks.set(state, set);
+    return () => {
+      set.delete(hook);
+    };
+  }
+
+  private run(listeners: Set<TransitionListener> | undefined, transition: InteractionTransition): void {
+    listeners?.forEach(listener => {
+      try {
+        listener(transition);
+      } catch (error) {
+        // A failing side effect must not leave the machine half-way
+        console.error('❌ [Interaction] Hook failed:', error);
+      }
+    });
+  }
+
+  private armWatchdog(): void {
+    this.clearWatchdog();
+    const { state, enteredAt } = this.snapshot;
+    const timeoutMs = INTERACTION_CONFIG.STATE_TIMEOUTS_MS[state];
+    if (!timeoutMs) {
+      return;
+    }
+    this.watchdog = setTimeout(() => {
+      this.watchdog = null;
+      console.warn(`⏰ [Interaction] Still ${state} after ${timeoutMs}ms`);
+      this.send({ type: 'TIMEOUT', state, enteredAt });
+    }, timeoutMs);
+  }
+
+  private clearWatchdog(): void {
+    if (this.watchdog) {
+      clearTimeout(this.watchdog);
+      this.watchdog = null;
+    }
+  }
+}
+
+// Export singleton instance
+export const interactionMachine = new InteractionStateMachine();
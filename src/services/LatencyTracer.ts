@@ -0,0 +1,273 @@
+/**
+ * src/services/LatencyTracer.ts
+ *
+ * End-to-end latency tracing
+ *
+ * One trace per interaction (a voice command, or one continuous-mode
+ * iteration), made of timed spans for each phase:
+ *
+ *   stt_stop → camera_capture → image_preprocess → upload → server
+ *   → first_tts_byte → tts_playback
+ *
+ * Services add spans to the active trace without knowing who started
+ * it; with no active trace, span calls are no-ops. Traces carry the
+ * request / session / environment ids, are kept in an on-device ring
+ * buffer (persisted in batches so they survive a crash) and export as
+ * JSON, so builds and backends can be compared objectively.
+ */
+
+import { Platform } from 'react-native';
+import { TRACE_CONFIG } from '../utils/constants';
+import { LatencyTrace, TraceKind, TraceSpan, TraceStatus } from '../utils/types';
+import { readJSON, writeJSON, getStoragePath } from '../utils/storage';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type TraceAttrs = Record<string, string | number | boolean>;
+
+export interface SpanHandle {
+  end: (attrs?: TraceAttrs) => void;
+}
+
+export interface TraceAnnotation {
+  requestId?: string;
+  sessionId?: string;
+  environmentId?: string;
+  attrs?: TraceAttrs;
+}
+
+const TRACES_FILE = 'latency-traces.json';
+
+const NOOP_SPAN: SpanHandle = { end: () => {} };
+
+// =============================================================================
+// Tracer
+// =============================================================================
+
+class LatencyTracer {
+  private active: LatencyTrace | null = null;
+  private buffer: LatencyTrace[] = [];
+  private marked: Set<string> = new Set();
+  private loadPromise: Promise<void> | null = null;
+  private persistChain: Promise<void> = Promise.resolve();
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Restore traces from earlier runs. Safe to call more than once.
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        if (!TRACE_CONFIG.PERSIST) return;
+        const stored = await readJSON<LatencyTrace[]>(TRACES_FILE, []);
+        this.buffer = [...stored, ...this.buffer].slice(-TRACE_CONFIG.BUFFER_SIZE);
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Begin a new interaction; an unfinished previous trace is closed
+   *
+   * @returns trace id
+   */
+  startTrace(kind: TraceKind, attrs: TraceAttrs = {}): string {
+    if (this.active) {
+      this.endTrace('superseded');
+    }
+
+    const id = `trace-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    if (!TRACE_CONFIG.ENABLED) {
+      return id;
+    }
+
+    this.active = {
+      id,
+      kind,
+      startedAt: Date.now(),
+      attrs: { platform: Platform.OS, ...attrs },
+      spans: [],
+    };
+    this.marked = new Set();
+    return id;
+  }
+
+  hasActiveTrace(): boolean {
+    return this.active !== null;
+  }
+
+  /**
+   * Attach ids / attributes to the active trace
+   */
+  annotate(annotation: TraceAnnotation): void {
+    const trace = this.active;
+    if (!trace) return;
+
+    if (annotation.requestId) trace.requestId = annotation.requestId;
+    if (annotation.sessionId) trace.sessionId = annotation.sessionId;
+    if (annotation.environmentId) trace.environmentId = annotation.environmentId;
+    if (annotation.attrs) trace.attrs = { ...trace.attrs, ...annotation.attrs };
+  }
+
+  /**
+   * Time a phase of the active trace
+   *
+   * The handle keeps a reference to its trace, so a span that ends after
+   * the trace was archived (e.g. playback) is still recorded.
+   */
+  startSpan(name: string, attrs?: TraceAttrs): SpanHandle {
+    const trace = this.active;
+    if (!trace || trace.spans.length >= TRACE_CONFIG.MAX_SPANS_PER_TRACE) {
+      return NOOP_SPAN;
+    }
+
+    const span: TraceSpan = {
+      name,
+      start: Date.now() - trace.startedAt,
+      ...(attrs ? { attrs: { ...attrs } } : {}),
+    };
+    trace.spans.push(span);
+
+    let ended = false;
+    return {
+      end: (endAttrs?: TraceAttrs) => {
+        if (ended) return;
+        ended = true;
+        span.end = Date.now() - trace.startedAt;
+        span.durationMs = span.end - span.start;
+        if (endAttrs) {
+          span.attrs = { ...span.attrs, ...endAttrs };
+        }
+      },
+    };
+  }
+
+  /**
+   * Record an instant (e.g. first byte of audio)
+   */
+  mark(name: string, attrs?: TraceAttrs): void {
+    this.startSpan(name, attrs).end();
+  }
+
+  /**
+   * Record an instant only the first time it happens in this trace
+   */
+  markOnce(name: string, attrs?: TraceAttrs): void {
+    if (!this.active || this.marked.has(name)) return;
+    this.marked.add(name);
+    this.mark(name, attrs);
+  }
+
+  /**
+   * Finish the active trace and move it to the ring buffer.
+   * No-op when nothing is active.
+   */
+  endTrace(status: TraceStatus = 'ok', attrs?: TraceAttrs): LatencyTrace | null {
+    const trace = this.active;
+    if (!trace) return null;
+
+    this.active = null;
+    trace.status = status;
+    trace.durationMs = Date.now() - trace.startedAt;
+    if (attrs) {
+      trace.attrs = { ...trace.attrs, ...attrs };
+    }
+
+    this.buffer.push(trace);
+    if (this.buffer.length > TRACE_CONFIG.BUFFER_SIZE) {
+      this.buffer.splice(0, this.buffer.length - TRACE_CONFIG.BUFFER_SIZE);
+    }
+
+    console.log(`⏱️ [Trace] ${summarizeTrace(trace)}`);
+    this.schedulePersist();
+    return trace;
+  }
+
+  /**
+   * Finished traces, oldest first
+   */
+  getTraces(): LatencyTrace[] {
+    return [...this.buffer];
+  }
+
+  /**
+   * Write all buffered traces to a JSON file
+   *
+   * @returns path of the export file
+   */
+  async exportTraces(): Promise<string> {
+    await this.load();
+
+    const name = `latency-export-${Date.now()}.json`;
+    await writeJSON(name, {
+      exportedAt: new Date().toISOString(),
+      platform: Platform.OS,
+      platformVersion: String(Platform.Version),
+      traces: this.buffer,
+    });
+
+    const path = getStoragePath(name);
+    console.log(`📤 [Trace] Exported ${this.buffer.length} trace(s) to ${path}`);
+    return path;
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.buffer = [];
+    await this.persist();
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  /**
+   * Batch writes: at most one per PERSIST_DELAY_MS, not one per trace
+   */
+  private schedulePersist(): void {
+    if (!TRACE_CONFIG.PERSIST || this.persistTimer) {
+      return;
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, TRACE_CONFIG.PERSIST_DELAY_MS);
+  }
+
+  private persist(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!TRACE_CONFIG.PERSIST) {
+      return Promise.resolve();
+    }
+
+    // Never overwrite traces from earlier runs before they are merged in
+    this.persistChain = this.persistChain.then(() => this.load()).then(async () => {
+      try {
+        await writeJSON(TRACES_FILE, this.buffer);
+      } catch (error) {
+        console.warn('⚠️ [Trace] Could not persist traces:', error);
+      }
+    });
+    return this.persistChain;
+  }
+}
+
+/**
+ * One-line summary: "voice_command ok 4210ms | stt_stop 310 · upload 650 · first_tts_byte @3900"
+ */
+export const summarizeTrace = (trace: LatencyTrace): string => {
+  const phases = trace.spans
+    .map(span => span.durationMs
+      ? `${span.name} ${span.durationMs}`
+      : `${span.name} @${span.start}`)
+    .join(' · ');
+  return `${trace.kind} ${trace.status || 'active'} ${trace.durationMs ?? '?'}ms | ${phases || 'no spans'}`;
+};
+
+// Export singleton instance
+export const latencyTracer = new LatencyTracer();
@@ -0,0 +1,162 @@
+/**
+ * src/services/LocalCommandInterceptor.ts
+ *
+ * Short voice commands answered on the device
+ *
+ * "Stop", "repeat that", "speak slower" or "start over" need no photo
+ * and no backend. The final transcript is matched here first; a match
+ * runs a client action in App.tsx, anything else goes to the workflow.
+ *
+ * The grammar (LOCAL_COMMAND_CONFIG.INTENTS) lists the phrases for each
+ * intent. A transcript matches only if, after punctuation and filler
+ * words are dropped, it is exactly one of those phrases.
+ */
+
+import { LOCAL_COMMAND_CONFIG } from '../utils/constants';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LocalIntent = keyof typeof LOCAL_COMMAND_CONFIG.INTENTS;
+
+export type LocalGrammar = Record<LocalIntent, readonly string[]>;
+
+export interface LocalCommandMatch {
+  intent: LocalIntent;
+  phrase: string;        // Normalized phrase that matched
+  transcript: string;    // As heard
+}
+
+/**
+ * Lower case, no punctuation, single spaces ("What's that?" → "whats that")
+ */
+export const normalizeUtterance = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// =============================================================================
+// Interceptor
+// =============================================================================
+
+export class LocalCommandInterceptor {
+  private enabled: boolean = LOCAL_COMMAND_CONFIG.ENABLED;
+  private grammar: LocalGrammar = { ...LOCAL_COMMAND_CONFIG.INTENTS };
+  private phrases: Map<string, LocalIntent> = new Map();
+  private fillers: string[] = [];
+
+  constructor() {
+    this.setFillers(LOCAL_COMMAND_CONFIG.FILLERS);
+    this.index();
+  }
+
+  /**
+   * @returns The intent, or null when the transcript should go to the backend
+   */
+  match(transcript: string): LocalCommandMatch | null {
+    if (!this.enabled) {
+      return null;
+    }
+
+    // Recognizers often repeat a short word ("stop stop")
+    const words = normalizeUtterance(transcript)
+      .split(' ')
+      .filter((word, i, all) => word && word !== all[i - 1]);
+    if (words.length === 0 || words.length > LOCAL_COMMAND_CONFIG.MAX_WORDS) {
+      return null;
+    }
+
+    const phrase = this.stripFillers(words.join(' '));
+    const intent = this.phrases.get(phrase);
+    return intent ? { intent, phrase, transcript } : null;
+  }
+
+  /**
+   * Replace the phrases of the given intents; others keep theirs
+   */
+  setGrammar(grammar: Partial<LocalGrammar>): void {
+    this.grammar = { ...this.grammar, ...grammar };
+    this.index();
+  }
+
+  /**
+   * Extra phrases for one intent
+   */
+  addSynonyms(intent: LocalIntent, phrases: string[]): void {
+    this.setGrammar({ [intent]: [...this.grammar[intent], ...phrases] });
+  }
+
+  setFillers(fillers: readonly string[]): void {
+    // Multi-word fillers first
+    this.fillers = fillers
+      .map(normalizeUtterance)
+      .filter(Boolean)
+      .sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Back to LOCAL_COMMAND_CONFIG
+   */
+  resetGrammar(): void {
+    this.grammar = { ...LOCAL_COMMAND_CONFIG.INTENTS };
+    this.setFillers(LOCAL_COMMAND_CONFIG.FILLERS);
+    this.index();
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    console.log(`🏠 [LocalCommands] ${enabled ? 'Enabled' : 'Disabled'}`);
+  }
+
+  getGrammar(): LocalGrammar {
+    return { ...this.grammar };
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private index(): void {
+    this.phrases.clear();
+    (Object.keys(this.grammar) as LocalIntent[]).forEach(intent => {
+      this.grammar[intent].forEach(raw => {
+        const phrase = normalizeUtterance(raw);
+        const existing = this.phrases.get(phrase);
+        if (existing && existing !== intent) {
+          console.warn(`⚠️ [LocalCommands] "${phrase}" moved from ${existing} to ${intent}`);
+        }
+        if (phrase) {
+          this.phrases.set(phrase, intent);
+        }
+      });
+    });
+  }
+
+  private stripFillers(phrase: string): string {
+    let rest = phrase;
+    let stripped = true;
+    while (stripped && rest) {
+      stripped = false;
+      for (const filler of this.fillers) {
+        if (rest === filler) {
+          break;
+        }
+        if (rest.startsWith(`${filler} `)) {
+          rest = rest.slice(filler.length + 1);
+          stripped = true;
+        } else if (rest.endsWith(` ${filler}`)) {
+          rest = rest.slice(0, -(filler.length + 1));
+          stripped = true;
+        }
+      }
+    }
+    return rest;
+  }
+}
+
+// Export singleton instance
+export const localCommandInterceptor = new LocalCommandInterceptor();
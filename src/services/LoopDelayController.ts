@@ -0,0 +1,213 @@
+/**
+ * src/services/LoopDelayController.ts
+ *
+ * Adaptive pacing for the navigation / reaching loops
+ *
+ * The loop used to wait a fixed loopDelay, then a fixed camera
+ * reactivation delay, upload, speak, and wait a fixed TTS buffer. On a
+ * fast network that felt sluggish (the fixed parts dominate), on a slow
+ * one guidance piled up behind the round trip.
+ *
+ * The backend's loopDelay is now the target time between two spoken
+ * answers. After each iteration the controller works out when the next
+ * capture has to start for its answer to arrive on time:
+ *
+ *   wait = target - (time since the answer arrived, i.e. speech)
+ *                 - (expected capture time + expected round trip)
+ *
+ * - Capture and round-trip times are smoothed (EWMA) measurements
+ * - While the scene is unchanged the target grows by UNCHANGED_BACKOFF
+ *   per frame in a row; any change snaps it back
+ * - Never less than SPEECH_SETTLE_MS after speech, never a cycle shorter
+ *   than the backend's min_loop_delay_ms / MIN_REQUEST_INTERVAL_MS,
+ *   never longer than MAX_LOOP_DELAY_MS
+ *
+ * getTiming() returns the inputs and the decision for logs and traces.
+ */
+
+import { LOOP_TIMING_CONFIG, NAVIGATION_CONFIG } from '../utils/constants';
+import { capabilityService } from './CapabilityService';
+import { getCurrentLoopDelay } from './WorkflowService';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LoopTiming {
+  iteration: number;
+  targetMs: number;                // Backend loopDelay, after scene backoff
+  captureMs: number | null;        // Last iteration: start → request sent
+  roundTripMs: number | null;      // Last iteration: request sent → answer
+  speechMs: number | null;         // Last iteration: answer → speech done
+  avgCaptureMs: number | null;
+  avgRoundTripMs: number | null;
+  unchangedFrames: number;         // In a row
+  waitMs: number;                  // Chosen wait before the next iteration
+  reason: 'first' | 'cadence' | 'settle' | 'rate_limit' | 'max';
+}
+
+const smooth = (average: number | null, sample: number): number =>
+  average === null ? sample : average + LOOP_TIMING_CONFIG.SMOOTHING * (sample - average);
+
+// =============================================================================
+// Controller
+// =============================================================================
+
+class LoopDelayController {
+  private iteration = 0;
+  private iterationStart: number | null = null;
+  private requestSentAt: number | null = null;
+  private responseAt: number | null = null;
+  private speechEndAt: number | null = null;
+  private avgCaptureMs: number | null = null;
+  private avgRoundTripMs: number | null = null;
+  private unchangedFrames = 0;
+  private lastTiming: LoopTiming | null = null;
+
+  /**
+   * New loop: forget all measurements
+   */
+  start(): void {
+    this.iteration = 0;
+    this.iterationStart = null;
+    this.requestSentAt = null;
+    this.responseAt = null;
+    this.speechEndAt = null;
+    this.avgCaptureMs = null;
+    this.avgRoundTripMs = null;
+    this.unchangedFrames = 0;
+    this.lastTiming = null;
+  }
+
+  /**
+   * How long to wait before the next iteration starts
+   */
+  nextDelay(): number {
+    const now = Date.now();
+    const targetMs = this.getTarget();
+
+    const timing: LoopTiming = {
+      iteration: this.iteration,
+      targetMs,
+      captureMs: this.span(this.iterationStart, this.requestSentAt),
+      roundTripMs: this.span(this.requestSentAt, this.responseAt),
+      speechMs: this.span(this.responseAt, this.speechEndAt),
+      avgCaptureMs: this.avgCaptureMs,
+      avgRoundTripMs: this.avgRoundTripMs,
+      unchangedFrames: this.unchangedFrames,
+      waitMs: targetMs,
+      reason: 'first',
+    };
+
+    // First iteration: the initial answer was just spoken, wait the full target
+    if (this.iterationStart !== null) {
+      const sinceAnswer = this.responseAt !== null ? now - this.responseAt : 0;
+      const lead = (this.avgCaptureMs ?? 0) + (this.avgRoundTripMs ?? 0);
+      const cadence = targetMs - sinceAnswer - lead;
+
+      // Iteration start → next iteration start must respect the rate limits
+      const minCycle = Math.max(
+        capabilityService.getLimits().minLoopDelayMs,
+        NAVIGATION_CONFIG.MIN_REQUEST_INTERVAL_MS + LOOP_TIMING_CONFIG.RATE_MARGIN_MS
+      );
+      const rateFloor = minCycle - (now - this.iterationStart);
+
+      timing.waitMs = cadence;
+      timing.reason = 'cadence';
+      if (timing.waitMs < LOOP_TIMING_CONFIG.SPEECH_SETTLE_MS) {
+        timing.waitMs = LOOP_TIMING_CONFIG.SPEECH_SETTLE_MS;
+        timing.reason = 'settle';
+      }
+      if (timing.waitMs < rateFloor) {
+        timing.waitMs = rateFloor;
+        timing.reason = 'rate_limit';
+      }
+    }
+
+    if (timing.waitMs > NAVIGATION_CONFIG.MAX_LOOP_DELAY_MS) {
+      timing.waitMs = NAVIGATION_CONFIG.MAX_LOOP_DELAY_MS;
+      timing.reason = 'max';
+    }
+    timing.waitMs = Math.round(timing.waitMs);
+
+    this.lastTiming = timing;
+    console.log(`⏱️ [LoopTiming] Wait ${timing.waitMs}ms (${timing.reason})`, {
+      target: timing.targetMs,
+      capture: timing.captureMs,
+      roundTrip: timing.roundTripMs,
+      speech: timing.speechMs,
+      unchanged: timing.unchangedFrames,
+    });
+    return timing.waitMs;
+  }
+
+  /**
+   * Camera warm-up before a capture: full reactivation on the first
+   * iteration, a short settle once the camera has been running
+   */
+  getCameraWarmupMs(fullReactivationMs: number): number {
+    return this.iteration <= 1 ? fullReactivationMs : LOOP_TIMING_CONFIG.CAMERA_SETTLE_MS;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Measurements, in loop order
+  // ---------------------------------------------------------------------------
+
+  beginIteration(): void {
+    this.iteration++;
+    this.iterationStart = Date.now();
+    this.requestSentAt = null;
+    this.responseAt = null;
+    this.speechEndAt = null;
+  }
+
+  recordSceneChange(changed: boolean): void {
+    this.unchangedFrames = changed ? 0 : this.unchangedFrames + 1;
+  }
+
+  markRequestSent(): void {
+    this.requestSentAt = Date.now();
+    const captureMs = this.span(this.iterationStart, this.requestSentAt);
+    if (captureMs !== null) {
+      this.avgCaptureMs = smooth(this.avgCaptureMs, captureMs);
+    }
+  }
+
+  /**
+   * @param uploaded - false for image-less heartbeats (not a representative round trip)
+   */
+  markResponse(uploaded: boolean = true): void {
+    this.responseAt = Date.now();
+    const roundTripMs = this.span(this.requestSentAt, this.responseAt);
+    if (uploaded && roundTripMs !== null) {
+      this.avgRoundTripMs = smooth(this.avgRoundTripMs, roundTripMs);
+    }
+  }
+
+  markSpeechEnd(): void {
+    this.speechEndAt = Date.now();
+  }
+
+  /**
+   * The last decision, for logs / latency traces
+   */
+  getTiming(): LoopTiming | null {
+    return this.lastTiming;
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private getTarget(): number {
+    const backoff = Math.pow(LOOP_TIMING_CONFIG.UNCHANGED_BACKOFF, this.unchangedFrames);
+    return Math.min(NAVIGATION_CONFIG.MAX_LOOP_DELAY_MS, capabilityService.clampLoopDelay(getCurrentLoopDelay() * backoff));
+  }
+
+  private span(from: number | null, to: number | null): number | null {
+    return from !== null && to !== null ? to - from : null;
+  }
+}
+
+// Export singleton instance
+export const loopDelayController = new LoopDelayController();
@@ -0,0 +1,383 @@
+/**
+ * src/services/OfflineRequestQueue.ts
+ *
+ * Persistent offline queue for workflow requests
+ *
+ * Shoppers lose signal in supermarket aisles all the time. When a
+ * one-shot request fails with a network error, the spoken question and
+ * its photo are saved on-device instead of being lost:
+ *
+ * - Transcript, photo (copied out of the camera cache), flags and
+ *   session_id are persisted to <DocumentDirectory>/shelfscout
+ * - The queue retries with increasing intervals and whenever the app
+ *   returns to the foreground, which picks up restored connectivity
+ * - Answers are handed to listeners so the UI can speak them
+ * - Continuous-mode iterations (navigation / reaching, or any registry
+ *   action) are never queued: replaying a stale frame minutes later
+ *   would give wrong guidance
+ *
+ * The queue does not know how to talk to the backend. WorkflowService
+ * registers a sender with setSender().
+ */
+
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import RNFS from 'react-native-fs';
+import { OFFLINE_QUEUE_CONFIG } from '../utils/constants';
+import { WorkflowRequest, WorkflowResponse } from '../utils/types';
+import { ensureStorageDir, readJSON, writeJSON, removeFile } from '../utils/storage';
+import { WorkflowError } from './WorkflowErrors';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface QueuedWorkflowRequest {
+  id: string;
+  /** Original request_id, reused on replay so the backend can dedupe */
+  request_id?: string;
+  transcript: string;
+  /** Copy of the photo inside the queue directory ('' for voice-only) */
+  photoPath: string;
+  navigation: boolean;
+  reaching_flag: boolean;
+  session_id: string;
+  createdAt: number;
+  attempts: number;
+  lastAttemptAt: number;
+}
+
+export type QueuedRequestSender = (item: QueuedWorkflowRequest) => Promise<WorkflowResponse>;
+
+export type QueuedAnswerListener = (item: QueuedWorkflowRequest, response: WorkflowResponse) => void;
+
+/**
+ * Thrown by sendToWorkflow when a request could not be sent but was
+ * saved for later. Callers should not treat it as a failure.
+ */
+export class OfflineQueuedError extends WorkflowError {
+  readonly item: QueuedWorkflowRequest;
+
+  constructor(item: QueuedWorkflowRequest, cause?: unknown) {
+    const message = 'You are offline. Your question was saved and will be answered when the connection returns.';
+    super('offline_queued', message, { userMessage: message, cause });
+    this.name = 'OfflineQueuedError';
+    this.item = item;
+  }
+}
+
+const QUEUE_FILE = 'offline-queue.json';
+const PHOTO_DIR = 'offline-photos';
+
+// =============================================================================
+// Queue
+// =============================================================================
+
+class OfflineRequestQueue {
+  private items: QueuedWorkflowRequest[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private persistChain: Promise<void> = Promise.resolve();
+  private sender: QueuedRequestSender | null = null;
+  private canDeliver: () => boolean = () => true;
+  private listeners: Set<QueuedAnswerListener> = new Set();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryInterval: number = OFFLINE_QUEUE_CONFIG.RETRY_INTERVAL_MS;
+  private isFlushing: boolean = false;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  /**
+   * Load persisted items and begin retrying. Safe to call more than once.
+   */
+  async start(): Promise<void> {
+    await this.load();
+
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    }
+
+    if (this.items.length > 0) {
+      console.log(`📥 [OfflineQueue] ${this.items.length} request(s) waiting from last session`);
+      this.scheduleRetry(0);
+    }
+  }
+
+  /**
+   * Stop retrying (items stay persisted)
+   */
+  stop(): void {
+    this.clearRetryTimer();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+
+  /**
+   * Register the function that actually sends a queued request
+   */
+  setSender(sender: QueuedRequestSender): void {
+    this.sender = sender;
+  }
+
+  /**
+   * Only flush while this returns true (e.g. app idle, nothing speaking),
+   * so a late answer never talks over the current interaction
+   */
+  setDeliveryGate(gate: () => boolean): void {
+    this.canDeliver = gate;
+  }
+
+  /**
+   * Subscribe to answers for queued requests
+   *
+   * @returns unsubscribe function
+   */
+  onAnswer(listener: QueuedAnswerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Save a failed request for later
+   *
+   * @returns the queued item, or null if the request must not be replayed
+   */
+  async enqueue(request: WorkflowRequest, sessionId: string): Promise<QueuedWorkflowRequest | null> {
+    if (!OFFLINE_QUEUE_CONFIG.ENABLED) {
+      return null;
+    }
+
+    if (request.navigation === true || request.reaching_flag === true || !!request.action) {
+      console.log('🗑️ [OfflineQueue] Dropping continuous-mode iteration (stale when replayed)');
+      return null;
+    }
+
+    if (!request.text || !request.text.trim()) {
+      return null;
+    }
+
+    await this.load();
+
+    const id = `offline-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const photoPath = await this.persistPhoto(id, request.imageUri);
+
+    const item: QueuedWorkflowRequest = {
+      id,
+      request_id: request.request_id,
+      transcript: request.text.trim(),
+      photoPath,
+      navigation: false,
+      reaching_flag: false,
+      session_id: sessionId,
+      createdAt: Date.now(),
+      attempts: 0,
+      lastAttemptAt: 0,
+    };
+
+    this.items.push(item);
+
+    // Keep the newest questions if the queue overflows
+    while (this.items.length > OFFLINE_QUEUE_CONFIG.MAX_ITEMS) {
+      const dropped = this.items.shift()!;
+      console.log('🗑️ [OfflineQueue] Queue full, dropping oldest:', dropped.id);
+      await removeFile(dropped.photoPath);
+    }
+
+    await this.persist();
+    console.log(`📥 [OfflineQueue] Queued "${item.transcript.substring(0, 40)}" (${this.items.length} waiting)`);
+
+    this.retryInterval = OFFLINE_QUEUE_CONFIG.RETRY_INTERVAL_MS;
+    this.scheduleRetry(this.retryInterval);
+
+    return item;
+  }
+
+  /**
+   * Try to send every queued request, oldest first
+   *
+   * Stops at the first failure (still offline) and reschedules.
+   *
+   * @returns number of requests answered
+   */
+  async flush(): Promise<number> {
+    if (this.isFlushing || !this.sender) {
+      return 0;
+    }
+
+    await this.load();
+    await this.dropExpired();
+
+    if (this.items.length === 0) {
+      this.clearRetryTimer();
+      return 0;
+    }
+
+    if (!this.canDeliver()) {
+      console.log('⏸️ [OfflineQueue] App busy, delaying flush');
+      this.scheduleRetry(OFFLINE_QUEUE_CONFIG.RETRY_INTERVAL_MS);
+      return 0;
+    }
+
+    this.isFlushing = true;
+    let answered = 0;
+
+    try {
+      while (this.items.length > 0 && this.canDeliver()) {
+        const item = this.items[0];
+        item.attempts++;
+        item.lastAttemptAt = Date.now();
+
+        try {
+          console.log(`📤 [OfflineQueue] Retrying ${item.id} (attempt ${item.attempts})`);
+          const response = await this.sender(item);
+
+          this.items.shift();
+          await removeFile(item.photoPath);
+          await this.persist();
+          answered++;
+
+          this.listeners.forEach(listener => {
+            try {
+              listener(item, response);
+            } catch (error) {
+              console.error('❌ [OfflineQueue] Answer listener failed:', error);
+            }
+          });
+        } catch (error) {
+          console.warn(`⚠️ [OfflineQueue] ${item.id} still failing:`, error);
+
+          if (item.attempts >= OFFLINE_QUEUE_CONFIG.MAX_ATTEMPTS) {
+            console.log('🗑️ [OfflineQueue] Giving up on', item.id);
+            this.items.shift();
+            await removeFile(item.photoPath);
+          }
+          await this.persist();
+          break;
+        }
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+
+    if (this.items.length > 0) {
+      // Back off while we stay offline
+      this.retryInterval = answered > 0
+        ? OFFLINE_QUEUE_CONFIG.RETRY_INTERVAL_MS
+        : Math.min(this.retryInterval * 2, OFFLINE_QUEUE_CONFIG.MAX_RETRY_INTERVAL_MS);
+      this.scheduleRetry(this.retryInterval);
+    } else {
+      this.retryInterval = OFFLINE_QUEUE_CONFIG.RETRY_INTERVAL_MS;
+      this.clearRetryTimer();
+    }
+
+    return answered;
+  }
+
+  size(): number {
+    return this.items.length;
+  }
+
+  getItems(): QueuedWorkflowRequest[] {
+    return [...this.items];
+  }
+
+  /**
+   * Remove everything (e.g. when the user starts over)
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    for (const item of this.items) {
+      await removeFile(item.photoPath);
+    }
+    this.items = [];
+    this.clearRetryTimer();
+    await this.persist();
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const stored = await readJSON<QueuedWorkflowRequest[]>(QUEUE_FILE, []);
+        // Never replay continuous iterations, even if an old build saved them
+        this.items = stored.filter(item => !item.navigation && !item.reaching_flag);
+        await this.dropExpired();
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Writes are chained so enqueue and flush never race on the temp file
+   */
+  private persist(): Promise<void> {
+    this.persistChain = this.persistChain.then(async () => {
+      try {
+        await writeJSON(QUEUE_FILE, this.items);
+      } catch (error) {
+        // Keep going in memory - better than losing the question entirely
+        console.warn('⚠️ [OfflineQueue] Could not persist queue:', error);
+      }
+    });
+    return this.persistChain;
+  }
+
+  private async persistPhoto(id: string, imageUri: string): Promise<string> {
+    if (!imageUri) {
+      return '';
+    }
+
+    try {
+      const dir = await ensureStorageDir(PHOTO_DIR);
+      const source = imageUri.replace('file://', '');
+      const target = `${dir}/${id}.jpg`;
+      await RNFS.copyFile(source, target);
+      return target;
+    } catch (error) {
+      // Camera cache files can vanish; queue voice-only rather than fail
+      console.warn('⚠️ [OfflineQueue] Could not copy photo, queuing voice-only:', error);
+      return '';
+    }
+  }
+
+  private async dropExpired(): Promise<void> {
+    const now = Date.now();
+    const fresh = this.items.filter(item => now - item.createdAt <= OFFLINE_QUEUE_CONFIG.MAX_AGE_MS);
+
+    if (fresh.length !== this.items.length) {
+      const expired = this.items.filter(item => !fresh.includes(item));
+      console.log(`🗑️ [OfflineQueue] Dropping ${expired.length} expired request(s)`);
+      this.items = fresh;
+      await this.persist();
+      await Promise.all(expired.map(item => removeFile(item.photoPath)));
+    }
+  }
+
+  private scheduleRetry(delay: number): void {
+    this.clearRetryTimer();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private handleAppStateChange = (state: AppStateStatus): void => {
+    if (state === 'active' && this.items.length > 0) {
+      console.log('📶 [OfflineQueue] App active, retrying queued requests');
+      this.retryInterval = OFFLINE_QUEUE_CONFIG.RETRY_INTERVAL_MS;
+      this.scheduleRetry(0);
+    }
+  };
+}
+
+// Export singleton instance
+export const offlineQueue = new OfflineRequestQueue();
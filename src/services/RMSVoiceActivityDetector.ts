@@ -94,6 +94,45 @@ interface VADConfig {
    * Recommendation: 100ms (10 times per second)
    */
   monitoringIntervalMs: number;
+
+  /**
+   * How long the level must stay above the speech threshold before
+   * speech counts as started
+   *
+   * 0 = the first loud frame. Barge-in uses ~400ms so a cough, a door
+   * or a loud syllable of our own playback does not interrupt.
+   */
+  minSpeechMs: number;
+
+  /**
+   * Echo-aware thresholds while our own audio plays (0 = off)
+   *
+   * The speaker leaks into the microphone. With a margin set, speech
+   * must also be this many dB above the loudest recent echo (90th
+   * percentile of the last echoWindowMs). Frames of sustained speech
+   * are left out of the echo estimate; short loud bursts that never
+   * became speech are counted as echo.
+   */
+  echoMarginDb: number;
+
+  /**
+   * Window for the echo estimate
+   */
+  echoWindowMs: number;
+
+  /**
+   * No speech is reported until the echo has been measured this long
+   */
+  echoCalibrationMs: number;
+
+  /**
+   * Where levels come from
+   *
+   * - 'sound-level': react-native-sound-level (default)
+   * - 'external': the caller already records the microphone and passes
+   *   each frame's level to pushLevel() (one microphone user at a time)
+   */
+  levelSource: 'sound-level' | 'external';
 }
 
 // Default configuration based on industry standards
@@ -103,8 +142,15 @@ const DEFAULT_CONFIG: VADConfig = {
   speechThresholdDb: Platform.OS === 'ios' ? -35 : -40,  // Platform-specific
   silenceThresholdDb: Platform.OS === 'ios' ? -42 : -47, // 7dB below speech (proper hysteresis)
   monitoringIntervalMs: 100,       // 10 Hz sampling
+  minSpeechMs: 0,                  // Report speech on the first loud frame
+  echoMarginDb: 0,                 // No playback to account for
+  echoWindowMs: 3000,
+  echoCalibrationMs: 800,
+  levelSource: 'sound-level',
 };
 
+const ECHO_PERCENTILE = 0.9;
+
 // ============================================================================
 // VAD State Machine
 // ============================================================================
@@ -141,6 +187,11 @@ export class RMSVoiceActivityDetector {
   // Adaptive noise floor for noisy environments
   private noiseFloor: number = -60; // Baseline
   private recentRMS: number[] = []; // Track last 20 samples (2 seconds)
+
+  // Echo-aware mode (echoMarginDb > 0)
+  private startedAt: number = 0;
+  private echoLevels: Array<{ at: number; db: number }> = [];
+  private speechCandidate: Array<{ at: number; db: number }> = [];
   
   constructor(config?: Partial<VADConfig>) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -175,6 +226,9 @@ export class RMSVoiceActivityDetector {
       this.isMonitoring = true;
       this.state = VADState.LISTENING;
       this.lastSpeechTimestamp = Date.now();
+      this.startedAt = Date.now();
+      this.echoLevels = [];
+      this.speechCandidate = [];
       
       console.log('✅ VAD monitoring started');
     } catch (error) {
@@ -214,6 +268,15 @@ export class RMSVoiceActivityDetector {
     console.log('🔧 VAD config updated:', this.config);
   }
   
+  /**
+   * Feed one frame's level (dBFS) when levelSource is 'external'
+   */
+  pushLevel(rmsDb: number): void {
+    if (this.config.levelSource === 'external') {
+      this.handleAudioFrame({ id: 0, value: rmsDb, rawValue: rmsDb });
+    }
+  }
+
   /**
    * Get current state
    */
@@ -226,6 +289,10 @@ export class RMSVoiceActivityDetector {
   // ==========================================================================
   
   private async initializeRMSMonitoring(): Promise<void> {
+    if (this.config.levelSource === 'external') {
+      return;   // Levels arrive through pushLevel()
+    }
+
     // For React Native, we need to use a native audio monitoring library
     // Options:
     // 1. react-native-sound-level - Simple RMS monitoring
@@ -307,12 +374,37 @@ export class RMSVoiceActivityDetector {
       this.noiseFloor + 3 // Silence is 3dB above noise floor
     );
     
+    // While our own audio plays, speech must also be louder than its echo
+    const echoThreshold = this.getEchoThreshold();
+    
     return {
-      speechThreshold: adaptiveSpeechThreshold,
-      silenceThreshold: adaptiveSilenceThreshold
+      speechThreshold: Math.max(adaptiveSpeechThreshold, echoThreshold),
+      silenceThreshold: Math.max(adaptiveSilenceThreshold, echoThreshold - (this.config.speechThresholdDb - this.config.silenceThresholdDb))
     };
   }
   
+  /**
+   * Loudest recent echo + margin (-Infinity when echo-aware mode is off)
+   */
+  private getEchoThreshold(): number {
+    if (this.config.echoMarginDb <= 0 || this.echoLevels.length === 0) {
+      return -Infinity;
+    }
+    
+    const sorted = this.echoLevels.map(level => level.db).sort((a, b) => a - b);
+    const peak = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * ECHO_PERCENTILE))];
+    return peak + this.config.echoMarginDb;
+  }
+  
+  private trackEcho(levels: Array<{ at: number; db: number }>, now: number): void {
+    if (this.config.echoMarginDb <= 0) {
+      return;
+    }
+    
+    this.echoLevels = [...this.echoLevels, ...levels]
+      .filter(level => now - level.at <= this.config.echoWindowMs);
+  }
+  
   /**
    * Process each audio frame
    * This is called ~10 times per second (100ms interval)
@@ -334,12 +426,29 @@ export class RMSVoiceActivityDetector {
     
     // State machine logic with adaptive thresholds
     switch (this.state) {
-      case VADState.LISTENING:
-        // Waiting for speech to start
-        if (rmsDb > speechThreshold) {
-          this.handleSpeechDetected(now);
+      case VADState.LISTENING: {
+        // Waiting for speech to start; it must last minSpeechMs
+        if (rmsDb <= speechThreshold) {
+          // A burst that did not last was (most likely) echo
+          this.trackEcho([...this.speechCandidate, { at: now, db: rmsDb }], now);
+          this.speechCandidate = [];
+          break;
+        }
+        
+        this.speechCandidate.push({ at: now, db: rmsDb });
+        const calibrating = this.config.echoMarginDb > 0 &&
+          now - this.startedAt < this.config.echoCalibrationMs;
+        
+        if (calibrating) {
+          this.trackEcho(this.speechCandidate, now);
+          this.speechCandidate = [];
+        } else if (now - this.speechCandidate[0].at >= this.config.minSpeechMs) {
+          const onset = this.speechCandidate[0].at;
+          this.speechCandidate = [];
+          this.handleSpeechDetected(onset);
         }
         break;
+      }
         
       case VADState.SPEAKING:
         // Speech is active
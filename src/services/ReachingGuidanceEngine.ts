@@ -0,0 +1,242 @@
+/**
+ * src/services/ReachingGuidanceEngine.ts
+ *
+ * Continuous audio / haptic reaching guidance without the native module
+ *
+ * On Android ReachingBridge is a stub, so the reaching loop only had the
+ * backend's spoken sentence every few seconds. This engine plays the
+ * same cues as the iOS FeedbackProcessor between those sentences: a bip
+ * panned towards the target, pitched up when it is above the center,
+ * repeating faster as it grows in the frame (src/utils/reachingGuidance).
+ *
+ * The reaching action feeds it each iteration's bbox (update), keeps the
+ * target across frame_unchanged heartbeats (keep) and stops it in its
+ * cleanup. Entering / leaving the center plays the centered / uncentered
+ * sounds with a vibration; no bbox, or none for TARGET_TIMEOUT_MS, stops
+ * the bips until the target is found again.
+ *
+ * Sounds are the iOS module's wav files (res/raw on Android). If they do
+ * not load, centering is still signalled by vibration.
+ */
+
+import { Platform, Vibration } from 'react-native';
+import Sound from 'react-native-sound';
+import { REACHING_GUIDANCE_CONFIG } from '../utils/constants';
+import { computeGuidanceCue, GuidanceCue } from '../utils/reachingGuidance';
+import { ReachingTarget } from '../utils/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type GuidanceSound = 'bip' | 'centered' | 'uncentered' | 'lost';
+
+const SOUND_FILES: Record<GuidanceSound, string> = {
+  bip: 'bip.wav',
+  centered: 'centered_sound.wav',
+  uncentered: 'uncentered_sound.wav',
+  lost: Platform.OS === 'ios' ? 'targetLost.wav' : 'target_lost.wav',
+};
+
+const CENTERED_VIBRATION = [0, 60, 60, 60];
+
+// =============================================================================
+// Engine
+// =============================================================================
+
+class ReachingGuidanceEngine {
+  private sounds: Partial<Record<GuidanceSound, Sound>> = {};
+  private loading: Promise<void> | null = null;
+  private cue: GuidanceCue | null = null;
+  private object: string | null = null;
+  private lastTargetAt = 0;
+  private bipTimer: ReturnType<typeof setTimeout> | null = null;
+  private active = false;
+
+  isAvailable(): boolean {
+    return REACHING_GUIDANCE_CONFIG.ENABLED && REACHING_GUIDANCE_CONFIG.PLATFORMS.includes(Platform.OS);
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * New target position from a reaching iteration
+   *
+   * @param target - null when the response had no usable bbox (target lost)
+   */
+  async update(target: ReachingTarget | null): Promise<void> {
+    if (!this.isAvailable()) {
+      return;
+    }
+
+    if (!this.active) {
+      this.active = true;
+      console.log('🎯 [ReachingGuidance] Started');
+      await this.loadSounds();
+      if (!this.active) {
+        return;   // Stopped while loading
+      }
+    }
+
+    if (!target) {
+      this.loseTarget('no bbox');
+      return;
+    }
+
+    const previous = this.cue;
+    const cue = computeGuidanceCue(target.normalized, previous?.centered ?? false);
+    this.cue = cue;
+    this.object = target.object;
+    this.lastTargetAt = Date.now();
+
+    console.log(`🎯 [ReachingGuidance] ${target.object}: ${cue.direction}`, {
+      pan: cue.pan,
+      pitchCents: cue.pitchCents,
+      intervalMs: cue.intervalMs,
+      proximity: cue.proximity,
+    });
+
+    if (cue.centered && !previous?.centered) {
+      this.play('centered');
+      this.vibrate(CENTERED_VIBRATION);
+    } else if (!cue.centered && previous?.centered) {
+      this.play('uncentered');
+    }
+
+    if (!this.bipTimer) {
+      this.scheduleBip(0);
+    }
+  }
+
+  /**
+   * The frame was unchanged (heartbeat): the last target still holds
+   */
+  keep(): void {
+    if (this.active && this.cue) {
+      this.lastTargetAt = Date.now();
+    }
+  }
+
+  /**
+   * Silence everything and release the sounds (loop stopped / switched)
+   */
+  stop(reason: string = 'stopped'): void {
+    if (!this.active) {
+      return;
+    }
+    console.log(`🎯 [ReachingGuidance] Stopped (${reason})`);
+
+    this.active = false;
+    this.clearBipTimer();
+    this.cue = null;
+    this.object = null;
+    this.lastTargetAt = 0;
+
+    Object.values(this.sounds).forEach(sound => {
+      sound?.stop();
+      sound?.release();
+    });
+    this.sounds = {};
+    this.loading = null;
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private scheduleBip(delayMs: number): void {
+    this.clearBipTimer();
+    this.bipTimer = setTimeout(() => this.bip(), delayMs);
+  }
+
+  private clearBipTimer(): void {
+    if (this.bipTimer) {
+      clearTimeout(this.bipTimer);
+      this.bipTimer = null;
+    }
+  }
+
+  private bip(): void {
+    this.bipTimer = null;
+    const cue = this.cue;
+    if (!this.active || !cue) {
+      return;
+    }
+
+    if (Date.now() - this.lastTargetAt > REACHING_GUIDANCE_CONFIG.TARGET_TIMEOUT_MS) {
+      this.loseTarget('timeout');
+      return;
+    }
+
+    const sound = this.sounds.bip;
+    if (sound) {
+      sound.setVolume(REACHING_GUIDANCE_CONFIG.VOLUME);
+      sound.setPan(cue.pan);
+      sound.setPitch(cue.pitchRate);   // Ignored on iOS
+      sound.setCurrentTime(0);
+      sound.play();
+    }
+    if (cue.centered || !sound) {
+      this.vibrate(REACHING_GUIDANCE_CONFIG.HAPTIC_MS);
+    }
+
+    this.scheduleBip(cue.intervalMs);
+  }
+
+  private loseTarget(reason: string): void {
+    this.clearBipTimer();
+    if (!this.cue) {
+      return;
+    }
+    console.log(`🎯 [ReachingGuidance] Lost ${this.object || 'target'} (${reason}), was ${this.cue.direction}`);
+    this.cue = null;
+    this.play('lost');
+  }
+
+  private play(name: GuidanceSound): void {
+    const sound = this.sounds[name];
+    if (sound) {
+      sound.setCurrentTime(0);
+      sound.play();
+    }
+  }
+
+  private vibrate(pattern: number | number[]): void {
+    try {
+      Vibration.vibrate(pattern);
+    } catch (error: any) {
+      // Haptics are supplementary
+      console.warn('⚠️ [ReachingGuidance] Vibration not available:', error.message);
+    }
+  }
+
+  private loadSounds(): Promise<void> {
+    if (!this.loading) {
+      this.loading = Promise.all(
+        (Object.keys(SOUND_FILES) as GuidanceSound[]).map(name => this.loadSound(name))
+      ).then(() => undefined);
+    }
+    return this.loading;
+  }
+
+  private loadSound(name: GuidanceSound): Promise<void> {
+    return new Promise(resolve => {
+      const sound = new Sound(SOUND_FILES[name], Sound.MAIN_BUNDLE, error => {
+        if (error) {
+          console.warn(`⚠️ [ReachingGuidance] Could not load ${SOUND_FILES[name]}:`, error);
+          sound.release();
+        } else if (!this.active) {
+          sound.release();   // Stopped while loading
+        } else {
+          this.sounds[name] = sound;
+        }
+        resolve();
+      });
+    });
+  }
+}
+
+// Export singleton instance
+export const reachingGuidanceEngine = new ReachingGuidanceEngine();
@@ -0,0 +1,171 @@
+/**
+ * src/services/RetryPolicy.ts
+ *
+ * Retry policy for backend requests
+ *
+ * - Exponential backoff with full jitter (delay = random(0, min(max, base * 2^n)))
+ * - Per-request retry budget: max attempts AND max total elapsed time
+ * - Only transient failures are retried: timeouts, network drops, 429, 5xx
+ * - Every wait is cancellable through the request's AbortSignal, so a tap
+ *   or the emergency stop ends the retry loop immediately
+ */
+
+import axios from 'axios';
+import { RETRY_CONFIG } from '../utils/constants';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RetryPolicy {
+  /** Total attempts including the first one */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Give up when the next retry would start after this many ms */
+  budgetMs: number;
+}
+
+export interface RetryOptions {
+  policy?: Partial<RetryPolicy>;
+  signal?: AbortSignal;
+  /** Extra stop condition checked before every retry */
+  shouldAbort?: () => boolean;
+  /** Called before waiting for the next attempt */
+  onRetry?: (info: { attempt: number; delayMs: number; error: any }) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: RETRY_CONFIG.MAX_ATTEMPTS,
+  baseDelayMs: RETRY_CONFIG.BASE_DELAY_MS,
+  maxDelayMs: RETRY_CONFIG.MAX_DELAY_MS,
+  budgetMs: RETRY_CONFIG.BUDGET_MS,
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Backoff delay before the given retry (attempt 1 = first retry)
+ */
+export const computeBackoffDelay = (
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random
+): number => {
+  const exponential = policy.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1));
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return Math.round(random() * capped);
+};
+
+const isCancellation = (error: any): boolean =>
+  axios.isCancel(error) ||
+  error?.code === 'ERR_CANCELED' ||
+  error?.name === 'AbortError' ||
+  (typeof error?.message === 'string' && error.message.toLowerCase().includes('cancel'));
+
+/**
+ * Whether a failed request is worth repeating
+ */
+export const isRetryableError = (error: any): boolean => {
+  if (!error || isCancellation(error)) {
+    return false;
+  }
+
+  if (typeof error.retryable === 'boolean') {
+    return error.retryable;
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' || error.code === 'ERR_NETWORK') {
+      return true;
+    }
+    const status = error.response?.status;
+    if (status !== undefined) {
+      return status === 408 || status === 429 || (status >= 500 && status !== 501);
+    }
+    return !error.response;
+  }
+
+  return false;
+};
+
+/**
+ * Wait, but wake up early (rejecting) if the signal aborts
+ */
+export const sleepWithSignal = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request cancelled'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request cancelled'));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort);
+  });
+
+// =============================================================================
+// Retry loop
+// =============================================================================
+
+/**
+ * Run an operation with retries
+ *
+ * @param operation - Receives the 1-based attempt number
+ * @returns The first successful result
+ * @throws The last error once the policy gives up
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> => {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.policy };
+  const startedAt = Date.now();
+  let attempt = 0;
+
+  while (true) {
+    attempt++;
+
+    try {
+      return await operation(attempt);
+    } catch (error: any) {
+      const aborted = options.signal?.aborted || options.shouldAbort?.();
+      if (aborted || !isRetryableError(error) || attempt >= policy.maxAttempts) {
+        throw error;
+      }
+
+      const delayMs = computeBackoffDelay(attempt, policy);
+      if (Date.now() - startedAt + delayMs > policy.budgetMs) {
+        console.warn(`⚠️ [Retry] Budget of ${policy.budgetMs}ms exhausted after ${attempt} attempt(s)`);
+        throw error;
+      }
+
+      console.warn(`🔁 [Retry] Attempt ${attempt} failed (${error?.code || error?.message}), retrying in ${delayMs}ms`);
+      options.onRetry?.({ attempt, delayMs, error });
+
+      await sleepWithSignal(delayMs, options.signal);
+
+      if (options.shouldAbort?.()) {
+        throw new Error('Request cancelled');
+      }
+    }
+  }
+};
+
+export default {
+  DEFAULT_RETRY_POLICY,
+  computeBackoffDelay,
+  isRetryableError,
+  sleepWithSignal,
+  withRetry,
+};
@@ -0,0 +1,277 @@
+/**
+ * src/services/SessionManager.ts
+ *
+ * Persistent conversation sessions
+ *
+ * The session_id sent with every workflow request is what lets the
+ * backend remember earlier turns. It used to be a module-level UUID,
+ * lost on every restart or crash. Now:
+ *
+ * - The current session is persisted and restored on launch, unless it
+ *   has been idle for longer than SESSION_CONFIG.EXPIRY_MS
+ * - Past sessions are kept in a local history (newest first)
+ * - "New conversation" and "continue last conversation" are explicit
+ *   actions, and each start / end / resume is reported to the backend
+ * - Only those actions, a backend switch and expiry start a new session;
+ *   ending a continuous loop does not
+ *
+ * The manager does not talk to the backend itself. WorkflowService
+ * registers a sender with setEventSender().
+ */
+
+import { SESSION_CONFIG } from '../utils/constants';
+import { SessionEndReason, SessionEvent, SessionRecord } from '../utils/types';
+import { readJSON, writeJSON } from '../utils/storage';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SessionEventSender = (
+  event: SessionEvent,
+  session: SessionRecord,
+  reason?: SessionEndReason
+) => Promise<void>;
+
+export type SessionChangeListener = (session: SessionRecord, event: SessionEvent) => void;
+
+interface StoredSessions {
+  current: SessionRecord | null;
+  history: SessionRecord[];
+}
+
+const SESSIONS_FILE = 'sessions.json';
+const TITLE_LENGTH = 80;
+
+const generateSessionId = (): string => {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = Math.random() * 16 | 0;
+    const v = c === 'x' ? r : (r & 0x3 | 0x8);
+    return v.toString(16);
+  });
+};
+
+const createSession = (): SessionRecord => {
+  const now = Date.now();
+  return {
+    id: generateSessionId(),
+    startedAt: now,
+    lastActiveAt: now,
+    turnCount: 0,
+  };
+};
+
+// =============================================================================
+// Manager
+// =============================================================================
+
+class SessionManager {
+  // Usable immediately; replaced by the restored session in load()
+  private current: SessionRecord = createSession();
+  private history: SessionRecord[] = [];
+  private loadPromise: Promise<SessionRecord> | null = null;
+  private eventSender: SessionEventSender | null = null;
+  private listeners: Set<SessionChangeListener> = new Set();
+  private lastRequestId: string | null = null;
+  private persistChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Restore the persisted session (or start a new one if it expired).
+   * Safe to call more than once.
+   */
+  load(): Promise<SessionRecord> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const stored = await readJSON<StoredSessions>(SESSIONS_FILE, { current: null, history: [] });
+        // Sessions ended before load() come first
+        const storedHistory = Array.isArray(stored.history) ? stored.history : [];
+        this.history = [
+          ...this.history,
+          ...storedHistory.filter(session => !this.history.some(s => s.id === session.id)),
+        ].slice(0, SESSION_CONFIG.MAX_HISTORY);
+
+        const previous = stored.current;
+        const isFresh = previous && !previous.endedAt &&
+          Date.now() - previous.lastActiveAt <= SESSION_CONFIG.EXPIRY_MS;
+
+        if (previous && isFresh && this.current.turnCount === 0) {
+          this.current = previous;
+          console.log(`♻️ [Session] Restored ${previous.id} (${previous.turnCount} turns)`);
+          this.emit('session_resume', this.current);
+        } else {
+          if (previous && !previous.endedAt) {
+            this.endSession(previous, isFresh ? 'replaced' : 'expired');
+          }
+          console.log('📱 [Session] Started:', this.current.id);
+          this.emit('session_start', this.current);
+        }
+
+        await this.write();
+        return this.current;
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  getSessionId(): string {
+    return this.current.id;
+  }
+
+  getCurrentSession(): SessionRecord {
+    return { ...this.current };
+  }
+
+  /**
+   * Past sessions, newest first
+   */
+  getHistory(): SessionRecord[] {
+    return [...this.history];
+  }
+
+  /**
+   * Record activity on the current session
+   *
+   * @param transcript - The user's question (counts as a turn)
+   * @param requestId - Retries / fallbacks of one request count once
+   */
+  touch(transcript?: string, requestId?: string): void {
+    this.current.lastActiveAt = Date.now();
+
+    const isNewRequest = !requestId || requestId !== this.lastRequestId;
+    if (transcript && transcript.trim() && isNewRequest) {
+      this.current.turnCount++;
+      if (!this.current.title) {
+        this.current.title = transcript.trim().substring(0, TITLE_LENGTH);
+      }
+    }
+    if (requestId) {
+      this.lastRequestId = requestId;
+    }
+
+    this.persist();
+  }
+
+  /**
+   * End the current session and start a fresh one
+   */
+  startNewSession(reason: SessionEndReason = 'user_new_conversation'): SessionRecord {
+    this.endSession(this.current, reason);
+
+    this.current = createSession();
+    this.lastRequestId = null;
+    console.log(`🔄 [Session] New session ${this.current.id} (${reason})`);
+
+    this.emit('session_start', this.current);
+    this.persist();
+    return this.current;
+  }
+
+  /**
+   * Reopen the most recent past session
+   *
+   * @returns the resumed session, or null if there is no history
+   */
+  continueLastSession(): SessionRecord | null {
+    const last = this.history[0];
+    if (!last) {
+      console.log('ℹ️ [Session] No previous session to continue');
+      return null;
+    }
+
+    this.history.shift();
+    this.endSession(this.current, 'replaced');
+
+    this.current = {
+      ...last,
+      endedAt: undefined,
+      endReason: undefined,
+      lastActiveAt: Date.now(),
+    };
+    this.lastRequestId = null;
+    console.log(`♻️ [Session] Continuing ${this.current.id} (${this.current.turnCount} turns)`);
+
+    this.emit('session_resume', this.current);
+    this.persist();
+    return this.current;
+  }
+
+  /**
+   * Register the function that reports session events to the backend
+   */
+  setEventSender(sender: SessionEventSender): void {
+    this.eventSender = sender;
+  }
+
+  /**
+   * @returns unsubscribe function
+   */
+  onChange(listener: SessionChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  /**
+   * Close a session; empty ones are not worth keeping in history
+   */
+  private endSession(session: SessionRecord, reason: SessionEndReason): void {
+    session.endedAt = Date.now();
+    session.endReason = reason;
+
+    this.emit('session_end', session, reason);
+
+    if (session.turnCount > 0) {
+      this.history = [session, ...this.history.filter(s => s.id !== session.id)]
+        .slice(0, SESSION_CONFIG.MAX_HISTORY);
+    }
+  }
+
+  private emit(event: SessionEvent, session: SessionRecord, reason?: SessionEndReason): void {
+    if (SESSION_CONFIG.NOTIFY_BACKEND && this.eventSender) {
+      this.eventSender(event, { ...session }, reason).catch(error => {
+        // Best effort - the next request carries the session_id anyway
+        console.warn(`⚠️ [Session] Could not report ${event}:`, error?.message || error);
+      });
+    }
+
+    if (event !== 'session_end') {
+      this.listeners.forEach(listener => {
+        try {
+          listener({ ...session }, event);
+        } catch (error) {
+          console.error('❌ [Session] Change listener failed:', error);
+        }
+      });
+    }
+  }
+
+  /**
+   * Never writes before load() has read the file, which would overwrite
+   * the stored session and history
+   */
+  private persist(): Promise<void> {
+    return this.load().then(() => this.write());
+  }
+
+  /**
+   * Writes are chained so rapid touches never race on the temp file
+   */
+  private write(): Promise<void> {
+    this.persistChain = this.persistChain.then(async () => {
+      try {
+        await writeJSON(SESSIONS_FILE, { current: this.current, history: this.history } as StoredSessions);
+      } catch (error) {
+        console.warn('⚠️ [Session] Could not persist sessions:', error);
+      }
+    });
+    return this.persistChain;
+  }
+}
+
+// Export singleton instance
+export const sessionManager = new SessionManager();
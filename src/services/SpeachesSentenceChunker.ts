@@ -15,12 +15,19 @@
 import { speachesTTS } from './speachesTtsClient';
 import { AccessibilityService } from './AccessibilityService';
 
+const MAX_CHUNK_LENGTH = 200; // Characters per chunk for fast response
+
 class SpeachesSentenceChunker {
   private isStopped: boolean = false;
   private isPlaying: boolean = false;
   private currentChunkIndex: number = 0;
   private totalChunks: number = 0;
 
+  // Streaming state (text arriving while we speak)
+  private streamBuffer: string = '';
+  private streamQueue: string[] = [];
+  private streamDrain: Promise<void> | null = null;
+
   /**
    * Split text into smart chunks and speak sequentially
    * 
@@ -146,6 +153,139 @@ class SpeachesSentenceChunker {
     }
   }
 
+  // ==========================================================================
+  // Streaming playback
+  // ==========================================================================
+
+  /**
+   * Start speaking an answer that is still arriving
+   *
+   * Call pushStreamText() for every piece of text, then endStream().
+   * Each complete sentence is spoken as soon as it is available, so the
+   * first words play while the rest of the answer is being generated.
+   */
+  beginStream(): void {
+    console.log('🌊 Starting streamed playback');
+    this.isStopped = false;
+    this.isPlaying = true;
+    this.currentChunkIndex = 0;
+    this.totalChunks = 0;
+    this.streamBuffer = '';
+    this.streamQueue = [];
+    this.streamDrain = null;
+  }
+
+  /**
+   * Add streamed text; complete sentences are queued for playback
+   *
+   * @param delta - Next piece of the answer
+   */
+  pushStreamText(delta: string): void {
+    if (this.isStopped || !delta) {
+      return;
+    }
+
+    this.streamBuffer += delta;
+
+    let boundary = this.findStreamBoundary(this.streamBuffer);
+    while (boundary > 0) {
+      const sentence = this.streamBuffer.substring(0, boundary).trim();
+      this.streamBuffer = this.streamBuffer.substring(boundary);
+      if (sentence) {
+        this.enqueueStreamChunk(sentence);
+      }
+      boundary = this.findStreamBoundary(this.streamBuffer);
+    }
+  }
+
+  /**
+   * Speak whatever is left and wait until playback has finished
+   */
+  async endStream(): Promise<void> {
+    const rest = this.streamBuffer.trim();
+    this.streamBuffer = '';
+    if (rest && !this.isStopped) {
+      this.enqueueStreamChunk(rest);
+    }
+
+    try {
+      // New chunks can start a fresh drain while we wait
+      while (this.streamDrain) {
+        await this.streamDrain;
+      }
+
+      if (this.isStopped) {
+        AccessibilityService.announce('Speech interrupted');
+      } else {
+        console.log(`✅ Streamed playback finished (${this.totalChunks} chunks)`);
+      }
+    } finally {
+      this.streamQueue = [];
+      this.isPlaying = false;
+      this.currentChunkIndex = 0;
+      this.totalChunks = 0;
+    }
+  }
+
+  /**
+   * Index just past the first speakable boundary, or -1 if none yet
+   *
+   * A sentence ends at . ! ? followed by whitespace (so "3.5" is kept
+   * together). Long text without punctuation is cut at a word boundary.
+   */
+  private findStreamBoundary(text: string): number {
+    const match = /[.!?]+['")]?\s/.exec(text);
+    if (match) {
+      return match.index + match[0].length;
+    }
+
+    if (text.length > MAX_CHUNK_LENGTH) {
+      const lastSpace = text.lastIndexOf(' ', MAX_CHUNK_LENGTH);
+      return lastSpace > 0 ? lastSpace + 1 : MAX_CHUNK_LENGTH;
+    }
+
+    return -1;
+  }
+
+  private enqueueStreamChunk(chunk: string): void {
+    this.streamQueue.push(chunk);
+    this.totalChunks++;
+
+    if (!this.streamDrain) {
+      this.streamDrain = this.drainStream().finally(() => {
+        this.streamDrain = null;
+      });
+    }
+  }
+
+  private async drainStream(): Promise<void> {
+    while (this.streamQueue.length > 0 && !this.isStopped) {
+      const chunk = this.streamQueue.shift()!;
+      const isFirst = this.currentChunkIndex === 0;
+
+      const preview = chunk.length > 40
+        ? chunk.substring(0, 40) + '...'
+        : chunk;
+      console.log(`🎙️ Playing streamed chunk ${this.currentChunkIndex + 1}: "${preview}"`);
+
+      try {
+        await speachesTTS.synthesizeSpeech(chunk);
+      } catch (error: any) {
+        // Same policy as synthesizeSpeechChunked: skip the chunk, keep going
+        console.error('❌ Error playing streamed chunk:', error);
+        if (isFirst) {
+          AccessibilityService.announceWarning('Audio playback issue. Trying to continue.');
+        }
+      }
+
+      this.currentChunkIndex++;
+
+      if (this.streamQueue.length > 0 && !this.isStopped) {
+        await new Promise<void>(resolve => setTimeout(resolve, 100));
+      }
+    }
+  }
+
   /**
    * Split text into smart chunks for playback
    * 
@@ -158,7 +298,6 @@ class SpeachesSentenceChunker {
    * @private
    */
   private splitIntoChunks(text: string): string[] {
-    const MAX_CHUNK_LENGTH = 200; // Characters per chunk for fast response
     const chunks: string[] = [];
 
     try {
@@ -309,6 +448,8 @@ class SpeachesSentenceChunker {
     this.isPlaying = false;
     this.currentChunkIndex = 0;
     this.totalChunks = 0;
+    this.streamBuffer = '';
+    this.streamQueue = [];
   }
 
   /**
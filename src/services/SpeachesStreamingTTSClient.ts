@@ -7,17 +7,9 @@
 import Sound from 'react-native-sound';
 import RNFS from 'react-native-fs';
 import { Buffer } from 'buffer';
-
-const SPEACHES_CONFIG = {
-  ttsUrl: 'https://cybersight.cim.mcgill.ca/speaches/v1/audio/speech',
-  model: 'speaches-ai/Kokoro-82M-v1.0-ONNX',
-  voice: 'af_heart',
-  language: 'en-us',
-  responseFormat: 'mp3',
-  speed: 1,
-  sampleRate: 24000,
-  apiKey: 'dev-test-key-change-in-production',
-};
+import { getSpeachesTtsSettings } from './EnvironmentService';
+import { capabilityService } from './CapabilityService';
+import { authService } from './AuthService';
 
 interface AudioChunk {
   index: number;
@@ -69,7 +61,7 @@ class SpeachesStreamingTTSClient {
     console.log('🌊 Starting streaming TTS:', trimmed.substring(0, 50) + '...');
 
     try {
-      await this.streamAudioWithXHR(trimmed);
+      await authService.withAuth(authHeaders => this.streamAudioWithXHR(trimmed, authHeaders));
     } catch (error) {
       console.error('❌ Speaches streaming TTS error:', error);
       throw error;
@@ -79,31 +71,28 @@ class SpeachesStreamingTTSClient {
   /**
    * Stream audio using XMLHttpRequest (React Native compatible)
    */
-  private async streamAudioWithXHR(text: string): Promise<void> {
+  private async streamAudioWithXHR(text: string, authHeaders: Record<string, string>): Promise<void> {
     return new Promise((resolve, reject) => {
       this.xhr = new XMLHttpRequest();
+      const config = capabilityService.adaptTtsSettings(getSpeachesTtsSettings());
 
       const payload = {
-        model: SPEACHES_CONFIG.model,
+        model: config.model,
         input: text,
-        voice: SPEACHES_CONFIG.voice,
-        language: SPEACHES_CONFIG.language,
-        response_format: SPEACHES_CONFIG.responseFormat,
-        speed: SPEACHES_CONFIG.speed,
-        sample_rate: SPEACHES_CONFIG.sampleRate,
+        voice: config.voice,
+        language: config.language,
+        response_format: config.responseFormat,
+        speed: config.speed,
+        sample_rate: config.sampleRate,
         stream: true, // Enable streaming
       };
 
-      console.log('📤 Sending streaming TTS request to:', SPEACHES_CONFIG.ttsUrl);
+      console.log('📤 Sending streaming TTS request to:', config.ttsUrl);
 
-      this.xhr.open('POST', SPEACHES_CONFIG.ttsUrl, true);
+      this.xhr.open('POST', config.ttsUrl, true);
       this.xhr.setRequestHeader('Content-Type', 'application/json');
       this.xhr.setRequestHeader('Accept', 'audio/mpeg');
-      
-      if (SPEACHES_CONFIG.apiKey) {
-        this.xhr.setRequestHeader('Authorization', `Bearer ${SPEACHES_CONFIG.apiKey}`);
-        this.xhr.setRequestHeader('X-API-Key', SPEACHES_CONFIG.apiKey);
-      }
+      Object.entries(authHeaders).forEach(([key, value]) => this.xhr!.setRequestHeader(key, value));
 
       // Set response type to handle binary data
       this.xhr.responseType = 'blob';
@@ -158,7 +147,11 @@ class SpeachesStreamingTTSClient {
           reader.readAsDataURL(blob);
           
         } else {
-          const error = new Error(`HTTP ${this.xhr!.status}: ${this.xhr!.statusText}`);
+          // status lets authService.withAuth() spot a 401
+          const error = Object.assign(
+            new Error(`HTTP ${this.xhr!.status}: ${this.xhr!.statusText}`),
+            { status: this.xhr!.status }
+          );
           console.error('❌ Request failed:', error);
           reject(error);
         }
@@ -0,0 +1,86 @@
+/**
+ * src/services/SpeechSettings.ts
+ *
+ * Speech speed chosen by the user (swipe up / down, screen reader actions)
+ *
+ * The Speaches clients read getRate() through getSpeachesTtsSettings, so
+ * a change applies from the next synthesized sentence. The rate is
+ * clamped to SPEECH_RATE_CONFIG and persisted to
+ * <DocumentDirectory>/shelfscout/speech.json.
+ */
+
+import { SPEACHES_CONFIG, SPEECH_RATE_CONFIG } from '../utils/constants';
+import { readJSON, writeJSON } from '../utils/storage';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface StoredSpeechSettings {
+  rate: number;
+}
+
+const SPEECH_FILE = 'speech.json';
+
+const clampRate = (rate: number): number =>
+  Math.round(Math.min(SPEECH_RATE_CONFIG.MAX, Math.max(SPEECH_RATE_CONFIG.MIN, rate)) * 100) / 100;
+
+// =============================================================================
+// Service
+// =============================================================================
+
+class SpeechSettings {
+  private rate: number = SPEACHES_CONFIG.SPEED;
+  private loadPromise: Promise<void> | null = null;
+
+  /**
+   * Restore the persisted rate. Safe to call more than once.
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const stored = await readJSON<StoredSpeechSettings | null>(SPEECH_FILE, null);
+        if (stored && typeof stored.rate === 'number' && Number.isFinite(stored.rate)) {
+          this.rate = clampRate(stored.rate);
+        }
+        console.log(`🗣️ [SpeechSettings] Rate ${this.rate}`);
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  getRate(): number {
+    return this.rate;
+  }
+
+  /**
+   * One step faster (+1) or slower (-1)
+   *
+   * @returns The new rate, unchanged at the limit
+   */
+  async adjustRate(direction: 1 | -1): Promise<number> {
+    await this.load();
+
+    const rate = clampRate(this.rate + direction * SPEECH_RATE_CONFIG.STEP);
+    if (rate === this.rate) {
+      return rate;
+    }
+    this.rate = rate;
+    console.log(`🗣️ [SpeechSettings] Rate → ${rate}`);
+
+    try {
+      await writeJSON(SPEECH_FILE, { rate } as StoredSpeechSettings);
+    } catch (error) {
+      // Still applies for this run
+      console.warn('⚠️ [SpeechSettings] Could not persist rate:', error);
+    }
+    return rate;
+  }
+
+  isAtLimit(direction: 1 | -1): boolean {
+    return direction > 0 ? this.rate >= SPEECH_RATE_CONFIG.MAX : this.rate <= SPEECH_RATE_CONFIG.MIN;
+  }
+}
+
+// Export singleton instance
+export const speechSettings = new SpeechSettings();
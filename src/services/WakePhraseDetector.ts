@@ -0,0 +1,389 @@
+/**
+ * src/services/WakePhraseDetector.ts
+ *
+ * Hands-free activation: say "Hey Scout" instead of tapping the screen
+ *
+ * Two stages keep the microphone cheap while nothing is said:
+ *
+ *   RMS VAD (sound level only) → speech → short on-device recognition
+ *   window → wake phrase? → the driver's onWake (same as a tap)
+ *
+ * The mode is off on every launch and only runs while the app is idle
+ * and in the foreground; App.tsx suspends it for each interaction and
+ * resumes it afterwards. Battery safeguards (WAKE_PHRASE_CONFIG): an idle
+ * timeout, a maximum armed time and a back-off when constant talking
+ * nearby keeps opening recognition windows. A soft tick plays while the
+ * microphone is open so the user always knows it is.
+ */
+
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import Sound from 'react-native-sound';
+import { WAKE_PHRASE_CONFIG } from '../utils/constants';
+import { RMSVoiceActivityDetector } from './RMSVoiceActivityDetector';
+import { normalizeUtterance } from './LocalCommandInterceptor';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type WakeStatus =
+  | 'off'
+  | 'armed'          // RMS VAD waiting for speech
+  | 'recognizing'    // Recognition window open
+  | 'suspended';     // On, but the app is busy, backgrounded or backing off
+
+export type WakeOffReason = 'user' | 'idle_timeout' | 'max_duration' | 'unavailable';
+
+/**
+ * What the detector needs from the app (App.tsx builds this from useSTT)
+ */
+export interface WakeDriver {
+  startRecognition: () => Promise<void>;
+  /** @returns What was heard in the window */
+  stopRecognition: () => Promise<string>;
+  /** Idle and silent, so the microphone is free */
+  canListen: () => boolean;
+  /** Start listening exactly as a tap does */
+  onWake: () => void | Promise<void>;
+  onOff?: (reason: WakeOffReason) => void;
+}
+
+type WakeListener = (status: WakeStatus) => void;
+
+const INDICATOR_FILE = 'bip.wav';
+
+/**
+ * Any alias, as whole words, anywhere in the transcript
+ */
+export const matchesWakePhrase = (
+  transcript: string,
+  aliases: readonly string[] = WAKE_PHRASE_CONFIG.ALIASES
+): boolean => {
+  const heard = ` ${normalizeUtterance(transcript)} `;
+  return aliases
+    .map(normalizeUtterance)
+    .some(alias => alias.length > 0 && heard.includes(` ${alias} `));
+};
+
+// =============================================================================
+// Detector
+// =============================================================================
+
+class WakePhraseDetector {
+  private status: WakeStatus = 'off';
+  private driver: WakeDriver | null = null;
+  private vad: RMSVoiceActivityDetector | null = null;
+  private indicator: Sound | null = null;
+  private windows: number[] = [];
+  private windowClosed: Promise<void> = Promise.resolve();
+  private endWindowEarly: (() => void) | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private maxTimer: ReturnType<typeof setTimeout> | null = null;
+  private backoffTimer: ReturnType<typeof setTimeout> | null = null;
+  private indicatorTimer: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private listeners: Set<WakeListener> = new Set();
+
+  setDriver(driver: WakeDriver): void {
+    this.driver = driver;
+  }
+
+  getStatus(): WakeStatus {
+    return this.status;
+  }
+
+  isEnabled(): boolean {
+    return this.status !== 'off';
+  }
+
+  isRecognizing(): boolean {
+    return this.status === 'recognizing';
+  }
+
+  /**
+   * @returns unsubscribe function
+   */
+  subscribe(listener: WakeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Turn hands-free mode on
+   *
+   * @returns false if it is not available (config, no driver)
+   */
+  async enable(): Promise<boolean> {
+    if (!WAKE_PHRASE_CONFIG.ENABLED || !this.driver) {
+      console.warn('⚠️ [Wake] Hands-free mode not available');
+      return false;
+    }
+    if (this.status !== 'off') {
+      return true;
+    }
+
+    console.log(`👂 [Wake] On, waiting for "${WAKE_PHRASE_CONFIG.PHRASE}"`);
+    this.windows = [];
+    this.maxTimer = setTimeout(() => this.disable('max_duration'), WAKE_PHRASE_CONFIG.MAX_ARMED_MS);
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    this.loadIndicator();
+
+    this.setStatus('suspended');
+    await this.resume();
+    return true;
+  }
+
+  async disable(reason: WakeOffReason = 'user'): Promise<void> {
+    if (this.status === 'off') {
+      return;
+    }
+
+    console.log(`👂 [Wake] Off (${reason})`);
+    this.setStatus('off');
+    this.endWindowEarly?.();
+
+    this.clearTimers();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.indicator?.release();
+    this.indicator = null;
+    await this.stopMonitoring();
+    await this.windowClosed;
+
+    this.driver?.onOff?.(reason);
+  }
+
+  /**
+   * The app needs the microphone (tap, interaction): stop listening for the
+   * phrase. Resolves once an open window has stopped its recognition.
+   */
+  async suspend(): Promise<void> {
+    if (this.status === 'recognizing') {
+      this.setStatus('suspended');
+      this.endWindowEarly?.();
+    } else if (this.status === 'armed') {
+      this.setStatus('suspended');
+      this.clearIdleTimer();
+      this.stopIndicator();
+      await this.stopMonitoring();
+    }
+    await this.windowClosed;
+  }
+
+  /**
+   * Wait for the phrase again (app idle, foreground, not backing off)
+   */
+  async resume(): Promise<void> {
+    if (
+      this.status !== 'suspended' ||
+      this.backoffTimer ||
+      AppState.currentState !== 'active' ||
+      !this.driver?.canListen()
+    ) {
+      return;
+    }
+
+    this.setStatus('armed');
+    this.startIdleTimer();
+    this.startIndicator();
+    await this.startMonitoring();
+  }
+
+  /**
+   * End of utterance inside the window: no need to wait for the rest of it
+   */
+  endWindow(): void {
+    this.endWindowEarly?.();
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private handleSpeech = (): void => {
+    if (this.status !== 'armed' || !this.driver?.canListen()) {
+      return;
+    }
+
+    const now = Date.now();
+    this.windows = this.windows.filter(at => now - at < 60 * 1000);
+    if (this.windows.length >= WAKE_PHRASE_CONFIG.MAX_WINDOWS_PER_MINUTE) {
+      this.backOff();
+      return;
+    }
+    this.windows.push(now);
+
+    this.recognize().catch(error => console.warn('⚠️ [Wake] Recognition failed:', error));
+  };
+
+  private async recognize(): Promise<void> {
+    const driver = this.driver!;
+    this.setStatus('recognizing');
+    this.stopIndicator();
+
+    // One microphone user at a time
+    const window = this.stopMonitoring().then(() => this.runWindow(driver));
+    this.windowClosed = window.then(() => undefined);
+    const transcript = await window;
+
+    if (this.status !== 'recognizing') {
+      return;   // Turned off or suspended meanwhile
+    }
+
+    this.setStatus('suspended');
+    if (matchesWakePhrase(transcript)) {
+      console.log(`👂 [Wake] Heard "${transcript}"`);
+      this.clearIdleTimer();
+      // Listening leaves idle; if it could not start, keep waiting
+      await Promise.resolve(driver.onWake()).finally(() => this.resume());
+      return;
+    }
+
+    await this.resume();
+  }
+
+  /**
+   * @returns What was heard, '' if the window failed
+   */
+  private async runWindow(driver: WakeDriver): Promise<string> {
+    if (this.status !== 'recognizing') {
+      return '';
+    }
+
+    let windowTimer: ReturnType<typeof setTimeout> | null = null;
+    try {
+      await driver.startRecognition();
+      await new Promise<void>(resolve => {
+        this.endWindowEarly = resolve;
+        windowTimer = setTimeout(resolve, WAKE_PHRASE_CONFIG.RECOGNITION_WINDOW_MS);
+        if (this.status !== 'recognizing') {
+          resolve();   // Off or suspended while recognition started
+        }
+      });
+      return await driver.stopRecognition();
+    } catch (error) {
+      console.warn('⚠️ [Wake] Recognition window failed:', error);
+      return '';
+    } finally {
+      if (windowTimer) {
+        clearTimeout(windowTimer);
+      }
+      this.endWindowEarly = null;
+    }
+  }
+
+  private backOff(): void {
+    console.log(`👂 [Wake] Too much speech nearby, pausing ${WAKE_PHRASE_CONFIG.BACKOFF_MS / 1000}s`);
+    this.suspend();
+    this.backoffTimer = setTimeout(() => {
+      this.backoffTimer = null;
+      this.resume();
+    }, WAKE_PHRASE_CONFIG.BACKOFF_MS);
+  }
+
+  private async startMonitoring(): Promise<void> {
+    if (!this.vad) {
+      this.vad = new RMSVoiceActivityDetector({ minSpeechMs: WAKE_PHRASE_CONFIG.MIN_SPEECH_MS });
+    }
+    try {
+      await this.vad.start({ onSpeechStart: this.handleSpeech });
+    } catch (error) {
+      console.error('❌ [Wake] Sound level monitoring failed:', error);
+      this.disable('unavailable');
+    }
+  }
+
+  private async stopMonitoring(): Promise<void> {
+    try {
+      await this.vad?.stop();
+    } catch (error) {
+      console.warn('⚠️ [Wake] Could not stop monitoring:', error);
+    }
+  }
+
+  /**
+   * Runs across recognition windows; only a wake or an interaction restarts it
+   */
+  private startIdleTimer(): void {
+    if (this.idleTimer) {
+      return;
+    }
+    this.idleTimer = setTimeout(() => this.disable('idle_timeout'), WAKE_PHRASE_CONFIG.IDLE_TIMEOUT_MS);
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private clearTimers(): void {
+    this.clearIdleTimer();
+    this.stopIndicator();
+    [this.maxTimer, this.backoffTimer].forEach(timer => timer && clearTimeout(timer));
+    this.maxTimer = null;
+    this.backoffTimer = null;
+  }
+
+  private loadIndicator(): void {
+    if (this.indicator) {
+      return;
+    }
+    const sound = new Sound(INDICATOR_FILE, Sound.MAIN_BUNDLE, error => {
+      if (error) {
+        console.warn(`⚠️ [Wake] Could not load ${INDICATOR_FILE}:`, error);
+        sound.release();
+      } else if (this.status === 'off') {
+        sound.release();   // Turned off while loading
+      } else {
+        sound.setVolume(WAKE_PHRASE_CONFIG.INDICATOR_VOLUME);
+        this.indicator = sound;
+        if (this.status === 'armed') {
+          this.playIndicator();
+        }
+      }
+    });
+  }
+
+  private startIndicator(): void {
+    this.stopIndicator();
+    this.playIndicator();
+    this.indicatorTimer = setInterval(() => this.playIndicator(), WAKE_PHRASE_CONFIG.INDICATOR_INTERVAL_MS);
+  }
+
+  private stopIndicator(): void {
+    if (this.indicatorTimer) {
+      clearInterval(this.indicatorTimer);
+      this.indicatorTimer = null;
+    }
+  }
+
+  private playIndicator(): void {
+    if (this.indicator) {
+      this.indicator.setCurrentTime(0);
+      this.indicator.play();
+    }
+  }
+
+  private handleAppStateChange = (state: AppStateStatus): void => {
+    if (state === 'active') {
+      this.resume();
+    } else {
+      this.suspend();
+    }
+  };
+
+  private setStatus(status: WakeStatus): void {
+    if (status === this.status) {
+      return;
+    }
+    this.status = status;
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+// Export singleton instance
+export const wakePhraseDetector = new WakePhraseDetector();
@@ -0,0 +1,201 @@
+/**
+ * src/services/WorkflowErrors.ts
+ *
+ * Typed workflow errors
+ *
+ * WorkflowService throws these instead of plain Errors with a user-facing
+ * string. Each one carries:
+ *
+ * - kind: what went wrong (cancelled, timeout, network, server, ...)
+ * - userMessage: short sentence suitable for speech / alerts
+ * - retryable: whether repeating the same request may succeed
+ * - cause: the original axios / stream error, for logs
+ *
+ * The service never announces or alerts; presentation is up to the
+ * caller (one announcement, and continuous loops can keep going on
+ * transient failures).
+ */
+
+import axios from 'axios';
+import { WorkflowStreamError } from './WorkflowStreamClient';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type WorkflowErrorKind =
+  | 'cancelled'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'empty_response'
+  | 'validation'
+  | 'interrupted'
+  | 'offline_queued'
+  | 'unknown';
+
+interface WorkflowErrorOptions {
+  userMessage?: string;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+// =============================================================================
+// Error classes
+// =============================================================================
+
+export class WorkflowError extends Error {
+  readonly kind: WorkflowErrorKind;
+  readonly userMessage: string;
+  readonly retryable: boolean;
+  readonly cause: unknown;
+
+  constructor(kind: WorkflowErrorKind, message: string, options: WorkflowErrorOptions = {}) {
+    super(message);
+    this.name = 'WorkflowError';
+    this.kind = kind;
+    this.userMessage = options.userMessage || 'Failed to process request.';
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The user (tap, emergency stop) or the app aborted the request.
+ * Not a failure - callers should stay silent.
+ */
+export class WorkflowCancelledError extends WorkflowError {
+  constructor(cause?: unknown) {
+    super('cancelled', 'Request cancelled', { userMessage: 'Cancelled.', cause });
+    this.name = 'WorkflowCancelledError';
+  }
+}
+
+export class WorkflowTimeoutError extends WorkflowError {
+  constructor(message: string = 'Workflow request timed out', cause?: unknown) {
+    super('timeout', message, {
+      userMessage: 'Request timed out. Please try again.',
+      retryable: true,
+      cause,
+    });
+    this.name = 'WorkflowTimeoutError';
+  }
+}
+
+export class WorkflowNetworkError extends WorkflowError {
+  constructor(message: string = 'Network request failed', cause?: unknown) {
+    super('network', message, {
+      userMessage: 'Network error. Please check your connection.',
+      retryable: true,
+      cause,
+    });
+    this.name = 'WorkflowNetworkError';
+  }
+}
+
+/**
+ * The backend answered with a non-2xx status
+ */
+export class WorkflowServerError extends WorkflowError {
+  readonly status: number;
+
+  constructor(status: number, cause?: unknown) {
+    super('server', `Workflow returned HTTP ${status}`, {
+      userMessage: status >= 500
+        ? 'Server error. Please try again later.'
+        : `Error (${status}). Please try again.`,
+      retryable: status === 408 || status === 429 || (status >= 500 && status !== 501),
+      cause,
+    });
+    this.name = 'WorkflowServerError';
+    this.status = status;
+  }
+}
+
+export class WorkflowEmptyResponseError extends WorkflowError {
+  constructor() {
+    super('empty_response', 'Workflow returned no answer text', {
+      userMessage: 'Server returned empty response. Please try again.',
+    });
+    this.name = 'WorkflowEmptyResponseError';
+  }
+}
+
+/**
+ * The request was rejected before sending (e.g. no voice command)
+ */
+export class WorkflowValidationError extends WorkflowError {
+  constructor(message: string, userMessage: string) {
+    super('validation', message, { userMessage });
+    this.name = 'WorkflowValidationError';
+  }
+}
+
+/**
+ * A streamed answer broke after part of it was already spoken.
+ * Not replayed automatically, the user would hear it twice.
+ */
+export class WorkflowInterruptedError extends WorkflowError {
+  constructor(cause?: unknown) {
+    super('interrupted', 'Workflow stream broke mid-answer', {
+      userMessage: 'The answer was cut off. Please try again.',
+      cause,
+    });
+    this.name = 'WorkflowInterruptedError';
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+export const isWorkflowError = (error: unknown): error is WorkflowError =>
+  error instanceof WorkflowError;
+
+/**
+ * Cancellation from any source (workflow, axios, fetch, retry sleep)
+ */
+export const isCancelledError = (error: any): boolean =>
+  error instanceof WorkflowCancelledError ||
+  axios.isCancel(error) ||
+  error?.code === 'ERR_CANCELED' ||
+  error?.name === 'AbortError' ||
+  (!isWorkflowError(error) && typeof error?.message === 'string' && error.message.toLowerCase().includes('cancel'));
+
+/**
+ * Map any error thrown while talking to the workflow onto a WorkflowError
+ *
+ * @param error - Raw axios / stream / retry error
+ * @param signal - The request's signal; an aborted signal always means cancelled
+ */
+export const toWorkflowError = (error: any, signal?: AbortSignal): WorkflowError => {
+  if (signal?.aborted || isCancelledError(error)) {
+    return error instanceof WorkflowCancelledError ? error : new WorkflowCancelledError(error);
+  }
+
+  if (isWorkflowError(error)) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' || error.message.includes('timeout')) {
+      return new WorkflowTimeoutError(error.message, error);
+    }
+    if (error.response) {
+      return new WorkflowServerError(error.response.status, error);
+    }
+    return new WorkflowNetworkError(error.message, error);
+  }
+
+  if (error instanceof WorkflowStreamError) {
+    if (error.status >= 300) {
+      return new WorkflowServerError(error.status, error);
+    }
+    if (error.message.toLowerCase().includes('timeout')) {
+      return new WorkflowTimeoutError(error.message, error);
+    }
+    return new WorkflowNetworkError(error.message, error);
+  }
+
+  return new WorkflowError('unknown', error?.message || String(error), { cause: error });
+};
@@ -0,0 +1,423 @@
+/**
+ * src/services/WorkflowResponseSchema.ts
+ *
+ * Versioned WorkflowResponse contract and validator
+ *
+ * The n8n workflows change often. Instead of guessing at field names and
+ * silently falling back to defaults, every response is checked against a
+ * declared schema and the validator reports exactly what it had to fix:
+ *
+ * - errors:   values that could not be used (field falls back to default)
+ * - warnings: values that were usable but off-contract (legacy aliases,
+ *             string booleans, clamped loopDelay, unknown fields)
+ * - aliasesUsed: which legacy names the payload still relies on
+ *
+ * SCHEMA v1 (canonical field names):
+ *   schema_version: number
+ *   text:           string
+ *   navigation:     boolean
+ *   reaching_flag:  boolean
+ *   reaching_ios:   boolean
+ *   bbox:           [xmin, ymin, xmax, ymax]  (required when reaching_ios)
+ *   bbox_units:     'pixels' | 'normalized' | 'per_mille' (optional, see utils/bbox)
+ *   object:         string
+ *   loopDelay:      number (ms, clamped to NAVIGATION_CONFIG bounds)
+ *   session_id:     string
+ *   action:         string (registered client action, see ActionRegistry)
+ *
+ * Payloads without schema_version are treated as legacy (v0) and accepted
+ * with warnings.
+ */
+
+import { NAVIGATION_CONFIG, WORKFLOW_SCHEMA_CONFIG } from '../utils/constants';
+import { parseBbox } from '../utils/bbox';
+import {
+  BboxUnits,
+  WorkflowResponse,
+  WorkflowResponseDiagnostics,
+  WorkflowValidationIssue,
+} from '../utils/types';
+
+// =============================================================================
+// SCHEMA DECLARATION
+// =============================================================================
+
+type FieldType = 'string' | 'boolean' | 'number' | 'bbox';
+
+interface FieldSpec {
+  type: FieldType;
+  /** Legacy names still accepted for this field */
+  aliases: string[];
+}
+
+export const WORKFLOW_SCHEMA_VERSION: number = WORKFLOW_SCHEMA_CONFIG.VERSION;
+
+export const WORKFLOW_RESPONSE_SCHEMA: Record<string, FieldSpec> = {
+  schema_version: { type: 'number', aliases: [] },
+  text: { type: 'string', aliases: ['response', 'message'] },
+  navigation: { type: 'boolean', aliases: [] },
+  reaching_flag: { type: 'boolean', aliases: ['reachingFlag'] },
+  reaching_ios: { type: 'boolean', aliases: ['reachingIos'] },
+  bbox: { type: 'bbox', aliases: [] },
+  bbox_units: { type: 'string', aliases: ['bboxUnits'] },
+  object: { type: 'string', aliases: ['objectName'] },
+  loopDelay: { type: 'number', aliases: [] },
+  session_id: { type: 'string', aliases: [] },
+  action: { type: 'string', aliases: [] },
+};
+
+export interface WorkflowValidationResult {
+  response: WorkflowResponse;
+  diagnostics: WorkflowResponseDiagnostics;
+  /** true when no errors were recorded (warnings are allowed) */
+  valid: boolean;
+}
+
+// =============================================================================
+// ISSUE COLLECTOR
+// =============================================================================
+
+class IssueCollector {
+  errors: WorkflowValidationIssue[] = [];
+  warnings: WorkflowValidationIssue[] = [];
+  aliasesUsed: string[] = [];
+
+  error(code: WorkflowValidationIssue['code'], field: string, message: string): void {
+    this.errors.push({ severity: 'error', code, field, message });
+  }
+
+  warn(code: WorkflowValidationIssue['code'], field: string, message: string): void {
+    this.warnings.push({ severity: 'warning', code, field, message });
+  }
+
+  alias(description: string): void {
+    this.aliasesUsed.push(description);
+  }
+}
+
+// =============================================================================
+// FIELD READERS
+// =============================================================================
+
+/**
+ * Find the value for a schema field, checking the canonical name first
+ * and then each legacy alias. Records alias usage.
+ */
+function readField(payload: Record<string, any>, field: string, issues: IssueCollector): any {
+  if (payload[field] !== undefined && payload[field] !== null) {
+    return payload[field];
+  }
+
+  for (const alias of WORKFLOW_RESPONSE_SCHEMA[field].aliases) {
+    if (payload[alias] !== undefined && payload[alias] !== null) {
+      issues.alias(`${alias} → ${field}`);
+      issues.warn('legacy_alias', field, `Legacy alias "${alias}" used for "${field}"`);
+      return payload[alias];
+    }
+  }
+
+  return undefined;
+}
+
+function readBoolean(value: any, field: string, issues: IssueCollector): boolean {
+  if (value === undefined) {
+    return false;
+  }
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'true' || normalized === 'false') {
+      issues.warn('legacy_coercion', field, `"${field}" sent as string "${value}", expected boolean`);
+      return normalized === 'true';
+    }
+    issues.error('invalid_value', field, `"${field}" has unrecognized value "${value}", treated as false`);
+    return false;
+  }
+  issues.error('invalid_type', field, `"${field}" must be a boolean, got ${typeof value}`);
+  return false;
+}
+
+function readString(value: any, field: string, issues: IssueCollector): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+  issues.error('invalid_type', field, `"${field}" must be a string, got ${typeof value}`);
+  return undefined;
+}
+
+function readBbox(value: any, issues: IssueCollector): [number, number, number, number] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value) && typeof value !== 'string' && (typeof value !== 'object' || value === null)) {
+    issues.error('invalid_type', 'bbox', `bbox must be an array of 4 numbers, got ${typeof value}`);
+    return undefined;
+  }
+
+  const bbox = parseBbox(value);
+  if (!bbox) {
+    issues.error('invalid_value', 'bbox', `bbox must contain 4 finite numbers, got ${JSON.stringify(value)}`);
+    return undefined;
+  }
+
+  if (typeof value === 'string') {
+    // Legacy: "[1,2,3,4]" or "1,2,3,4"
+    issues.warn('legacy_coercion', 'bbox', 'bbox sent as string, expected number array');
+  } else if (!Array.isArray(value)) {
+    issues.warn('legacy_coercion', 'bbox', 'bbox sent as corner object, expected number array');
+  }
+
+  if (bbox[0] > bbox[2] || bbox[1] > bbox[3]) {
+    issues.warn('invalid_value', 'bbox', `bbox corners out of order: ${JSON.stringify(bbox)}`);
+  }
+
+  return bbox;
+}
+
+const BBOX_UNITS: BboxUnits[] = ['pixels', 'normalized', 'per_mille'];
+
+function readBboxUnits(value: string | undefined, issues: IssueCollector): BboxUnits | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if ((BBOX_UNITS as string[]).includes(value)) {
+    return value as BboxUnits;
+  }
+  issues.error('invalid_value', 'bbox_units', `bbox_units must be one of ${BBOX_UNITS.join(', ')}, got "${value}"`);
+  return undefined;
+}
+
+function readLoopDelay(value: any, issues: IssueCollector): number {
+  const { DEFAULT_LOOP_DELAY_MS, MIN_LOOP_DELAY_MS, MAX_LOOP_DELAY_MS } = NAVIGATION_CONFIG;
+
+  if (value === undefined) {
+    return DEFAULT_LOOP_DELAY_MS;
+  }
+
+  let delay: number;
+  if (typeof value === 'number') {
+    delay = value;
+  } else if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    delay = Number(value);
+    issues.warn('legacy_coercion', 'loopDelay', `loopDelay sent as string "${value}", expected number`);
+  } else {
+    issues.error('invalid_type', 'loopDelay', `loopDelay must be a number, got ${JSON.stringify(value)}`);
+    return DEFAULT_LOOP_DELAY_MS;
+  }
+
+  if (!Number.isFinite(delay) || delay <= 0) {
+    issues.error('invalid_value', 'loopDelay', `loopDelay must be positive, got ${delay}`);
+    return DEFAULT_LOOP_DELAY_MS;
+  }
+
+  const clamped = Math.min(MAX_LOOP_DELAY_MS, Math.max(MIN_LOOP_DELAY_MS, delay));
+  if (clamped !== delay) {
+    issues.warn('clamped', 'loopDelay', `loopDelay ${delay}ms clamped to ${clamped}ms`);
+  }
+  return clamped;
+}
+
+function readSchemaVersion(payload: Record<string, any>, issues: IssueCollector): number | null {
+  const value = payload.schema_version;
+
+  if (value === undefined || value === null) {
+    issues.warn('missing_field', 'schema_version', 'No schema_version, treating payload as legacy (v0)');
+    return null;
+  }
+
+  const version = typeof value === 'string' ? Number(value) : value;
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    issues.error('invalid_type', 'schema_version', `schema_version must be an integer, got ${JSON.stringify(value)}`);
+    return null;
+  }
+
+  if (version > WORKFLOW_SCHEMA_VERSION) {
+    issues.warn(
+      'unsupported_version',
+      'schema_version',
+      `Response uses schema v${version}, client understands up to v${WORKFLOW_SCHEMA_VERSION}`
+    );
+  }
+  return version;
+}
+
+// =============================================================================
+// UNKNOWN FIELD DETECTION (catches flag typos like "navigaton")
+// =============================================================================
+
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const dist: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) dist[i][0] = i;
+  for (let j = 0; j < cols; j++) dist[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      dist[i][j] = Math.min(dist[i - 1][j] + 1, dist[i][j - 1] + 1, dist[i - 1][j - 1] + cost);
+    }
+  }
+  return dist[a.length][b.length];
+}
+
+function findClosestField(key: string): string | null {
+  const lowerKey = key.toLowerCase();
+  let best: string | null = null;
+  let bestDistance = Infinity;
+
+  for (const field of Object.keys(WORKFLOW_RESPONSE_SCHEMA)) {
+    const distance = editDistance(lowerKey, field.toLowerCase());
+    if (distance < bestDistance) {
+      best = field;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= 2 ? best : null;
+}
+
+function checkUnknownFields(payload: Record<string, any>, issues: IssueCollector): void {
+  const known = new Set<string>();
+  for (const [field, spec] of Object.entries(WORKFLOW_RESPONSE_SCHEMA)) {
+    known.add(field);
+    spec.aliases.forEach(alias => known.add(alias));
+  }
+
+  for (const key of Object.keys(payload)) {
+    if (known.has(key)) {
+      continue;
+    }
+    const suggestion = findClosestField(key);
+    issues.warn(
+      'unknown_field',
+      key,
+      suggestion
+        ? `Unknown field "${key}" (did you mean "${suggestion}"?)`
+        : `Unknown field "${key}"`
+    );
+  }
+}
+
+// =============================================================================
+// VALIDATOR
+// =============================================================================
+
+/**
+ * Validate a raw workflow payload against the response schema
+ *
+ * Never throws. Unusable values fall back to the same defaults the app
+ * has always used, but every fallback is recorded in diagnostics.
+ *
+ * @param data - Raw response body (object, n8n array, or { json } envelope)
+ * @param fallbackSessionId - Session ID to use when the payload has none
+ */
+export function validateWorkflowResponse(
+  data: any,
+  fallbackSessionId?: string
+): WorkflowValidationResult {
+  const issues = new IssueCollector();
+
+  const response: WorkflowResponse = {
+    text: '',
+    navigation: false,
+    reaching_flag: false,
+    reaching_ios: false,
+    loopDelay: NAVIGATION_CONFIG.DEFAULT_LOOP_DELAY_MS,
+    session_id: fallbackSessionId,
+  };
+
+  const finish = (schemaVersion: number | null): WorkflowValidationResult => {
+    const diagnostics: WorkflowResponseDiagnostics = {
+      schemaVersion,
+      errors: issues.errors,
+      warnings: issues.warnings,
+      aliasesUsed: issues.aliasesUsed,
+    };
+    response.schema_version = schemaVersion ?? undefined;
+    response.diagnostics = diagnostics;
+    return { response, diagnostics, valid: issues.errors.length === 0 };
+  };
+
+  // ---------------------------------------------------------------------------
+  // Unwrap n8n envelopes
+  // ---------------------------------------------------------------------------
+  let payload = data;
+  if (Array.isArray(payload)) {
+    issues.alias('[0] (array envelope)');
+    payload = payload[0];
+  }
+  if (payload && typeof payload === 'object' && payload.json && typeof payload.json === 'object') {
+    issues.alias('json (envelope)');
+    payload = payload.json;
+  }
+
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    issues.error('empty_payload', '(root)', 'Response body is empty or not an object');
+    return finish(null);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Fields
+  // ---------------------------------------------------------------------------
+  const schemaVersion = readSchemaVersion(payload, issues);
+
+  response.text = readString(readField(payload, 'text', issues), 'text', issues) ?? '';
+  response.navigation = readBoolean(readField(payload, 'navigation', issues), 'navigation', issues);
+  response.reaching_flag = readBoolean(readField(payload, 'reaching_flag', issues), 'reaching_flag', issues);
+  response.reaching_ios = readBoolean(readField(payload, 'reaching_ios', issues), 'reaching_ios', issues);
+  response.bbox = readBbox(readField(payload, 'bbox', issues), issues);
+  response.bbox_units = readBboxUnits(
+    readString(readField(payload, 'bbox_units', issues), 'bbox_units', issues),
+    issues
+  );
+
+  const object = readString(readField(payload, 'object', issues), 'object', issues);
+  response.object = object || undefined;
+
+  response.loopDelay = readLoopDelay(readField(payload, 'loopDelay', issues), issues);
+
+  const sessionId = readString(readField(payload, 'session_id', issues), 'session_id', issues);
+  if (sessionId) {
+    response.session_id = sessionId;
+  }
+
+  const action = readString(readField(payload, 'action', issues), 'action', issues);
+  response.action = action || undefined;
+
+  // ---------------------------------------------------------------------------
+  // Cross-field rules
+  // ---------------------------------------------------------------------------
+  if (response.reaching_ios && !response.bbox) {
+    issues.error('missing_field', 'bbox', 'reaching_ios is true but no valid bbox was provided');
+  }
+
+  if (WORKFLOW_SCHEMA_CONFIG.WARN_ON_UNKNOWN_FIELDS) {
+    checkUnknownFields(payload, issues);
+  }
+
+  return finish(schemaVersion);
+}
+
+/**
+ * One-line summary of diagnostics for logging
+ */
+export function summarizeDiagnostics(diagnostics: WorkflowResponseDiagnostics): string {
+  const version = diagnostics.schemaVersion === null ? 'legacy' : `v${diagnostics.schemaVersion}`;
+  return `schema ${version}, ${diagnostics.errors.length} error(s), ${diagnostics.warnings.length} warning(s)` +
+    (diagnostics.aliasesUsed.length ? `, aliases: ${diagnostics.aliasesUsed.join('; ')}` : '');
+}
+
+export default {
+  WORKFLOW_SCHEMA_VERSION,
+  WORKFLOW_RESPONSE_SCHEMA,
+  validateWorkflowResponse,
+  summarizeDiagnostics,
+};
@@ -14,86 +14,71 @@
  * 1. reaching_ios=true → Trigger iOS ARKit (stops here, no continuous loop)
  * 2. reaching_flag=true → Start reaching continuous loop (Android-style)
  * 3. navigation=true → Start navigation continuous loop
+ *
+ * The three flags are the built-in entries of ActionRegistry; further
+ * backend skills are registered there (response field "action").
  */
 
-import axios, { AxiosError } from 'axios';
-import { Platform, Alert, NativeModules } from 'react-native';
-import { WORKFLOW_URL, CONFIG, NAVIGATION_CONFIG } from '../utils/constants';
-import { WorkflowRequest, WorkflowResponse, ContinuousModeState } from '../utils/types';
-import { AccessibilityService } from './AccessibilityService';
+import axios, { AxiosError, AxiosProgressEvent } from 'axios';
+import { Platform } from 'react-native';
+import { CONVERSATION_CONFIG, NAVIGATION_CONFIG, RETRY_CONFIG, WORKFLOW_STREAM_CONFIG } from '../utils/constants';
+import { WorkflowRequest, WorkflowResponse, ContinuousModeState, SessionEndReason } from '../utils/types';
+import {
+  validateWorkflowResponse,
+  summarizeDiagnostics,
+  WORKFLOW_SCHEMA_VERSION,
+} from './WorkflowResponseSchema';
+import { offlineQueue, OfflineQueuedError } from './OfflineRequestQueue';
+import { withRetry, RetryPolicy } from './RetryPolicy';
+import { environmentService } from './EnvironmentService';
+import { sessionManager } from './SessionManager';
+import { latencyTracer, SpanHandle } from './LatencyTracer';
+import { conversationLog } from './ConversationLog';
+import { authService } from './AuthService';
+import { capabilityService } from './CapabilityService';
+import { triggerIOSReaching } from './CybsGuidanceBridge';
+import { actionRegistry, ActionDefinition, ActionType } from './ActionRegistry';
+import { validateBbox } from '../utils/bbox';
+import { openWorkflowStream, WorkflowStreamError, WorkflowStreamHandlers } from './WorkflowStreamClient';
+import {
+  WorkflowCancelledError,
+  WorkflowEmptyResponseError,
+  WorkflowInterruptedError,
+  WorkflowNetworkError,
+  WorkflowValidationError,
+  isCancelledError,
+  toWorkflowError,
+} from './WorkflowErrors';
 
 // =============================================================================
-// iOS ARKit Native Module Bridge (Nicolas's CybsGuidance)
+// iOS ARKit Native Module Bridge (see CybsGuidanceBridge)
 // =============================================================================
 
-// This will be the bridge to Nicolas's Swift ViewController
-const { CybsGuidanceModule } = NativeModules;
+export { triggerIOSReaching };
+
+// =============================================================================
+// CONVERSATION SESSION (persisted by SessionManager)
+// =============================================================================
 
 /**
- * Trigger iOS ARKit reaching with bounding box data
- * 
- * @param bbox - [xmin, ymin, xmax, ymax] from Qwen detection
- * @param objectName - Name of the detected object
+ * End the current conversation and start a new one
  */
-export const triggerIOSReaching = async (
-  bbox: [number, number, number, number],
-  objectName: string
-): Promise<boolean> => {
-  if (Platform.OS !== 'ios') {
-    console.warn('🚫 triggerIOSReaching called on non-iOS platform');
-    return false;
-  }
+export const resetSessionId = (reason: SessionEndReason = 'user_new_conversation'): string => {
+  const session = sessionManager.startNewSession(reason);
+  console.log('🔄 [Workflow] Session RESET:', session.id);
+  return session.id;
+};
 
-  try {
-    console.log('🎯 [iOS ARKit] Triggering reaching for:', objectName);
-    console.log('📦 [iOS ARKit] Bounding box:', bbox);
-
-    // If the native module exists, call it
-    if (CybsGuidanceModule?.startReaching) {
-      await CybsGuidanceModule.startReaching({
-        bbox: bbox,
-        object: objectName,
-      });
-      console.log('✅ [iOS ARKit] Reaching started successfully');
-      return true;
-    } else {
-      console.warn('⚠️ CybsGuidanceModule not available - is the native module linked?');
-      
-      // Fallback: Announce to user
-      AccessibilityService.announceForAccessibility(
-        `Guiding you to ${objectName}. ARKit module initializing.`
-      );
-      return false;
-    }
-  } catch (error) {
-    console.error('❌ [iOS ARKit] Failed to start reaching:', error);
-    return false;
-  }
+export const getSessionId = (): string => {
+  return sessionManager.getSessionId();
 };
 
 // =============================================================================
-// RESETTABLE PERSISTENT SESSION ID
+// REQUEST IDS (stable across retries so n8n can dedupe)
 // =============================================================================
 
-const generateSessionId = (): string => {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
-};
-
-let SESSION_ID = generateSessionId();
-console.log('📱 [Workflow] Session initialized:', SESSION_ID);
-
-export const resetSessionId = (): string => {
-  SESSION_ID = generateSessionId();
-  console.log('🔄 [Workflow] Session RESET:', SESSION_ID);
-  return SESSION_ID;
-};
-
-export const getSessionId = (): string => {
-  return SESSION_ID;
+export const generateRequestId = (): string => {
+  return `mobile-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
 };
 
 // =============================================================================
@@ -116,7 +101,7 @@ export const isContinuousModeActive = (): boolean => {
   return continuousModeState.isActive;
 };
 
-export const getCurrentMode = (): 'navigation' | 'reaching' | null => {
+export const getCurrentMode = (): ActionType | null => {
   return continuousModeState.mode;
 };
 
@@ -129,7 +114,7 @@ export const getCurrentLoopDelay = (): number => {
 };
 
 export const startContinuousMode = (
-  mode: 'navigation' | 'reaching',
+  mode: ActionType,
   loopDelay?: number
 ): void => {
   console.log(`🔄 [${mode}] Continuous mode STARTED`);
@@ -153,7 +138,7 @@ export const updateLoopDelay = (delay: number): void => {
   }
 };
 
-export const stopContinuousMode = (reason?: string, resetSession: boolean = false): void => {
+export const stopContinuousMode = (reason?: string): void => {
   const iterations = continuousModeState.iterationCount;
   const mode = continuousModeState.mode;
   
@@ -169,10 +154,6 @@ export const stopContinuousMode = (reason?: string, resetSession: boolean = fals
   if (reason) {
     console.log(`🛑 Reason: ${reason}`);
   }
-  
-  if (resetSession) {
-    resetSessionId();
-  }
 };
 
 export const shouldPreventInfiniteLoop = (): boolean => {
@@ -196,350 +177,622 @@ export const shouldPreventInfiniteLoop = (): boolean => {
 // MAIN WORKFLOW FUNCTION
 // =============================================================================
 
+export interface SendToWorkflowOptions {
+  /** Override parts of the default retry policy */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Extra stop condition between retries (e.g. emergency stop ref) */
+  shouldAbort?: () => boolean;
+}
+
+/**
+ * Send a request with retries
+ *
+ * Failures are thrown as WorkflowErrors (see WorkflowErrors.ts); a one-shot
+ * question that hit a network error is queued and surfaces as
+ * OfflineQueuedError. Nothing is announced here - that is up to the caller.
+ */
 export const sendToWorkflow = async (
   request: WorkflowRequest,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  options: SendToWorkflowOptions = {}
 ): Promise<WorkflowResponse> => {
+  const isContinuousIteration = request.navigation === true || request.reaching_flag === true || !!request.action;
+
+  // One id for every attempt of this request
+  const requestId = request.request_id || generateRequestId();
+
   try {
     if (signal?.aborted) {
-      throw new Error('Request cancelled');
+      throw new WorkflowCancelledError();
     }
 
-    const isContinuousIteration = request.navigation === true || request.reaching_flag === true;
-
     if (!isContinuousIteration && (!request.text || !request.text.trim())) {
-      const message = 'No voice command provided. Please speak your request.';
-      AccessibilityService.announceError(message, false);
-      throw new Error(message);
+      throw new WorkflowValidationError(
+        'Empty transcript',
+        'No voice command provided. Please speak your request.'
+      );
+    }
+
+    const sessionId = sessionManager.getSessionId();
+    sessionManager.touch(isContinuousIteration ? undefined : request.text, requestId);
+    if (!isContinuousIteration) {
+      conversationLog.addUserTurn(sessionId, request.text, requestId);
     }
+    latencyTracer.annotate({
+      requestId,
+      sessionId,
+      environmentId: environmentService.getEnvironmentId(),
+    });
 
-    // ========================================================================
-    // Prepare FormData
-    // ========================================================================
-    const formData = new FormData();
-    
-    formData.append('transcript', request.text || '');
-    
-    // THREE-FLAG SYSTEM
-    const navigationValue = request.navigation === true ? 'true' : 'false';
-    const reachingValue = request.reaching_flag === true ? 'true' : 'false';
-    
-    formData.append('navigation', navigationValue);
-    formData.append('reaching_flag', reachingValue);
-    
-    formData.append('user_id', 'mobile-user');
-    formData.append('request_id', `mobile-${Date.now()}`);
-    formData.append('session_id', SESSION_ID);
-    formData.append('continuousMode', isContinuousIteration ? 'true' : 'false');
-
-    // Add image if provided
-    if (request.imageUri) {
-      let imageUri = request.imageUri;
-      if (Platform.OS === 'android' && !imageUri.startsWith('file://')) {
-        imageUri = `file://${imageUri}`;
+    const response = await withRetry(
+      attempt => postToWorkflow(request, sessionId, requestId, attempt, signal),
+      {
+        signal,
+        shouldAbort: options.shouldAbort,
+        policy: {
+          ...(isContinuousIteration ? { maxAttempts: RETRY_CONFIG.CONTINUOUS_MAX_ATTEMPTS } : {}),
+          ...options.retryPolicy,
+        },
       }
+    );
 
-      formData.append('image', {
-        uri: imageUri, 
-        type: 'image/jpeg',
-        name: 'photo.jpg',
-      } as any);
+    // Continuous iterations are logged by the loop engine once spoken,
+    // collapsed to the latest, so they do not drown out the conversation
+    if (!isContinuousIteration) {
+      conversationLog.addAssistantTurn(sessionId, response, requestId);
+    }
+    return response;
+
+  } catch (error: any) {
+    const workflowError = toWorkflowError(error, signal);
+    if (workflowError instanceof WorkflowCancelledError) {
+      throw workflowError;
     }
 
-    console.log('🚀 Sending to workflow:', WORKFLOW_URL);
-    console.log('📝 Transcript:', request.text || '(continuous mode)');
-    console.log('🔄 Navigation:', navigationValue);
-    console.log('🎯 Reaching:', reachingValue);
-    console.log('🆔 Session:', SESSION_ID);
+    console.error(`❌ Workflow ${workflowError.kind} error:`, workflowError.cause || workflowError);
 
-    if (signal?.aborted) {
-      throw new Error('Request cancelled');
+    if (workflowError instanceof WorkflowNetworkError) {
+      // Save one-shot questions for when the connection returns
+      const queued = await offlineQueue.enqueue({ ...request, request_id: requestId }, sessionManager.getSessionId());
+      if (queued) {
+        throw new OfflineQueuedError(queued, workflowError);
+      }
+    }
+
+    throw workflowError;
+  }
+};
+
+// Set once the platform delivers a progress event; until then the connect
+// timeout cannot tell a dead connection from a platform that reports none
+let progressEventsSeen = false;
+
+/**
+ * Build the multipart request, POST it and parse the response
+ *
+ * Shared by sendToWorkflow and the offline queue replay. Throws raw
+ * axios errors; presentation is up to the caller.
+ *
+ * Timeouts are split in two phases:
+ * - connect: from start until the first progress event (CONNECT_TIMEOUT_MS)
+ * - response: from then until the response (RESPONSE_TIMEOUT_MS)
+ * Until the platform has reported progress once, a missing event cannot
+ * mean a dead connection, so the request gets the full cap of both
+ * instead. Each throws an AxiosError with code ETIMEDOUT (retryable).
+ */
+const postToWorkflow = async (
+  request: WorkflowRequest,
+  sessionId: string,
+  requestId: string,
+  attempt: number,
+  signal?: AbortSignal
+): Promise<WorkflowResponse> => {
+  const isContinuousIteration = request.navigation === true || request.reaching_flag === true || !!request.action;
+
+  const formData = buildWorkflowFormData(request, sessionId, requestId, attempt);
+  const authHeaders = await authService.getAuthHeaders();
+
+  if (signal?.aborted) {
+    throw new WorkflowCancelledError();
+  }
+
+  // ========================================================================
+  // Make request (per-attempt controller, linked to the caller's signal)
+  // ========================================================================
+  const attemptController = new AbortController();
+  const forwardAbort = () => attemptController.abort();
+  signal?.addEventListener('abort', forwardAbort);
+
+  const timeouts = {
+    connect: RETRY_CONFIG.CONNECT_TIMEOUT_MS,
+    response: RETRY_CONFIG.RESPONSE_TIMEOUT_MS,
+    request: RETRY_CONFIG.CONNECT_TIMEOUT_MS + RETRY_CONFIG.RESPONSE_TIMEOUT_MS,
+  };
+  type TimeoutPhase = keyof typeof timeouts;
+  let timedOutPhase: TimeoutPhase | null = null;
+  const startPhase = (phase: TimeoutPhase) => setTimeout(() => {
+    timedOutPhase = phase;
+    attemptController.abort();
+  }, timeouts[phase]);
+  let phaseTimer = startPhase(progressEventsSeen ? 'connect' : 'request');
+
+  // Latency spans: upload (request start → body sent), server (→ response)
+  const uploadSpan = latencyTracer.startSpan('upload', { attempt, hasImage: !!request.imageUri });
+  let serverSpan: SpanHandle | null = null;
+
+  // First progress event of either direction: connected
+  let connected = false;
+  const onConnected = () => {
+    progressEventsSeen = true;
+    if (!connected) {
+      connected = true;
+      clearTimeout(phaseTimer);
+      phaseTimer = startPhase('response');
     }
+  };
+
+  const onUploadProgress = (event: AxiosProgressEvent) => {
+    onConnected();
 
-    // ========================================================================
-    // Make request
-    // ========================================================================
-    const response = await axios.post<any>(
-      WORKFLOW_URL,
+    const uploaded = event.total ? event.loaded >= event.total : event.progress === 1;
+    if (uploaded && !serverSpan) {
+      uploadSpan.end({ bytes: event.total || event.loaded });
+      serverSpan = latencyTracer.startSpan('server', { attempt });
+    }
+  };
+
+  let response;
+  try {
+    response = await axios.post<any>(
+      environmentService.getWorkflowUrl(),
       formData,
       {
         headers: {
           'Content-Type': 'multipart/form-data',
           'Accept': 'application/json',
+          'X-Request-ID': requestId,
+          'Idempotency-Key': requestId,
+          ...authHeaders,
         },
-        timeout: CONFIG.REQUEST_TIMEOUT,
-        signal,
+        signal: attemptController.signal,
+        onUploadProgress,
+        onDownloadProgress: onConnected,
       }
     );
+  } catch (error: any) {
+    uploadSpan.end({ failed: true });
+    (serverSpan as SpanHandle | null)?.end({ failed: true, code: error?.code || 'unknown' });
+
+    if (timedOutPhase && !signal?.aborted) {
+      throw new AxiosError(`Workflow ${timedOutPhase} timeout after ${timeouts[timedOutPhase]}ms`, 'ETIMEDOUT');
+    }
+    if (error?.response?.status === 401 && await authService.refresh()) {
+      // New token - let withRetry repeat the attempt
+      error.retryable = true;
+    }
+    throw error;
+  } finally {
+    clearTimeout(phaseTimer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+
+  if (signal?.aborted) {
+    throw new WorkflowCancelledError();
+  }
+
+  // Without upload progress events the whole request counts as upload
+  uploadSpan.end();
+  (serverSpan as SpanHandle | null)?.end({ status: response.status });
+
+  console.log('✅ Workflow response received');
+
+  // ========================================================================
+  // Parse response with THREE-FLAG support (including reaching_ios)
+  // ========================================================================
+  const parsedResponse = parseWorkflowResponse(response.data);
+  
+  console.log('📄 Response:', {
+    textLength: parsedResponse.text?.length || 0,
+    navigation: parsedResponse.navigation,
+    reaching_flag: parsedResponse.reaching_flag,
+    reaching_ios: parsedResponse.reaching_ios,
+    bbox: !!parsedResponse.bbox,
+    object: parsedResponse.object,
+  });
+
+  attachImageSize(parsedResponse, request);
+
+  return ensureResponseText(parsedResponse, isContinuousIteration, request.frame_unchanged === true);
+};
+
+const toFileUri = (path: string): string =>
+  Platform.OS === 'android' && !path.startsWith('file://') ? `file://${path}` : path;
+
+/**
+ * Build the multipart body shared by the POST and streaming transports
+ */
+const buildWorkflowFormData = (
+  request: WorkflowRequest,
+  sessionId: string,
+  requestId: string,
+  attempt: number
+): FormData => {
+  const isContinuousIteration = request.navigation === true || request.reaching_flag === true || !!request.action;
+
+  const formData = new FormData();
+  
+  formData.append('transcript', request.text || '');
+  
+  // THREE-FLAG SYSTEM
+  const navigationValue = request.navigation === true ? 'true' : 'false';
+  const reachingValue = request.reaching_flag === true ? 'true' : 'false';
+  
+  formData.append('navigation', navigationValue);
+  formData.append('reaching_flag', reachingValue);
+  if (request.action) {
+    formData.append('action', request.action);
+  }
+  if (request.frame_unchanged) {
+    formData.append('frame_unchanged', 'true');
+  }
+  
+  formData.append('user_id', authService.getUserId());
+  formData.append('request_id', requestId);
+  formData.append('attempt', String(attempt));
+  formData.append('session_id', sessionId);
+  formData.append('continuousMode', isContinuousIteration ? 'true' : 'false');
+  formData.append('schema_version', String(WORKFLOW_SCHEMA_VERSION));
+
+  // Recent turns, so follow-ups make sense without server-side memory
+  if (CONVERSATION_CONFIG.ENABLED) {
+    formData.append('conversation_history', JSON.stringify(conversationLog.buildContext(sessionId, requestId)));
+  }
+
+  // Add image if provided (a burst goes out as image_0..n instead)
+  if (request.frames && request.frames.length > 1) {
+    request.frames.forEach((frame, index) => {
+      formData.append(`image_${index}`, {
+        uri: toFileUri(frame.uri),
+        type: 'image/jpeg',
+        name: `photo_${index}.jpg`,
+      } as any);
+      formData.append(`image_${index}_timestamp`, String(frame.capturedAt));
+    });
+    formData.append('image_count', String(request.frames.length));
+  } else if (request.imageUri) {
+    formData.append('image', {
+      uri: toFileUri(request.imageUri),
+      type: 'image/jpeg',
+      name: 'photo.jpg',
+    } as any);
+  }
+
+  // Burst frames share the primary frame's size
+  if (request.imageUri && request.imageWidth && request.imageHeight) {
+    formData.append('image_width', String(request.imageWidth));
+    formData.append('image_height', String(request.imageHeight));
+  }
+
+  console.log('🚀 Sending to workflow:', environmentService.getWorkflowUrl());
+  console.log('📝 Transcript:', request.text || '(continuous mode)');
+  console.log('🔄 Navigation:', navigationValue);
+  console.log('🎯 Reaching:', reachingValue);
+  console.log('🆔 Session:', sessionId);
+  console.log(`🔖 Request: ${requestId} (attempt ${attempt})`);
+
+  return formData;
+};
 
+/**
+ * Record which image the backend's bbox refers to, and check the bbox
+ * against it (out-of-bounds / swapped corners end up in diagnostics)
+ */
+const attachImageSize = (parsedResponse: WorkflowResponse, request: WorkflowRequest): void => {
+  if (request.imageWidth && request.imageHeight) {
+    parsedResponse.imageSize = {
+      width: request.imageWidth,
+      height: request.imageHeight,
+      orientation: request.imageOrientation,
+      isMirrored: request.imageMirrored,
+    };
+  }
+
+  if (parsedResponse.bbox && parsedResponse.imageSize) {
+    const validation = validateBbox(parsedResponse.bbox, parsedResponse.imageSize, parsedResponse.bbox_units);
+    const issues = validation.valid ? validation.warnings : [validation.error || 'invalid bbox'];
+    issues.forEach(message => {
+      parsedResponse.diagnostics?.warnings.push({ severity: 'warning', code: 'invalid_value', field: 'bbox', message });
+    });
+  }
+};
+
+/**
+ * Empty text is an error for one-shot questions; continuous iterations
+ * and iOS reaching get a short default instead. A heartbeat for an
+ * unchanged frame may stay silent while the loop goes on.
+ */
+const ensureResponseText = (
+  parsedResponse: WorkflowResponse,
+  isContinuousIteration: boolean,
+  isHeartbeat: boolean = false
+): WorkflowResponse => {
+  if (!parsedResponse.text || !parsedResponse.text.trim()) {
+    if (!isContinuousIteration && !parsedResponse.reaching_ios) {
+      throw new WorkflowEmptyResponseError();
+    } else {
+      const loopContinues = parsedResponse.navigation || parsedResponse.reaching_flag || !!parsedResponse.action;
+      parsedResponse.text = loopContinues
+        ? (isHeartbeat ? '' : 'Continue')
+        : parsedResponse.reaching_ios
+        ? `Guiding you to ${parsedResponse.object || 'the object'}`
+        : 'Task complete';
+    }
+  }
+
+  return parsedResponse;
+};
+
+// =============================================================================
+// STREAMING (speech starts before the full answer has arrived)
+// =============================================================================
+
+export interface StreamWorkflowResult {
+  response: WorkflowResponse;
+  /** true when the answer text was already delivered through onToken */
+  textStreamed: boolean;
+}
+
+/**
+ * Send a one-shot request and stream the answer
+ *
+ * Text tokens go to handlers.onToken as they arrive; the final response
+ * (flags, bbox, full text) is validated exactly like the POST response.
+ *
+ * Uses sendToWorkflow (blocking POST with retries) when streaming is
+ * disabled or the backend does not list the 'stream' feature, and for
+ * continuous iterations. Falls back to it only when the stream fails
+ * before the server accepted the request. Once the server answered 2xx
+ * the workflow has run: a failure is thrown, never replayed as a second
+ * POST (WorkflowInterruptedError if the user already heard part of it).
+ */
+export const streamFromWorkflow = async (
+  request: WorkflowRequest,
+  handlers: WorkflowStreamHandlers,
+  signal?: AbortSignal,
+  options: SendToWorkflowOptions = {}
+): Promise<StreamWorkflowResult> => {
+  const isContinuousIteration = request.navigation === true || request.reaching_flag === true || !!request.action;
+
+  const canStream = WORKFLOW_STREAM_CONFIG.ENABLED && capabilityService.supportsFeature('stream');
+
+  if (!canStream || isContinuousIteration || !request.text?.trim()) {
+    return { response: await sendToWorkflow(request, signal, options), textStreamed: false };
+  }
+
+  const requestId = request.request_id || generateRequestId();
+
+  try {
     if (signal?.aborted) {
-      throw new Error('Request cancelled');
+      throw new WorkflowCancelledError();
     }
 
-    console.log('✅ Workflow response received');
-
-    // ========================================================================
-    // Parse response with THREE-FLAG support (including reaching_ios)
-    // ========================================================================
-    const parsedResponse = parseWorkflowResponse(response.data);
-    
-    console.log('📄 Response:', {
-      textLength: parsedResponse.text?.length || 0,
-      navigation: parsedResponse.navigation,
-      reaching_flag: parsedResponse.reaching_flag,
-      reaching_ios: parsedResponse.reaching_ios,
-      bbox: !!parsedResponse.bbox,
-      object: parsedResponse.object,
+    sessionManager.touch(request.text, requestId);
+    conversationLog.addUserTurn(sessionManager.getSessionId(), request.text, requestId);
+    latencyTracer.annotate({
+      requestId,
+      sessionId: sessionManager.getSessionId(),
+      environmentId: environmentService.getEnvironmentId(),
     });
 
-    // ========================================================================
-    // Validate response
-    // ========================================================================
-    if (!parsedResponse.text || !parsedResponse.text.trim()) {
-      if (!isContinuousIteration && !parsedResponse.reaching_ios) {
-        const message = 'Server returned empty response. Please try again.';
-        AccessibilityService.announceError(message, false);
-        throw new Error(message);
-      } else {
-        parsedResponse.text = parsedResponse.navigation || parsedResponse.reaching_flag
-          ? 'Continue'
-          : parsedResponse.reaching_ios
-          ? `Guiding you to ${parsedResponse.object || 'the object'}`
-          : 'Task complete';
-      }
+    const formData = buildWorkflowFormData(request, sessionManager.getSessionId(), requestId, 1);
+    formData.append('stream', 'true');
+    // A 401 here falls back to the POST path, which refreshes the token
+    const authHeaders = await authService.getAuthHeaders();
+
+    const streamSpan = latencyTracer.startSpan('workflow_stream');
+    let result;
+    try {
+      result = await openWorkflowStream(
+        environmentService.getWorkflowUrl(),
+        formData,
+        {
+          'X-Request-ID': requestId,
+          'Idempotency-Key': requestId,
+          ...authHeaders,
+        },
+        {
+          ...handlers,
+          onToken: (token) => {
+            latencyTracer.markOnce('first_token');
+            handlers.onToken?.(token);
+          },
+        },
+        signal
+      );
+      streamSpan.end({ streamed: result.streamed });
+    } catch (streamError: any) {
+      streamSpan.end({ failed: true });
+      throw streamError;
+    }
+
+    if (signal?.aborted) {
+      throw new WorkflowCancelledError();
     }
 
-    return parsedResponse;
+    console.log(`✅ Workflow ${result.streamed ? 'stream' : 'response'} complete`);
+
+    const parsedResponse = parseWorkflowResponse(result.payload);
+    attachImageSize(parsedResponse, request);
+    ensureResponseText(parsedResponse, false);
+    conversationLog.addAssistantTurn(sessionManager.getSessionId(), parsedResponse, requestId);
+
+    return {
+      response: parsedResponse,
+      textStreamed: result.receivedTokens,
+    };
 
   } catch (error: any) {
-    if (signal?.aborted || error.code === 'ERR_CANCELED' || error.message?.includes('cancel')) {
-      throw new Error('Request cancelled');
+    if (signal?.aborted || isCancelledError(error)) {
+      throw toWorkflowError(error, signal);
     }
 
-    console.error('❌ Workflow error:', error);
-    
-    let userMessage = 'Failed to process request.';
-
-    if (axios.isAxiosError(error)) {
-      if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
-        userMessage = 'Request timed out. Please try again.';
-      } 
-      else if (error.code === 'ERR_NETWORK' || error.message.includes('Network')) {
-        userMessage = 'Network error. Please check your connection.';
-      }
-      else if (error.response) {
-        const status = error.response.status;
-        userMessage = status >= 500 
-          ? 'Server error. Please try again later.'
-          : `Error (${status}). Please try again.`;
-      }
+    if (error instanceof WorkflowStreamError && error.receivedTokens) {
+      console.error('❌ Workflow stream broke mid-answer:', error);
+      throw new WorkflowInterruptedError(error);
     }
 
-    AccessibilityService.announceError(userMessage, false);
-    Alert.alert('Request Failed', userMessage, [{ text: 'OK' }]);
+    // The server took the request, so the workflow already ran: a second
+    // POST would run it again and make the user wait twice
+    if (error instanceof WorkflowStreamError && error.accepted) {
+      console.error('❌ Workflow stream failed after the server accepted it:', error);
+      throw toWorkflowError(error, signal);
+    }
 
-    throw new Error(userMessage);
+    console.warn('⚠️ Workflow stream unavailable, falling back to POST:', error?.message);
+    return {
+      response: await sendToWorkflow({ ...request, request_id: requestId }, signal, options),
+      textStreamed: false,
+    };
   }
 };
 
 // =============================================================================
-// RESPONSE PARSER (with reaching_ios support)
+// OFFLINE QUEUE REPLAY
 // =============================================================================
 
-function parseWorkflowResponse(data: any): WorkflowResponse {
-  const defaultResponse: WorkflowResponse = {
-    text: '',
-    navigation: false,
-    reaching_flag: false,
-    reaching_ios: false,
-    loopDelay: NAVIGATION_CONFIG.DEFAULT_LOOP_DELAY_MS,
-    session_id: SESSION_ID,
-  };
+offlineQueue.setSender(async item => {
+  const requestId = item.request_id || generateRequestId();
+  const response = await postToWorkflow(
+    {
+      text: item.transcript,
+      imageUri: item.photoPath,
+      navigation: false,
+      reaching_flag: false,
+    },
+    item.session_id,
+    requestId,
+    item.attempts
+  );
+  conversationLog.addAssistantTurn(item.session_id, response, requestId);
+  return response;
+});
+
+// =============================================================================
+// SESSION EVENTS (start / end / resume reported to the backend)
+// =============================================================================
 
-  if (!data) {
-    console.warn('⚠️ Empty response data');
-    return defaultResponse;
+// Only to an endpoint the handshake names: the workflow webhook would run
+// the whole vision / LLM pipeline for each event
+sessionManager.setEventSender(async (event, session, reason) => {
+  const { sessionEventsUrl } = await capabilityService.ready();
+  if (!sessionEventsUrl) {
+    console.log(`📨 [Workflow] Session event ${event} not reported (backend has no session events endpoint)`);
+    return;
   }
 
-  const payload = Array.isArray(data) ? data[0] : data;
-  if (!payload) {
-    console.warn('⚠️ No payload after unwrap');
-    return defaultResponse;
+  const formData = new FormData();
+  formData.append('session_event', event);
+  formData.append('session_id', session.id);
+  formData.append('user_id', authService.getUserId());
+  formData.append('turn_count', String(session.turnCount));
+  formData.append('schema_version', String(WORKFLOW_SCHEMA_VERSION));
+  if (reason) {
+    formData.append('reason', reason);
   }
 
-  const innerPayload = payload.json || payload;
+  console.log(`📨 [Workflow] Session event ${event}: ${session.id}${reason ? ` (${reason})` : ''}`);
 
-  // Extract text
-  let text = '';
-  if (typeof innerPayload.text === 'string') {
-    text = innerPayload.text.trim();
-  } else if (typeof innerPayload.response === 'string') {
-    text = innerPayload.response.trim();
-  } else if (typeof innerPayload.message === 'string') {
-    text = innerPayload.message.trim();
-  }
+  await authService.withAuth(authHeaders => axios.post(sessionEventsUrl, formData, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+      'Accept': 'application/json',
+      ...authHeaders,
+    },
+    timeout: RETRY_CONFIG.CONNECT_TIMEOUT_MS,
+  }));
+});
 
-  // =========================================================================
-  // THREE-FLAG EXTRACTION
-  // =========================================================================
-  
-  // Navigation flag
-  let navigation = false;
-  if (typeof innerPayload.navigation === 'boolean') {
-    navigation = innerPayload.navigation;
-  } else if (typeof innerPayload.navigation === 'string') {
-    navigation = innerPayload.navigation.toLowerCase() === 'true';
-  }
-  
-  // Reaching flag (Android LLM-based)
-  let reaching_flag = false;
-  if (typeof innerPayload.reaching_flag === 'boolean') {
-    reaching_flag = innerPayload.reaching_flag;
-  } else if (typeof innerPayload.reaching_flag === 'string') {
-    reaching_flag = innerPayload.reaching_flag.toLowerCase() === 'true';
-  }
-  if (!reaching_flag && typeof innerPayload.reachingFlag === 'boolean') {
-    reaching_flag = innerPayload.reachingFlag;
-  }
+/**
+ * Retry queued offline requests now (e.g. after the user taps)
+ */
+export const flushOfflineQueue = (): Promise<number> => offlineQueue.flush();
 
-  // =========================================================================
-  // reaching_ios flag (iOS native ARKit) - HIGHEST PRIORITY
-  // =========================================================================
-  let reaching_ios = false;
-  if (typeof innerPayload.reaching_ios === 'boolean') {
-    reaching_ios = innerPayload.reaching_ios;
-  } else if (typeof innerPayload.reaching_ios === 'string') {
-    reaching_ios = innerPayload.reaching_ios.toLowerCase() === 'true';
-  }
-  // Also check camelCase variant
-  if (!reaching_ios && typeof innerPayload.reachingIos === 'boolean') {
-    reaching_ios = innerPayload.reachingIos;
-  }
+// =============================================================================
+// RESPONSE PARSER (schema-validated, see WorkflowResponseSchema.ts)
+// =============================================================================
 
-  // =========================================================================
-  // BBOX extraction (when reaching_ios is true)
-  // =========================================================================
-  let bbox: [number, number, number, number] | undefined;
-  
-  if (innerPayload.bbox) {
-    if (Array.isArray(innerPayload.bbox) && innerPayload.bbox.length === 4) {
-      bbox = innerPayload.bbox.map((v: any) => Number(v)) as [number, number, number, number];
-    } else if (typeof innerPayload.bbox === 'string') {
-      try {
-        // Handle both "[1,2,3,4]" and "1,2,3,4" formats
-        let bboxString = innerPayload.bbox.trim();
-        if (bboxString.startsWith('[') && bboxString.endsWith(']')) {
-          bboxString = bboxString.slice(1, -1);
-        }
-        const parts = bboxString.split(',').map((v: string) => Number(v.trim()));
-        if (parts.length === 4 && parts.every((n: number) => !isNaN(n))) {
-          bbox = parts as [number, number, number, number];
-        }
-      } catch (e) {
-        console.warn('⚠️ Failed to parse bbox string:', innerPayload.bbox);
-      }
-    }
-  }
+function parseWorkflowResponse(data: any): WorkflowResponse {
+  const { response, diagnostics, valid } = validateWorkflowResponse(data, sessionManager.getSessionId());
 
-  // =========================================================================
-  // Object name extraction
-  // =========================================================================
-  let object: string | undefined;
-  if (typeof innerPayload.object === 'string' && innerPayload.object.trim()) {
-    object = innerPayload.object.trim();
-  } else if (typeof innerPayload.objectName === 'string' && innerPayload.objectName.trim()) {
-    object = innerPayload.objectName.trim();
-  }
+  // Drop actions the backend did not declare in the handshake
+  capabilityService.adaptResponse(response);
 
-  // Loop delay
-  let loopDelay = NAVIGATION_CONFIG.DEFAULT_LOOP_DELAY_MS;
-  if (typeof innerPayload.loopDelay === 'number' && innerPayload.loopDelay > 0) {
-    loopDelay = innerPayload.loopDelay;
-  }
+  console.log('📋 Schema:', summarizeDiagnostics(diagnostics));
+  diagnostics.warnings.forEach(issue => {
+    console.warn(`⚠️ [Schema] ${issue.field}: ${issue.message}`);
+  });
+  diagnostics.errors.forEach(issue => {
+    console.error(`❌ [Schema] ${issue.field}: ${issue.message}`);
+  });
 
-  // Session ID from response (or use current)
-  const session_id = innerPayload.session_id || SESSION_ID;
+  if (!valid) {
+    // Reported to the user by the caller (response.diagnostics.errors)
+    console.warn('⚠️ [Schema] Response is incomplete, some actions may not work');
+  }
 
-  console.log('📋 Parsed:', { 
-    text: text.substring(0, 50), 
-    navigation, 
-    reaching_flag,
-    reaching_ios,
-    bbox: bbox ? `[${bbox.join(', ')}]` : 'none',
-    object,
+  console.log('📋 Parsed:', {
+    text: response.text.substring(0, 50),
+    navigation: response.navigation,
+    reaching_flag: response.reaching_flag,
+    reaching_ios: response.reaching_ios,
+    bbox: response.bbox ? `[${response.bbox.join(', ')}]` : 'none',
+    object: response.object,
   });
 
-  return { 
-    text, 
-    navigation, 
-    reaching_flag, 
-    reaching_ios,
-    bbox,
-    object,
-    loopDelay,
-    session_id,
-  };
+  return response;
 }
 
 // =============================================================================
-// ★★★ NEW: Determine action mode with PRIORITY for reaching_ios ★★★
+// Determine action mode (ActionRegistry)
 // =============================================================================
 
-export type ActionMode = 
-  | { type: 'reaching_ios'; bbox: [number, number, number, number]; object: string }
-  | { type: 'reaching'; loopDelay: number }
-  | { type: 'navigation'; loopDelay: number }
-  | { type: 'none' };
+export interface ActionMode {
+  type: ActionType | 'none';
+  action: ActionDefinition | null;   // null = no action, back to ready
+  loopDelay: number;
+}
 
 /**
- * Determine what action to take based on response flags
- * 
- * PRIORITY ORDER:
- * 1. reaching_ios (iOS ARKit) - HIGHEST PRIORITY
- * 2. reaching_flag (Android LLM loop)
- * 3. navigation (Navigation loop)
- * 4. none (No continuous action)
+ * Determine what action to take based on the response
+ *
+ * The registered actions are checked by priority (built-ins:
+ * reaching_ios → reaching → navigation, see ActionRegistry). Actions the
+ * backend did not declare in the capability handshake are skipped, so
+ * the next priority applies.
+ *
+ * @param currentType - Running loop's action; it is kept while the
+ *   response still asks for it, instead of switching to a higher priority
  */
-export const determineActionMode = (response: WorkflowResponse): ActionMode => {
-  // =========================================================================
-  // PRIORITY 1: iOS ARKit Reaching (only on iOS, requires bbox)
-  // =========================================================================
-  if (Platform.OS === 'ios' && response.reaching_ios && response.bbox) {
-    console.log('🎯 [Priority] iOS ARKit reaching takes priority');
-    return {
-      type: 'reaching_ios',
-      bbox: response.bbox,
-      object: response.object || 'object',
-    };
-  }
-
-  // =========================================================================
-  // PRIORITY 2: Reaching flag (continuous loop)
-  // =========================================================================
-  if (response.reaching_flag) {
-    console.log('🔄 [Priority] Reaching continuous mode');
-    return {
-      type: 'reaching',
-      loopDelay: response.loopDelay || NAVIGATION_CONFIG.DEFAULT_LOOP_DELAY_MS,
-    };
-  }
+export const determineActionMode = (
+  response: WorkflowResponse,
+  currentType?: ActionType | null
+): ActionMode => {
+  const action = actionRegistry.detect(response, {
+    currentType,
+    isSupported: definition => !definition.capability || capabilityService.supportsAction(definition.capability),
+  });
 
-  // =========================================================================
-  // PRIORITY 3: Navigation flag (continuous loop)
-  // =========================================================================
-  if (response.navigation) {
-    console.log('🗺️ [Priority] Navigation continuous mode');
-    return {
-      type: 'navigation',
-      loopDelay: response.loopDelay || NAVIGATION_CONFIG.DEFAULT_LOOP_DELAY_MS,
-    };
+  if (!action) {
+    console.log('✅ [Priority] No continuous mode needed');
+    return { type: 'none', action: null, loopDelay: 0 };
   }
 
-  // =========================================================================
-  // PRIORITY 4: No continuous action
-  // =========================================================================
-  console.log('✅ [Priority] No continuous mode needed');
-  return { type: 'none' };
+  console.log(`🧩 [Priority] ${action.type} (${action.loop})`);
+  return {
+    type: action.type,
+    action,
+    loopDelay: capabilityService.clampLoopDelay(response.loopDelay || NAVIGATION_CONFIG.DEFAULT_LOOP_DELAY_MS),
+  };
 };
 
 // =============================================================================
@@ -548,8 +801,11 @@ export const determineActionMode = (response: WorkflowResponse): ActionMode => {
 
 export default {
   sendToWorkflow,
+  streamFromWorkflow,
+  flushOfflineQueue,
   getSessionId,
   resetSessionId,
+  generateRequestId,
   isContinuousModeActive,
   getCurrentMode,
   getContinuousModeIteration,
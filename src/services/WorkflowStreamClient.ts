@@ -0,0 +1,390 @@
+/**
+ * src/services/WorkflowStreamClient.ts
+ *
+ * Streaming workflow transport
+ *
+ * Time to first audio is the biggest complaint from blind testers. The
+ * blocking POST waits for the whole answer before TTS can start; this
+ * client reads the answer while it is still being generated.
+ *
+ * Uses XMLHttpRequest (like SpeachesStreamingTTSClient) because React
+ * Native's fetch cannot read a response body incrementally.
+ *
+ * Accepted wire formats (negotiated with Accept: text/event-stream):
+ *
+ * 1. Server-Sent Events
+ *      event: token   data: {"text": "Turn "}
+ *      event: flags   data: {"navigation": true, "loopDelay": 2000}
+ *      event: done    data: { ...full WorkflowResponse payload... }
+ *      event: error   data: {"message": "..."}
+ *
+ * 2. n8n streaming webhook (newline-delimited JSON)
+ *      {"type": "item", "content": "Turn "}
+ *      {"type": "end"}
+ *
+ * 3. Plain JSON (server does not stream) - parsed as the final payload
+ */
+
+import { WORKFLOW_STREAM_CONFIG } from '../utils/constants';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface WorkflowStreamHandlers {
+  /** A piece of answer text, in order */
+  onToken?: (text: string) => void;
+  /** Partial flag update (navigation, reaching_flag, loopDelay, ...) */
+  onFlags?: (flags: Record<string, any>) => void;
+}
+
+export interface WorkflowStreamResult {
+  /** Raw final payload, ready for validateWorkflowResponse */
+  payload: Record<string, any>;
+  /** false when the server answered with plain JSON */
+  streamed: boolean;
+  /** true once at least one token was delivered to onToken */
+  receivedTokens: boolean;
+}
+
+/**
+ * Thrown for failures. accepted tells the caller whether the server had
+ * taken the request (2xx headers: the workflow ran, a fallback POST would
+ * run it again); receivedTokens whether part of the answer already reached
+ * the user.
+ */
+export class WorkflowStreamError extends Error {
+  readonly status: number;
+  readonly receivedTokens: boolean;
+  readonly accepted: boolean;
+
+  constructor(message: string, status: number, receivedTokens: boolean, accepted: boolean = receivedTokens) {
+    super(message);
+    this.name = 'WorkflowStreamError';
+    this.status = status;
+    this.receivedTokens = receivedTokens;
+    this.accepted = accepted;
+  }
+}
+
+// =============================================================================
+// Stream parser
+// =============================================================================
+
+/**
+ * Incremental parser for SSE and NDJSON chunks
+ */
+export class StreamParser {
+  private buffer: string = '';
+  private eventName: string = '';
+  private dataLines: string[] = [];
+
+  text: string = '';
+  flags: Record<string, any> = {};
+  donePayload: Record<string, any> | null = null;
+  errorMessage: string | null = null;
+  receivedTokens: boolean = false;
+
+  constructor(private handlers: WorkflowStreamHandlers) {}
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+
+    let newlineIndex = this.buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const line = this.buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      this.handleLine(line);
+      newlineIndex = this.buffer.indexOf('\n');
+    }
+  }
+
+  end(): void {
+    if (this.buffer.trim()) {
+      this.handleLine(this.buffer);
+    }
+    this.buffer = '';
+    this.dispatchEvent();
+  }
+
+  private handleLine(line: string): void {
+    // Blank line terminates an SSE event
+    if (line === '') {
+      this.dispatchEvent();
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      return; // SSE comment / keep-alive
+    }
+
+    if (line.startsWith('event:')) {
+      this.eventName = line.slice(6).trim();
+      return;
+    }
+
+    if (line.startsWith('data:')) {
+      this.dataLines.push(line.slice(5).replace(/^ /, ''));
+      return;
+    }
+
+    // NDJSON line (n8n streaming webhook)
+    const trimmed = line.trim();
+    if (trimmed.startsWith('{')) {
+      const json = this.parseJSON(trimmed);
+      if (json) {
+        this.handleNdjson(json);
+      }
+    }
+  }
+
+  private dispatchEvent(): void {
+    if (this.dataLines.length === 0) {
+      this.eventName = '';
+      return;
+    }
+
+    const data = this.dataLines.join('\n');
+    const name = this.eventName || 'message';
+    this.eventName = '';
+    this.dataLines = [];
+
+    const json = this.parseJSON(data);
+
+    switch (name) {
+      case 'token':
+      case 'message':
+        if (json && typeof json === 'object') {
+          const text = json.text ?? json.delta ?? json.content;
+          if (typeof text === 'string') {
+            this.emitToken(text);
+          }
+        } else {
+          this.emitToken(data);
+        }
+        break;
+
+      case 'flags':
+        if (json) {
+          this.emitFlags(json);
+        }
+        break;
+
+      case 'done':
+        this.donePayload = json || {};
+        break;
+
+      case 'error':
+        this.errorMessage = json?.message || data || 'Stream error';
+        break;
+
+      default:
+        console.log(`🌊 [WorkflowStream] Ignoring event "${name}"`);
+    }
+  }
+
+  private handleNdjson(json: Record<string, any>): void {
+    switch (json.type) {
+      case 'item':
+        if (typeof json.content === 'string') {
+          this.emitToken(json.content);
+        }
+        break;
+      case 'flags':
+        this.emitFlags(json.content || json);
+        break;
+      case 'done':
+        this.donePayload = json.content || json;
+        break;
+      case 'error':
+        this.errorMessage = json.content || json.message || 'Stream error';
+        break;
+      case 'begin':
+      case 'end':
+        break;
+      default:
+        // A complete non-streamed payload sent as a single JSON line
+        if (json.text !== undefined || json.navigation !== undefined) {
+          this.donePayload = json;
+        }
+    }
+  }
+
+  private emitToken(text: string): void {
+    if (!text) return;
+    this.text += text;
+    this.receivedTokens = true;
+    this.handlers.onToken?.(text);
+  }
+
+  private emitFlags(flags: Record<string, any>): void {
+    this.flags = { ...this.flags, ...flags };
+    this.handlers.onFlags?.(flags);
+  }
+
+  private parseJSON(data: string): any {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+}
+
+// =============================================================================
+// Transport
+// =============================================================================
+
+/**
+ * POST a workflow request and stream the answer
+ *
+ * @param url - Workflow webhook URL
+ * @param formData - Same multipart body as the blocking POST
+ * @param headers - Extra request headers
+ * @param handlers - Token / flag callbacks
+ * @param signal - Aborts the request
+ */
+export const openWorkflowStream = (
+  url: string,
+  formData: FormData,
+  headers: Record<string, string>,
+  handlers: WorkflowStreamHandlers,
+  signal?: AbortSignal
+): Promise<WorkflowStreamResult> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request cancelled'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const parser = new StreamParser(handlers);
+    let readIndex = 0;
+    let settled = false;
+    let isEventStream = false;
+    let accepted = false;
+
+    // Only until the server answers; after that the workflow is running
+    // and only TOTAL_TIMEOUT_MS applies
+    const firstByteTimer = setTimeout(() => {
+      console.warn(`⏱️ [WorkflowStream] No response after ${WORKFLOW_STREAM_CONFIG.FIRST_BYTE_TIMEOUT_MS}ms`);
+      fail(new WorkflowStreamError('Stream first byte timeout', 0, false));
+      xhr.abort();
+    }, WORKFLOW_STREAM_CONFIG.FIRST_BYTE_TIMEOUT_MS);
+
+    const streamError = (message: string, status: number) =>
+      new WorkflowStreamError(message, status, parser.receivedTokens, accepted);
+
+    const onAbort = () => {
+      xhr.abort();
+      fail(new Error('Request cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    const cleanup = () => {
+      clearTimeout(firstByteTimer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    function fail(error: Error) {
+      if (settled) return;
+      settled = true;
+      cleanup();
+      reject(error);
+    }
+
+    const readNewText = () => {
+      const text = xhr.responseText || '';
+      if (text.length > readIndex) {
+        clearTimeout(firstByteTimer);
+        const chunk = text.slice(readIndex);
+        readIndex = text.length;
+        if (isEventStream) {
+          parser.push(chunk);
+        }
+      }
+    };
+
+    xhr.open('POST', url, true);
+    xhr.setRequestHeader('Accept', 'text/event-stream, application/x-ndjson, application/json');
+    Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+    xhr.responseType = 'text';
+    xhr.timeout = WORKFLOW_STREAM_CONFIG.TOTAL_TIMEOUT_MS;
+
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED) {
+        clearTimeout(firstByteTimer);
+        accepted = xhr.status >= 200 && xhr.status < 300;
+        const contentType = (xhr.getResponseHeader('Content-Type') || '').toLowerCase();
+        isEventStream = contentType.includes('text/event-stream') || contentType.includes('ndjson');
+        console.log(`🌊 [WorkflowStream] ${xhr.status} ${contentType || '(no content-type)'}`);
+      }
+    };
+
+    xhr.onprogress = () => {
+      if (settled) return;
+      readNewText();
+    };
+
+    xhr.onload = () => {
+      if (settled) return;
+
+      if (xhr.status < 200 || xhr.status >= 300) {
+        fail(streamError(`HTTP ${xhr.status}`, xhr.status));
+        return;
+      }
+
+      readNewText();
+
+      if (!isEventStream) {
+        // Server answered with a regular JSON body
+        let payload: any = null;
+        try {
+          payload = JSON.parse(xhr.responseText || 'null');
+        } catch {
+          fail(streamError('Invalid JSON response', xhr.status));
+          return;
+        }
+        settled = true;
+        cleanup();
+        resolve({ payload, streamed: false, receivedTokens: false });
+        return;
+      }
+
+      parser.end();
+
+      if (parser.errorMessage) {
+        fail(streamError(parser.errorMessage, xhr.status));
+        return;
+      }
+
+      // Final payload: explicit "done" event, else assembled from the stream.
+      // Streamed text wins over a "done" payload without text.
+      const payload = {
+        ...parser.flags,
+        ...(parser.donePayload || {}),
+      };
+      if (!payload.text && parser.text) {
+        payload.text = parser.text;
+      }
+
+      settled = true;
+      cleanup();
+      resolve({ payload, streamed: true, receivedTokens: parser.receivedTokens });
+    };
+
+    xhr.onerror = () => {
+      fail(streamError('Network request failed', 0));
+    };
+
+    xhr.ontimeout = () => {
+      fail(streamError('Stream timeout', 0));
+    };
+
+    xhr.send(formData);
+  });
+};
+
+export default {
+  openWorkflowStream,
+};
@@ -1,20 +1,8 @@
 import RNFS from 'react-native-fs';
 import AudioRecord from 'react-native-audio-record';
-
-/**
- * Configuration matching N8N STT workflow
- */
-const SPEACHES_STT_CONFIG = {
-  // ✅ Public endpoint for transcription
-  sttUrl: 'https://cybersight.cim.mcgill.ca/speaches/v1/audio/transcriptions',
-  
-  // ✅ STT Parameters (from N8N workflow)
-  model: 'Systran/faster-distil-whisper-small.en',
-  language: 'en',
-  
-  // ✅ API Key (same as TTS)
-  apiKey: 'dev-test-key-change-in-production',
-};
+import { getSpeachesSttSettings } from './EnvironmentService';
+import { capabilityService } from './CapabilityService';
+import { authService } from './AuthService';
 
 /**
  * Speaches STT Client
@@ -138,17 +126,20 @@ class SpeachesSttClient {
 
   /**
    * Transcribe an audio file using Speaches API
+   * (also used for audio recorded elsewhere, e.g. barge-in)
    * * @param audioPath - Path to audio file
    * @returns Promise that resolves with transcript text
    */
-  private async transcribeAudioFile(audioPath: string): Promise<string> {
+  async transcribeAudioFile(audioPath: string): Promise<string> {
+    const config = capabilityService.adaptSttSettings(getSpeachesSttSettings());
+
     try {
       console.log('🎤 Transcribing audio:', audioPath);
 
       // ✅ Create FormData (multipart/form-data)
       const formData = new FormData();
       
-      formData.append('model', SPEACHES_STT_CONFIG.model);
+      formData.append('model', config.model);
 
       // ✅ Add audio file
       formData.append('file', {
@@ -157,24 +148,17 @@ class SpeachesSttClient {
         name: 'audio.wav',
       } as any);
 
-      // ✅ Build headers
-      const headers: Record<string, string> = {
-        'Content-Type': 'multipart/form-data',
-        'accept': 'application/json',
-      };
-
-      if (SPEACHES_STT_CONFIG.apiKey) {
-        headers['Authorization'] = `Bearer ${SPEACHES_STT_CONFIG.apiKey}`;
-        headers['X-API-Key'] = SPEACHES_STT_CONFIG.apiKey;
-      }
-
-      console.log('📤 Sending transcription request to:', SPEACHES_STT_CONFIG.sttUrl);
+      console.log('📤 Sending transcription request to:', config.sttUrl);
 
-      const response = await fetch(SPEACHES_STT_CONFIG.sttUrl, {
+      const response = await authService.withAuth(authHeaders => fetch(config.sttUrl, {
         method: 'POST',
-        headers,
+        headers: {
+          'Content-Type': 'multipart/form-data',
+          'accept': 'application/json',
+          ...authHeaders,
+        },
         body: formData,
-      });
+      }));
 
       if (!response.ok) {
         const errorBody = await response.text().catch(() => '');
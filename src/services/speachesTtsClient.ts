@@ -7,20 +7,10 @@
 import Sound from 'react-native-sound';
 import RNFS from 'react-native-fs';
 import { Buffer } from 'buffer';
-
-/**
- * Configuration matching N8N TTS workflow
- */
-const SPEACHES_CONFIG = {
-  ttsUrl: 'https://cybersight.cim.mcgill.ca/speaches/v1/audio/speech',
-  model: 'speaches-ai/Kokoro-82M-v1.0-ONNX',
-  voice: 'af_heart',
-  language: 'en-us',
-  responseFormat: 'mp3',
-  speed: 1,
-  sampleRate: 24000,
-  apiKey: 'dev-test-key-change-in-production',
-};
+import { getSpeachesTtsSettings } from './EnvironmentService';
+import { capabilityService } from './CapabilityService';
+import { authService } from './AuthService';
+import { latencyTracer } from './LatencyTracer';
 
 /**
  * Speaches TTS Client
@@ -49,6 +39,8 @@ class SpeachesTTSClient {
       return;
     }
 
+    const config = capabilityService.adaptTtsSettings(getSpeachesTtsSettings());
+
     try {
       // ✅ Stop any current speech first
       await this.stop();
@@ -56,44 +48,48 @@ class SpeachesTTSClient {
       console.log('🎤 Synthesizing speech:', trimmed.substring(0, 50) + '...');
 
       const payload = {
-        model: SPEACHES_CONFIG.model,
+        model: config.model,
         input: trimmed,
-        voice: SPEACHES_CONFIG.voice,
-        language: SPEACHES_CONFIG.language,
-        response_format: SPEACHES_CONFIG.responseFormat,
-        speed: SPEACHES_CONFIG.speed,
-        sample_rate: SPEACHES_CONFIG.sampleRate,
-      };
-
-      const headers: Record<string, string> = {
-        'accept': 'audio/mpeg',
-        'Content-Type': 'application/json',
+        voice: config.voice,
+        language: config.language,
+        response_format: config.responseFormat,
+        speed: config.speed,
+        sample_rate: config.sampleRate,
       };
 
-      if (SPEACHES_CONFIG.apiKey) {
-        headers['Authorization'] = `Bearer ${SPEACHES_CONFIG.apiKey}`;
-        headers['X-API-Key'] = SPEACHES_CONFIG.apiKey;
-      }
-
-      console.log('📤 Sending TTS request to:', SPEACHES_CONFIG.ttsUrl);
+      console.log('📤 Sending TTS request to:', config.ttsUrl);
       console.log('📝 Payload:', JSON.stringify(payload, null, 2));
 
-      const response = await fetch(SPEACHES_CONFIG.ttsUrl, {
+      const requestSpan = latencyTracer.startSpan('tts_request', { chars: trimmed.length });
+      const response = await authService.withAuth(authHeaders => fetch(config.ttsUrl, {
         method: 'POST',
-        headers,
+        headers: {
+          'accept': 'audio/mpeg',
+          'Content-Type': 'application/json',
+          ...authHeaders,
+        },
         body: JSON.stringify(payload),
-      });
+      }));
+      // fetch resolves when headers arrive - closest we get to first byte
+      latencyTracer.markOnce('first_tts_byte');
 
       if (!response.ok) {
+        requestSpan.end({ status: response.status });
         const errorBody = await response.text().catch(() => '');
         throw new Error(`Speaches TTS failed: ${response.status} ${errorBody}`);
       }
 
       const blob = await response.blob();
+      requestSpan.end({ bytes: blob.size });
       console.log('✅ Received audio blob:', blob.size, 'bytes');
 
       // ✅ Convert blob to file and play - NOW WAITS UNTIL FINISHED!
-      await this.playAudioBlob(blob);
+      const playbackSpan = latencyTracer.startSpan('tts_playback');
+      try {
+        await this.playAudioBlob(blob);
+      } finally {
+        playbackSpan.end();
+      }
 
     } catch (error) {
       console.error('❌ Speaches TTS error:', error);
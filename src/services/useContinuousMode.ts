@@ -5,63 +5,60 @@
  * 
  * UPDATED: Feb 6, 2026 - Priority for reaching_ios over reaching_flag
  * 
- * This hook handles the continuous mode loop for navigation and reaching,
- * with special handling for iOS ARKit reaching which takes priority.
- * 
- * PRIORITY ORDER:
- * 1. reaching_ios=true → Trigger iOS ARKit (no loop, native takeover)
- * 2. reaching_flag=true → Start reaching continuous loop
- * 3. navigation=true → Start navigation continuous loop
+ * This hook handles the continuous mode loop for any action in the
+ * ActionRegistry. 'continuous' actions (navigation, reaching) run the
+ * loop; 'handover' actions (iOS ARKit reaching) stop it and let a native
+ * module take over. Priorities live in the registry.
+ *
+ * The loop itself is ContinuousLoopEngine (shared with App.tsx); this
+ * hook supplies camera and speech and mirrors the engine's status.
  */
 
-import { useCallback, useRef, useState, useEffect } from 'react';
-import { Platform, NativeModules, AccessibilityInfo } from 'react-native';
-import {
-    sendToWorkflow,
-    startContinuousMode as startMode,
-    stopContinuousMode as stopMode,
-    incrementContinuousMode,
-    updateLoopDelay,
-    shouldPreventInfiniteLoop,
-    isContinuousModeActive,
-    getCurrentMode,
-    determineActionMode,
-    triggerIOSReaching,
-    ActionMode,
-} from '../services/WorkflowService';
+import { useCallback, useState, useEffect, useRef } from 'react';
+import { determineActionMode } from '../services/WorkflowService';
+import { actionRegistry, ActionDefinition, ActionEarcon, ActionType } from '../services/ActionRegistry';
+import { continuousLoopEngine, LoopResult, LoopSnapshot } from '../services/ContinuousLoopEngine';
 import { WorkflowResponse } from '../utils/types';
 import { AccessibilityService } from '../services/AccessibilityService';
 
 interface UseContinuousModeProps {
     capturePhoto: () => Promise<string | null>;
     speakText: (text: string) => Promise<void>;
-    playEarcon: (type: 'thinking' | 'speaking' | 'ready' | 'error' | 'cancel') => void;
+    stopSpeaking?: () => Promise<void>;
+    playEarcon: (type: ActionEarcon) => void;
     onStop?: (reason: string) => void;
-    onIOSReachingTriggered?: (object: string) => void;
+    onHandover?: (action: ActionType, response: WorkflowResponse) => void;
 }
 
 interface UseContinuousModeReturn {
     isActive: boolean;
-    currentMode: 'navigation' | 'reaching' | 'reaching_ios' | null;
+    isPaused: boolean;
+    currentMode: ActionType | null;
     iterationCount: number;
     handleBackendResponse: (response: WorkflowResponse) => Promise<void>;
-    startLoop: (mode: 'navigation' | 'reaching', loopDelay?: number) => void;
+    startLoop: (mode: ActionType, loopDelay?: number) => void;
     stopLoop: (reason: string) => void;
+    pauseLoop: () => boolean;
+    resumeLoop: () => boolean;
 }
 
 export const useContinuousMode = ({
     capturePhoto,
     speakText,
+    stopSpeaking,
     playEarcon,
     onStop,
-    onIOSReachingTriggered,
+    onHandover,
 }: UseContinuousModeProps): UseContinuousModeReturn => {
-    const [isActive, setIsActive] = useState(false);
-    const [currentMode, setCurrentMode] = useState<'navigation' | 'reaching' | 'reaching_ios' | null>(null);
-    const [iterationCount, setIterationCount] = useState(0);
+    const [loop, setLoop] = useState<LoopSnapshot>(continuousLoopEngine.getSnapshot());
+    // The engine is shared with App.tsx: only the run started here is ours
+    const runCounterRef = useRef(0);
+    const ownRunRef = useRef<number | null>(null);
 
-    const isRunningRef = useRef(false);
-    const abortControllerRef = useRef<AbortController | null>(null);
+    useEffect(() => {
+        setLoop(continuousLoopEngine.getSnapshot());
+        return continuousLoopEngine.subscribe(setLoop);
+    }, []);
 
     // =========================================================================
     // Stop the continuous loop
@@ -69,239 +66,82 @@ export const useContinuousMode = ({
     const stopLoop = useCallback((reason: string) => {
         console.log(`🛑 Stopping continuous mode: ${reason}`);
 
-        isRunningRef.current = false;
+        const mode = continuousLoopEngine.getSnapshot().mode;
+        continuousLoopEngine.stop(reason);   // Aborts the request, cleans up the action
 
-        // Abort any pending requests
-        if (abortControllerRef.current) {
-            abortControllerRef.current.abort();
-            abortControllerRef.current = null;
+        const earcon = actionRegistry.getEarcon(mode, 'stop');
+        if (earcon) {
+            playEarcon(earcon);
         }
-
-        stopMode(reason);
-        setIsActive(false);
-        setCurrentMode(null);
-        setIterationCount(0);
-
-        playEarcon('cancel');
         onStop?.(reason);
     }, [playEarcon, onStop]);
 
     // =========================================================================
-    // Handle iOS ARKit Reaching (PRIORITY 1)
+    // Hand over to a native action (e.g. iOS ARKit reaching)
     // =========================================================================
-    const handleIOSReaching = useCallback(async (
-        bbox: [number, number, number, number],
-        objectName: string
+    const handOver = useCallback(async (
+        action: ActionDefinition,
+        response: WorkflowResponse
     ): Promise<boolean> => {
-        if (Platform.OS !== 'ios') {
-            console.warn('🚫 iOS reaching called on non-iOS platform');
-            return false;
-        }
-
-        console.log('🎯 [iOS ARKit] Starting reaching for:', objectName);
-        console.log('📦 [iOS ARKit] Bounding box:', bbox);
+        console.log(`🎯 [${action.type}] Handing over`);
 
         // Stop any existing continuous mode
-        if (isRunningRef.current) {
-            stopLoop('iOS ARKit takeover');
+        if (continuousLoopEngine.isRunning()) {
+            stopLoop(`${action.type} takeover`);
         }
 
-        setCurrentMode('reaching_ios');
-
         // Announce to user
-        AccessibilityService.announceForAccessibility(
-            `Guiding you to ${objectName}. Follow the audio cues.`
-        );
+        AccessibilityService.announce(actionRegistry.announce(action.type, 'start', response));
 
-        // Trigger the native iOS module
-        const success = await triggerIOSReaching(bbox, objectName);
+        const success = action.start ? await action.start(response) : false;
 
         if (success) {
-            onIOSReachingTriggered?.(objectName);
+            onHandover?.(action.type, response);
         } else {
-            // If native module not available, fall back to reaching loop
-            console.warn('⚠️ iOS ARKit not available, falling back to reaching loop');
-            setCurrentMode(null);
-            return false;
+            console.warn(`⚠️ [${action.type}] Not available on this device`);
         }
 
         return success;
-    }, [stopLoop, onIOSReachingTriggered]);
+    }, [stopLoop, onHandover]);
 
     // =========================================================================
-    // Start the continuous loop
+    // Start the continuous loop (ContinuousLoopEngine runs it)
     // =========================================================================
-    const startLoop = useCallback((mode: 'navigation' | 'reaching', loopDelay?: number) => {
-        if (isRunningRef.current) {
-            console.log('⚠️ Continuous mode already running, stopping first');
-            stopLoop('resetting for new loop');
-        }
-
+    const startLoop = useCallback((mode: ActionType, loopDelay?: number) => {
         console.log(`🔄 [${mode}] Starting continuous mode`);
 
-        isRunningRef.current = true;
-        setIsActive(true);
-        setCurrentMode(mode);
-        setIterationCount(0);
-
-        startMode(mode, loopDelay);
-
-        // Run the loop
-        runLoop(mode, loopDelay);
-    }, [stopLoop]);
-
-    // =========================================================================
-    // Main loop execution
-    // =========================================================================
-    const runLoop = useCallback(async (mode: 'navigation' | 'reaching', loopDelay?: number) => {
-        const delay = loopDelay || 2500;
-
-        console.log('🔄 Starting fresh continuous loop...');
-        console.log(`🔄 [ContinuousMode] Starting loop`);
-
-        while (isRunningRef.current) {
-            try {
-                incrementContinuousMode();
-                setIterationCount(prev => prev + 1);
-
-                // Wait before next iteration
-                console.log(`🔄 [ContinuousMode] Waiting ${delay}ms before next iteration`);
-                await new Promise(resolve => setTimeout(resolve, delay));
-
-                if (!isRunningRef.current) {
-                    console.log('🔄 [ContinuousMode] Cancelled during delay');
-                    break;
-                }
-
-                // Check rate limiting
-                if (shouldPreventInfiniteLoop()) {
-                    console.warn('⚠️ Rate limit reached, stopping loop');
-                    stopLoop('rate limit');
-                    break;
-                }
-
-                // Capture photo
-                console.log('🔄 [ContinuousMode] Capturing photo...');
-                const photoPath = await capturePhoto();
-
-                if (!photoPath) {
-                    console.error('❌ Failed to capture photo, stopping loop');
-                    stopLoop('photo capture failed');
-                    break;
-                }
-
-                if (!isRunningRef.current) {
-                    console.log('🔄 [ContinuousMode] Cancelled during capture');
-                    break;
-                }
-
-                // Create abort controller for this request
-                abortControllerRef.current = new AbortController();
-
-                // Send to backend
-                console.log('🔄 [ContinuousMode] Sending to backend...');
-                const response = await sendToWorkflow(
-                    {
-                        text: '(continuous mode)',
-                        imageUri: photoPath,
-                        navigation: mode === 'navigation',
-                        reaching_flag: mode === 'reaching',
-                    },
-                    abortControllerRef.current.signal
-                );
-
-                if (!isRunningRef.current) {
-                    console.log('🔄 [ContinuousMode] Cancelled during request');
-                    break;
-                }
-
-                console.log('🔄 [ContinuousMode] Backend response:', {
-                    text: response.text.substring(0, 50),
-                    navigation: response.navigation,
-                    reaching_flag: response.reaching_flag,
-                    reaching_ios: response.reaching_ios,  
-                    bbox: response.bbox,                   
-                    object: response.object,             
-                    loopDelay: response.loopDelay
-                });
-
-                // =====================================================================
-                // ★★★ PRIORITY HANDLING ★★★
-                // =====================================================================
-
-                const action = determineActionMode(response);
-
-                console.log('🔄 [ContinuousMode] Action:', action.type);
-
-                // PRIORITY 1: iOS ARKit takes over
-                if (action.type === 'reaching_ios') {
-                    console.log('🎯 [ContinuousMode] iOS ARKit detected, handing over...');
-
-                    // Speak the response first
-                    if (response.text) {
-                        await speakText(response.text);
-                    }
-
-                    // Then trigger iOS ARKit
-                    await handleIOSReaching(action.bbox, action.object);
-
-                    // Stop this loop - native iOS takes over
-                    isRunningRef.current = false;
-                    setIsActive(false);
-                    setCurrentMode('reaching_ios');
-                    break;
-                }
-
-                // Check if backend wants to stop
-                const bothInactive = !response.navigation && !response.reaching_flag;
-                console.log('🔄 [ContinuousMode] Flag status:', {
-                    navigation: response.navigation,
-                    reaching: response.reaching_flag,
-                    bothInactive,
-                });
-
-                if (bothInactive) {
-                    console.log('🔄 [ContinuousMode] Backend signaled stop');
-
-                    // Speak final response
-                    if (response.text) {
-                        await speakText(response.text);
-                    }
-
-                    stopLoop('backend stopped');
-                    break;
-                }
-
-                // Update delay if provided
-                if (response.loopDelay && response.loopDelay > 0) {
-                    updateLoopDelay(response.loopDelay);
-                }
-
-                // Speak the response
-                console.log('🔄 [ContinuousMode] Speaking response...');
-                if (response.text) {
-                    await speakText(response.text);
-                }
-
-                if (!isRunningRef.current) {
-                    console.log('🔄 [ContinuousMode] Cancelled during playback');
-                    break;
-                }
-
-            } catch (error: any) {
-                if (error.message?.includes('cancel')) {
-                    console.log('🔄 [ContinuousMode] Request cancelled');
-                    break;
+        const run = ++runCounterRef.current;
+        ownRunRef.current = run;
+        continuousLoopEngine.start(
+            mode,
+            {
+                capture: async () => (await capturePhoto()) || '',
+                speak: speakText,
+                stopSpeaking,
+            },
+            loopDelay
+        ).then((result: LoopResult) => {
+            if (ownRunRef.current === run) {
+                ownRunRef.current = null;
+            }
+            if (result.outcome === 'handover' && result.handover) {
+                handOver(result.handover.action, result.handover.response);
+            } else if (result.outcome !== 'stopped') {
+                // Ended by itself (stopLoop reports its own stops)
+                const earcon = actionRegistry.getEarcon(result.mode, 'stop');
+                if (earcon) {
+                    playEarcon(earcon);
                 }
-
-                console.error('❌ [ContinuousMode] Loop error:', error);
-                stopLoop('error');
-                break;
+                onStop?.(result.reason);
             }
-        }
+        });
+    }, [capturePhoto, speakText, stopSpeaking, handOver, playEarcon, onStop]);
 
-        console.log('🔄 [ContinuousMode] Loop ended');
-    }, [capturePhoto, speakText, stopLoop, handleIOSReaching]);
+    // =========================================================================
+    // Pause / resume (same session and mode)
+    // =========================================================================
+    const pauseLoop = useCallback(() => continuousLoopEngine.pause(), []);
+    const resumeLoop = useCallback(() => continuousLoopEngine.resume(), []);
 
     // =========================================================================
     // Handle initial backend response (decides what mode to start)
@@ -311,46 +151,47 @@ export const useContinuousMode = ({
 
         const action = determineActionMode(response);
 
-        switch (action.type) {
-            case 'reaching_ios':
-                console.log('🎯 Backend requested iOS ARKit reaching');
-                await handleIOSReaching(action.bbox, action.object);
+        switch (action.action?.loop) {
+            case 'handover':
+                console.log(`🎯 Backend requested ${action.type} handover`);
+                await handOver(action.action, response);
                 break;
 
-            case 'reaching':
-                console.log('🔄 Backend requested reaching loop');
-                startLoop('reaching', action.loopDelay);
+            case 'continuous':
+                console.log(`🔄 Backend requested ${action.type} loop`);
+                startLoop(action.type, action.loopDelay);
                 break;
 
-            case 'navigation':
-                console.log('🗺️ Backend requested navigation loop');
-                startLoop('navigation', action.loopDelay);
-                break;
-
-            case 'none':
+            default:
                 console.log('✅ No continuous mode needed');
                 break;
         }
-    }, [handleIOSReaching, startLoop]);
+    }, [handOver, startLoop]);
 
     // =========================================================================
     // Cleanup on unmount
     // =========================================================================
+    const stopLoopRef = useRef(stopLoop);
+    stopLoopRef.current = stopLoop;
+
     useEffect(() => {
         return () => {
-            if (isRunningRef.current) {
-                stopLoop('component unmount');
+            if (ownRunRef.current !== null) {
+                stopLoopRef.current('component unmount');
             }
         };
-    }, [stopLoop]);
+    }, []);
 
     return {
-        isActive,
-        currentMode,
-        iterationCount,
+        isActive: loop.status !== 'idle',
+        isPaused: loop.status === 'paused',
+        currentMode: loop.mode,
+        iterationCount: loop.iteration,
         handleBackendResponse,
         startLoop,
         stopLoop,
+        pauseLoop,
+        resumeLoop,
     };
 };
 
@@ -0,0 +1,298 @@
+/**
+ * src/utils/bbox.ts
+ *
+ * One coordinate system for reaching bounding boxes
+ *
+ * The backend's bbox refers to the image it received: the preprocessed
+ * upload, upright (EXIF rotation applied), imageWidth x imageHeight.
+ * Depending on the model it arrives as pixels, 0..1 or 0..1000
+ * (Qwen2-VL), sometimes as a string and sometimes with swapped corners.
+ * Every reaching entry point goes through here:
+ *
+ *   parseBbox            array / "[1,2,3,4]" / {xmin, ymin, xmax, ymax}
+ *   validateBbox         units, corner order, bounds → normalized 0..1
+ *   resolveReachingTarget  response → pixels + size + sensor box, or null
+ *
+ * and between coordinate spaces:
+ *
+ *   image (normalized, upright) ⇄ sensor   imageToSensor / sensorToImage
+ *   image → preview view (px, resizeMode)  imageToPreview
+ *
+ * Sensor convention: the upload is the sensor image, mirrored if
+ * isMirrored, then rotated clockwise by the photo orientation
+ * (portrait 0°, landscape-left 90°, portrait-upside-down 180°,
+ * landscape-right 270°).
+ */
+
+import {
+  Bbox,
+  BboxUnits,
+  CameraOrientation,
+  ImageFrame,
+  ReachingTarget,
+  WorkflowResponse,
+} from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface BboxValidation {
+  valid: boolean;
+  normalized: Bbox | null;   // 0..1 in the uploaded image
+  units: BboxUnits | null;
+  warnings: string[];
+  error?: string;
+}
+
+const BOUNDS_TOLERANCE = 0.02;      // Overshoot clamped silently (fraction of the image)
+const NORMALIZED_EPSILON = 0.001;
+
+const ORIENTATION_ROTATION: Record<CameraOrientation, Rotation> = {
+  'portrait': 0,
+  'landscape-left': 90,
+  'portrait-upside-down': 180,
+  'landscape-right': 270,
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const round = (value: number, digits: number = 4): number => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+// =============================================================================
+// Parsing & validation
+// =============================================================================
+
+/**
+ * Four finite numbers from an array, a legacy string or a corner object
+ */
+export const parseBbox = (value: unknown): Bbox | null => {
+  let parts: unknown[] | null = null;
+
+  if (Array.isArray(value)) {
+    parts = value;
+  } else if (typeof value === 'string') {
+    let bboxString = value.trim();
+    if (bboxString.startsWith('[') && bboxString.endsWith(']')) {
+      bboxString = bboxString.slice(1, -1);
+    }
+    parts = bboxString.split(',');
+  } else if (value && typeof value === 'object') {
+    const corners = value as Record<string, unknown>;
+    parts = 'xmin' in corners
+      ? [corners.xmin, corners.ymin, corners.xmax, corners.ymax]
+      : [corners.x1, corners.y1, corners.x2, corners.y2];
+  }
+
+  if (!parts || parts.length !== 4) {
+    return null;
+  }
+
+  const numbers = parts.map(part => (typeof part === 'string' ? Number(part.trim()) : Number(part)));
+  return numbers.some(number => !Number.isFinite(number)) ? null : (numbers as Bbox);
+};
+
+/**
+ * Best guess when the backend does not say (bbox_units)
+ */
+export const detectUnits = (bbox: Bbox, imageSize?: ImageFrame | null): BboxUnits => {
+  const max = Math.max(...bbox);
+  if (max <= 1 + NORMALIZED_EPSILON) {
+    return 'normalized';
+  }
+
+  if (imageSize && max <= 1000) {
+    const beyondImage =
+      Math.max(bbox[0], bbox[2]) > imageSize.width * (1 + BOUNDS_TOLERANCE) ||
+      Math.max(bbox[1], bbox[3]) > imageSize.height * (1 + BOUNDS_TOLERANCE);
+    if (beyondImage) {
+      return 'per_mille';
+    }
+  }
+  return 'pixels';
+};
+
+/**
+ * Normalize a bbox to 0..1 of the uploaded image, fixing what can be
+ * fixed (swapped corners, small overshoot) and rejecting the rest
+ *
+ * @param units - From the response's bbox_units; detected if absent
+ */
+export const validateBbox = (
+  bbox: Bbox,
+  imageSize?: ImageFrame | null,
+  units?: BboxUnits
+): BboxValidation => {
+  const warnings: string[] = [];
+  const resolvedUnits = units || detectUnits(bbox, imageSize);
+  const invalid = (error: string): BboxValidation => ({
+    valid: false,
+    normalized: null,
+    units: resolvedUnits,
+    warnings,
+    error,
+  });
+
+  let scaleX = 1;
+  let scaleY = 1;
+  if (resolvedUnits === 'per_mille') {
+    scaleX = scaleY = 1000;
+  } else if (resolvedUnits === 'pixels') {
+    if (!imageSize?.width || !imageSize?.height) {
+      return invalid('pixel bbox without the uploaded image size');
+    }
+    scaleX = imageSize.width;
+    scaleY = imageSize.height;
+  }
+
+  let [xmin, ymin, xmax, ymax] = [bbox[0] / scaleX, bbox[1] / scaleY, bbox[2] / scaleX, bbox[3] / scaleY];
+
+  if (xmin > xmax) {
+    [xmin, xmax] = [xmax, xmin];
+    warnings.push('x corners swapped');
+  }
+  if (ymin > ymax) {
+    [ymin, ymax] = [ymax, ymin];
+    warnings.push('y corners swapped');
+  }
+
+  if (xmax <= 0 || ymax <= 0 || xmin >= 1 || ymin >= 1) {
+    return invalid(`bbox ${JSON.stringify(bbox)} is outside the image`);
+  }
+
+  const overshoot = Math.max(-xmin, -ymin, xmax - 1, ymax - 1);
+  if (overshoot > BOUNDS_TOLERANCE) {
+    warnings.push(`bbox exceeds the image by ${Math.round(overshoot * 100)}%, clamped`);
+  }
+
+  const normalized: Bbox = [clamp01(xmin), clamp01(ymin), clamp01(xmax), clamp01(ymax)].map(value =>
+    round(value)
+  ) as Bbox;
+
+  if (normalized[2] - normalized[0] <= 0 || normalized[3] - normalized[1] <= 0) {
+    return invalid(`bbox ${JSON.stringify(bbox)} is empty`);
+  }
+
+  return { valid: true, normalized, units: resolvedUnits, warnings };
+};
+
+// =============================================================================
+// Coordinate spaces
+// =============================================================================
+
+export const orientationToRotation = (orientation?: CameraOrientation): Rotation =>
+  (orientation && ORIENTATION_ROTATION[orientation]) || 0;
+
+/**
+ * Rotate a normalized bbox clockwise with its image
+ */
+export const rotateNormalized = (bbox: Bbox, rotation: Rotation): Bbox => {
+  const [xmin, ymin, xmax, ymax] = bbox;
+  switch (rotation) {
+    case 90:
+      return [1 - ymax, xmin, 1 - ymin, xmax];
+    case 180:
+      return [1 - xmax, 1 - ymax, 1 - xmin, 1 - ymin];
+    case 270:
+      return [ymin, 1 - xmax, ymax, 1 - xmin];
+    default:
+      return [xmin, ymin, xmax, ymax];
+  }
+};
+
+export const mirrorNormalized = (bbox: Bbox): Bbox => [1 - bbox[2], bbox[1], 1 - bbox[0], bbox[3]];
+
+/**
+ * Normalized upload box → normalized sensor box
+ */
+export const imageToSensor = (bbox: Bbox, frame?: ImageFrame | null): Bbox => {
+  const rotation = orientationToRotation(frame?.orientation);
+  const unrotated = rotateNormalized(bbox, ((360 - rotation) % 360) as Rotation);
+  return frame?.isMirrored ? mirrorNormalized(unrotated) : unrotated;
+};
+
+/**
+ * Normalized sensor box → normalized upload box
+ */
+export const sensorToImage = (bbox: Bbox, frame?: ImageFrame | null): Bbox => {
+  const unmirrored = frame?.isMirrored ? mirrorNormalized(bbox) : bbox;
+  return rotateNormalized(unmirrored, orientationToRotation(frame?.orientation));
+};
+
+/**
+ * Normalized upload box → pixels of an upright preview view showing the
+ * same image ('cover' crops, 'contain' letterboxes)
+ */
+export const imageToPreview = (
+  bbox: Bbox,
+  imageSize: ImageFrame,
+  viewSize: { width: number; height: number },
+  resizeMode: 'cover' | 'contain' = 'cover'
+): Bbox => {
+  const scaleX = viewSize.width / imageSize.width;
+  const scaleY = viewSize.height / imageSize.height;
+  const scale = resizeMode === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const offsetX = (viewSize.width - imageSize.width * scale) / 2;
+  const offsetY = (viewSize.height - imageSize.height * scale) / 2;
+
+  return [
+    offsetX + bbox[0] * imageSize.width * scale,
+    offsetY + bbox[1] * imageSize.height * scale,
+    offsetX + bbox[2] * imageSize.width * scale,
+    offsetY + bbox[3] * imageSize.height * scale,
+  ].map(value => Math.round(value)) as Bbox;
+};
+
+/**
+ * Normalized box → integer pixels of an image
+ */
+export const toPixels = (bbox: Bbox, imageSize: ImageFrame): Bbox => [
+  Math.round(bbox[0] * imageSize.width),
+  Math.round(bbox[1] * imageSize.height),
+  Math.round(bbox[2] * imageSize.width),
+  Math.round(bbox[3] * imageSize.height),
+];
+
+// =============================================================================
+// Reaching entry point
+// =============================================================================
+
+/**
+ * The response's bbox as a validated reaching target, or null when it
+ * cannot be placed reliably (no bbox, no image size, out of bounds).
+ * A wrong box sends the user's hand to the wrong shelf, so guessing is
+ * not an option.
+ */
+export const resolveReachingTarget = (response: WorkflowResponse): ReachingTarget | null => {
+  if (!response.bbox) {
+    return null;
+  }
+
+  const validation = validateBbox(response.bbox, response.imageSize, response.bbox_units);
+  validation.warnings.forEach(warning => console.warn(`⚠️ [Bbox] ${warning}`));
+
+  if (!validation.valid || !validation.normalized || !validation.units) {
+    console.warn(`⚠️ [Bbox] Unusable bbox: ${validation.error}`);
+    return null;
+  }
+
+  if (!response.imageSize?.width || !response.imageSize?.height) {
+    console.warn('⚠️ [Bbox] Uploaded image size unknown, cannot scale bbox');
+    return null;
+  }
+
+  return {
+    object: response.object || 'object',
+    bbox: toPixels(validation.normalized, response.imageSize),
+    normalized: validation.normalized,
+    sensorBbox: imageToSensor(validation.normalized, response.imageSize),
+    imageWidth: response.imageSize.width,
+    imageHeight: response.imageSize.height,
+    units: validation.units,
+  };
+};
@@ -13,6 +13,8 @@
  * Application constants including API endpoints, colors, and configuration
  */
 
+import { Platform } from 'react-native';
+
 // ============================================================================
 // API Configuration
 // ============================================================================
@@ -41,6 +43,298 @@ export const NAVIGATION_CONFIG = {
   MAX_LOOP_ITERATIONS: 300,
   MIN_REQUEST_INTERVAL_MS: 2000,
   ENABLE_NAVIGATION_LOOP: true,
+  MIN_LOOP_DELAY_MS: 500,    // Backend loopDelay is clamped to this range
+  MAX_LOOP_DELAY_MS: 30000,
+  MAX_CONSECUTIVE_ERRORS: 3,  // Retryable failures in a row before a loop gives up
+  MAX_PAUSE_MS: 10 * 60 * 1000,  // A paused loop ends after this (ContinuousLoopEngine)
+} as const;
+
+// ============================================================================
+// ADAPTIVE LOOP TIMING (LoopDelayController)
+// ============================================================================
+
+export const LOOP_TIMING_CONFIG = {
+  SPEECH_SETTLE_MS: 300,           // Minimum pause after speech before the next capture
+  CAMERA_SETTLE_MS: 150,           // Camera already running inside a loop (vs full reactivation)
+  UNCHANGED_BACKOFF: 1.5,          // Target interval × this per unchanged frame in a row
+  SMOOTHING: 0.3,                  // EWMA weight of the newest capture / round-trip sample
+  RATE_MARGIN_MS: 100,             // Stay clear of MIN_REQUEST_INTERVAL_MS
+} as const;
+
+// ============================================================================
+// RETRY POLICY (WorkflowService)
+// ============================================================================
+
+export const RETRY_CONFIG = {
+  MAX_ATTEMPTS: 3,                 // First try + 2 retries
+  BASE_DELAY_MS: 500,              // Backoff: random(0, base * 2^n), full jitter
+  MAX_DELAY_MS: 4000,
+  BUDGET_MS: 90000,                // No new retry after this much total time
+  CONTINUOUS_MAX_ATTEMPTS: 2,      // Loop iterations go stale quickly
+  CONNECT_TIMEOUT_MS: 10000,       // Until the first progress event
+  RESPONSE_TIMEOUT_MS: CONFIG.REQUEST_TIMEOUT, // First progress event -> response
+} as const;
+
+// ============================================================================
+// INTERACTION STATE MACHINE (watchdog for stuck states)
+// ============================================================================
+
+export const INTERACTION_CONFIG = {
+  // A state still active after this long is abandoned (back to idle, the
+  // user is told); 0 = no limit. Speaking, loops and native guidance end
+  // on their own or by a tap.
+  STATE_TIMEOUTS_MS: {
+    listening: 60000,
+    capturing: 15000,
+    processing: RETRY_CONFIG.BUDGET_MS + 5000,   // Retries included
+  } as Record<string, number>,
+  LOG_TRANSITIONS: true,
+} as const;
+
+// ============================================================================
+// AUTHENTICATION (per-participant tokens, AuthService)
+// ============================================================================
+
+export const AUTH_CONFIG = {
+  KEYCHAIN_SERVICE: 'shelfscout.auth',   // + '.<environment id>'
+  REFRESH_MARGIN_MS: 60 * 1000,          // Refresh this long before expiry
+  REQUEST_TIMEOUT_MS: 10000,             // Token / refresh requests
+} as const;
+
+// ============================================================================
+// LATENCY TRACING
+// ============================================================================
+
+export const TRACE_CONFIG = {
+  ENABLED: true,
+  BUFFER_SIZE: 100,                // Finished traces kept on device (ring buffer)
+  MAX_SPANS_PER_TRACE: 200,
+  PERSIST: true,                   // Survive restarts / crashes for export
+  PERSIST_DELAY_MS: 5000,          // Batch writes: a busy loop ends a trace every second
+} as const;
+
+// ============================================================================
+// CONVERSATION SESSIONS
+// ============================================================================
+
+export const SESSION_CONFIG = {
+  EXPIRY_MS: 30 * 60 * 1000,       // Idle time before a restored session is ended
+  MAX_HISTORY: 20,                 // Past sessions kept on device
+  NOTIFY_BACKEND: true,            // POST start / end / resume to the handshake's session_events_url
+} as const;
+
+// ============================================================================
+// CONVERSATION CONTEXT (recent turns sent with each request)
+// ============================================================================
+
+export const CONVERSATION_CONFIG = {
+  ENABLED: true,                   // false = no conversation_history field
+  CONTEXT_TURNS: 6,                // Most recent turns attached to a request
+  CONTEXT_MAX_TOKENS: 600,         // Estimated, see CHARS_PER_TOKEN
+  CONTEXT_MAX_BYTES: 4096,         // UTF-8 size of the serialized history
+  CHARS_PER_TOKEN: 4,              // Rough estimate for English text
+  MAX_TURNS_PER_SESSION: 50,       // Kept on device per session
+  RECAP_TURNS: 4,                  // Turns read out by "recent conversation"
+} as const;
+
+// ============================================================================
+// TOUCH GESTURES (GestureSurface, GestureMap)
+// ============================================================================
+
+export const GESTURE_CONFIG = {
+  // Default gesture → action; users can remap (persisted in gestures.json)
+  MAPPINGS: {
+    doubleTap: 'repeatAnswer',
+    longPress: 'togglePause',
+    twoFingerTap: 'stop',
+    swipeLeft: 'recentConversation',
+    swipeRight: 'gestureHelp',
+    swipeUp: 'fasterSpeech',
+    swipeDown: 'slowerSpeech',
+  },
+  LONG_PRESS_MS: 600,
+  DOUBLE_TAP_MAX_DELAY_MS: 300,    // Single taps wait this long when a double tap is mapped
+  TAP_MAX_DISTANCE: 20,            // Points a finger may move and still tap (otherwise a swipe)
+} as const;
+
+// ============================================================================
+// LOCAL VOICE COMMANDS (LocalCommandInterceptor, no backend round trip)
+// ============================================================================
+
+export const LOCAL_COMMAND_CONFIG = {
+  ENABLED: true,
+  MAX_WORDS: 6,                    // Longer transcripts always go to the backend
+  // Dropped from either end before matching ("please stop", "stop now")
+  FILLERS: ['please', 'ok', 'okay', 'hey', 'just', 'now', 'cybersight', 'can you', 'could you', 'would you'],
+  // The whole transcript must be one of these, so "where is the bus stop" is not a stop
+  INTENTS: {
+    stop: ['stop', 'stop talking', 'be quiet', 'quiet', 'cancel', 'never mind', 'shut up', 'enough'],
+    repeatAnswer: ['repeat', 'repeat that', 'say that again', 'say again', 'again', 'what did you say', 'pardon'],
+    slowerSpeech: ['slower', 'speak slower', 'talk slower', 'slow down', 'speak more slowly'],
+    fasterSpeech: ['faster', 'speak faster', 'talk faster', 'speed up'],
+    newConversation: ['start over', 'start again', 'new conversation', 'new session', 'reset'],
+    status: ['status', 'what is your status', 'are you there', 'are you working'],
+    handsFreeOn: ['hands free', 'hands free on', 'turn on hands free', 'start hands free'],
+    handsFreeOff: ['hands free off', 'turn off hands free', 'stop hands free'],
+    signIn: ['sign in', 'log in', 'sign in participant'],
+  },
+} as const;
+
+// ============================================================================
+// HANDS-FREE WAKE PHRASE (WakePhraseDetector)
+// ============================================================================
+
+export const WAKE_PHRASE_CONFIG = {
+  ENABLED: true,                   // false = hands-free mode cannot be turned on
+  PHRASE: 'Hey Scout',             // As spoken in the announcements
+  // Matched as whole words anywhere in the window; recognition starts
+  // after the RMS VAD hears speech, so the first word is often clipped
+  ALIASES: ['hey scout', 'hi scout', 'ok scout', 'okay scout', 'scout'],
+  RECOGNITION_WINDOW_MS: 2500,     // Short on-device recognition per burst of speech
+  // Sound must last this long to open a window; the indicator tick
+  // (bip.wav, ~60 ms) and other clicks never do
+  MIN_SPEECH_MS: 250,
+  IDLE_TIMEOUT_MS: 5 * 60 * 1000,  // No wake phrase for this long → off
+  // Battery safeguards
+  MAX_ARMED_MS: 30 * 60 * 1000,    // Off after this long, however busy
+  MAX_WINDOWS_PER_MINUTE: 6,       // More speech than this (busy aisle) → back off
+  BACKOFF_MS: 60 * 1000,           // RMS monitoring off for this long
+  // Audible indicator while the microphone is open
+  INDICATOR_INTERVAL_MS: 30 * 1000,
+  INDICATOR_VOLUME: 0.3,
+} as const;
+
+// ============================================================================
+// BARGE-IN (BargeInController: talking over an answer interrupts it)
+// ============================================================================
+
+export const BARGE_IN_CONFIG = {
+  ENABLED: true,
+  MIN_SPEECH_MS: 400,              // Sustained speech over playback; shorter sounds never interrupt
+  ECHO_MARGIN_DB: 8,               // Above the loudest recent echo of our own playback
+  ECHO_WINDOW_MS: 3000,
+  ECHO_CALIBRATION_MS: 800,        // No barge-in until the echo has been measured
+  // Android records the microphone during playback, so the interrupting
+  // utterance is transcribed from its start (iOS hands over to on-device STT)
+  PRE_ROLL_MS: 1000,               // Kept from before the speech was confirmed
+  END_SILENCE_MS: 1200,            // Silence that ends the utterance
+  MAX_UTTERANCE_MS: 15000,
+  SAMPLE_RATE: 16000,
+  AUDIO_SOURCE: 7,                 // Android VOICE_COMMUNICATION: platform echo canceller on
+} as const;
+
+// ============================================================================
+// IMAGE PREPROCESSING (before upload)
+// ============================================================================
+
+export const IMAGE_PREPROCESS_CONFIG = {
+  ENABLED: true,
+  MAX_DIMENSION: 1280,             // Longest side in px after downscaling
+  QUALITY: Math.round(CONFIG.PHOTO_QUALITY * 100), // Initial JPEG quality
+  MIN_QUALITY: 40,                 // Never go below this to meet the budget
+  QUALITY_STEP: 15,
+  MAX_BYTES: 250 * 1024,           // Target upload size
+  KEEP_RECENT: 5,                  // Processed files kept before cleanup
+} as const;
+
+// ============================================================================
+// BURST CAPTURE (continuous mode iterations)
+// ============================================================================
+
+export const BURST_CAPTURE_CONFIG = {
+  ENABLED: false,                  // false = one photo per iteration
+  FRAME_COUNT: 3,
+  INTERVAL_MS: 150,                // Between frames
+  // 'sharpest': upload the sharpest frame only
+  // 'all':      upload every frame as image_0..n (if the backend accepts it)
+  // 'auto':     'all' when the capability handshake advertises
+  //             max_images_per_request > 1, else 'sharpest'
+  MODE: 'auto' as 'sharpest' | 'all' | 'auto',
+} as const;
+
+// ============================================================================
+// FRAME CHANGE DETECTION (skip uploads of an unchanged scene in loops)
+// ============================================================================
+
+export const FRAME_CHANGE_CONFIG = {
+  ENABLED: true,
+  // 'skip':      no request while the scene is unchanged
+  // 'heartbeat': request without image, frame_unchanged=true (backend keeps
+  //              its loop state and may still end the loop). Only sent to a
+  //              backend whose handshake lists 'frame_unchanged', else skip.
+  UNCHANGED_ACTION: 'skip' as 'skip' | 'heartbeat',
+  // dHash distance (0-64 bits) at or below which a frame counts as unchanged,
+  // per action type; reaching needs small hand movements to register
+  THRESHOLDS: { navigation: 8, reaching: 4 } as Record<string, number>,
+  DEFAULT_THRESHOLD: 6,
+  MAX_UNCHANGED: 4,                // Upload anyway after this many in a row
+  THUMBNAIL_SIZE: 32,              // px, hashed after downscaling
+} as const;
+
+// ============================================================================
+// REACHING GUIDANCE (audio / haptic cues from the backend bbox)
+// ============================================================================
+
+export const REACHING_GUIDANCE_CONFIG = {
+  ENABLED: true,
+  // Where the cues run; iOS normally hands reaching over to ARKit
+  PLATFORMS: ['android', 'ios'] as string[],
+  // Fractions of the frame; the target is "centered" inside CENTER_TOLERANCE
+  // of the frame center and stops being centered beyond it + UNCENTER_MARGIN
+  CENTER_TOLERANCE: 0.1,
+  UNCENTER_MARGIN: 0.05,
+  MAX_PITCH_CENTS: 1200,           // Target at the top / bottom edge (±1 octave)
+  // Bip interval from the bbox size (sqrt of its area fraction):
+  // DEFAULT at or below FAR_SIZE, MIN at or above NEAR_SIZE
+  DEFAULT_INTERVAL_MS: 1000,
+  MIN_INTERVAL_MS: 100,
+  FAR_SIZE: 0.1,
+  NEAR_SIZE: 0.6,
+  VOLUME: 0.8,
+  HAPTIC_MS: 20,                   // Tick with each bip while centered
+  TARGET_TIMEOUT_MS: 8000,         // No new bbox for this long → target lost
+} as const;
+
+// ============================================================================
+// STREAMING WORKFLOW TRANSPORT
+// ============================================================================
+
+export const WORKFLOW_STREAM_CONFIG = {
+  ENABLED: true,                   // Only where the handshake lists 'stream'; false = never
+  FIRST_BYTE_TIMEOUT_MS: 10000,    // No response headers yet: fall back to POST
+  TOTAL_TIMEOUT_MS: CONFIG.REQUEST_TIMEOUT,
+} as const;
+
+// ============================================================================
+// OFFLINE REQUEST QUEUE
+// ============================================================================
+
+export const OFFLINE_QUEUE_CONFIG = {
+  ENABLED: true,
+  MAX_ITEMS: 10,
+  MAX_AGE_MS: 30 * 60 * 1000,      // Older questions are no longer relevant
+  MAX_ATTEMPTS: 20,
+  RETRY_INTERVAL_MS: 10000,
+  MAX_RETRY_INTERVAL_MS: 60000,
+} as const;
+
+// ============================================================================
+// BACKEND CAPABILITY HANDSHAKE (CapabilityService)
+// ============================================================================
+
+export const CAPABILITY_CONFIG = {
+  ENABLED: true,                   // false = assume every action is supported
+  REQUEST_TIMEOUT_MS: 5000,        // Startup must not wait on a slow server
+  ANNOUNCE_UNSUPPORTED: true,      // Say which features the server lacks
+} as const;
+
+// ============================================================================
+// WORKFLOW RESPONSE SCHEMA
+// ============================================================================
+
+export const WORKFLOW_SCHEMA_CONFIG = {
+  VERSION: 1,                  // Sent as schema_version with every request
+  WARN_ON_UNKNOWN_FIELDS: true,
 } as const;
 
 // ============================================================================
@@ -109,20 +403,84 @@ export const COLORS = {
 // API Endpoints
 // ============================================================================
 
-// Mansi's workflow
-export const WORKFLOW_URL = 'https://cybersight.cim.mcgill.ca/api/webhook/29ee1345-f789-4738-997f-ffdae65bba74';
+// Backend environments, selectable at runtime (EnvironmentService).
+// production is what participants use; each developer has a profile for
+// their own workflow; local is the mock server. Add a staging profile
+// here once its webhook exists.
 
-// Adnaan's workflow 
-//export const WORKFLOW_URL = 'https://cybersight.cim.mcgill.ca/api/webhook/2a6dcae3-c11b-4989-86ce-8a4224f18a7f';
+// Android emulators reach the host machine through 10.0.2.2
+const LOCAL_MOCK_HOST = Platform.OS === 'android' ? '10.0.2.2' : 'localhost';
+const CYBERSIGHT_SPEACHES_URL = 'https://cybersight.cim.mcgill.ca/speaches/v1';
+// Participant token service (AuthService)
+const CYBERSIGHT_AUTH_URL = 'https://cybersight.cim.mcgill.ca/api/auth';
+// Development key for developers' own workflows; compiled into debug
+// builds only, so release builds always sign in
+const CYBERSIGHT_DEV_API_KEY = __DEV__ ? 'dev-test-key-change-in-production' : undefined;
+// Capability handshake (CapabilityService, see README "Backend Capabilities")
+const CYBERSIGHT_CAPABILITIES_URL = 'https://cybersight.cim.mcgill.ca/api/capabilities';
 
+export const BACKEND_ENVIRONMENTS = {
+  production: {
+    id: 'production',
+    label: 'Production',
+    // The workflow every build has shipped with
+    workflowUrl: 'https://cybersight.cim.mcgill.ca/api/webhook/29ee1345-f789-4738-997f-ffdae65bba74',
+    speachesBaseUrl: CYBERSIGHT_SPEACHES_URL,
+    authUrl: CYBERSIGHT_AUTH_URL,
+    capabilitiesUrl: CYBERSIGHT_CAPABILITIES_URL,
+  },
+  mansi: {
+    id: 'mansi',
+    label: "Mansi's workflow",
+    workflowUrl: 'https://cybersight.cim.mcgill.ca/api/webhook/29ee1345-f789-4738-997f-ffdae65bba74',
+    speachesBaseUrl: CYBERSIGHT_SPEACHES_URL,
+    authUrl: CYBERSIGHT_AUTH_URL,
+    sharedApiKey: CYBERSIGHT_DEV_API_KEY,
+    capabilitiesUrl: CYBERSIGHT_CAPABILITIES_URL,
+  },
+  adnaan: {
+    id: 'adnaan',
+    label: "Adnaan's workflow",
+    workflowUrl: 'https://cybersight.cim.mcgill.ca/api/webhook/2a6dcae3-c11b-4989-86ce-8a4224f18a7f',
+    speachesBaseUrl: CYBERSIGHT_SPEACHES_URL,
+    authUrl: CYBERSIGHT_AUTH_URL,
+    sharedApiKey: CYBERSIGHT_DEV_API_KEY,
+    capabilitiesUrl: CYBERSIGHT_CAPABILITIES_URL,
+  },
+  local: {
+    id: 'local',
+    label: 'Local mock server',
+    workflowUrl: `http://${LOCAL_MOCK_HOST}:8787/webhook/shelfscout`,
+    speachesBaseUrl: `http://${LOCAL_MOCK_HOST}:8787/speaches/v1`,
+    authUrl: `http://${LOCAL_MOCK_HOST}:8787/auth`,
+    sharedApiKey: 'local-mock-key',
+    capabilitiesUrl: `http://${LOCAL_MOCK_HOST}:8787/capabilities`,
+  },
+} as const;
+
+export type BackendEnvironmentId = keyof typeof BACKEND_ENVIRONMENTS;
+
+export const DEFAULT_ENVIRONMENT_ID: BackendEnvironmentId = 'production';
+
+// Shared Speaches settings (URL comes from the environment, credentials from AuthService)
 export const SPEACHES_CONFIG = {
-  BASE_URL: 'https://cybersight.cim.mcgill.ca',
   TTS_ENDPOINT: '/audio/speech',
   STT_ENDPOINT: '/audio/transcriptions',
   MODEL: 'speaches-ai/Kokoro-82M-v1.0-ONNX',
   VOICE: 'af_heart',
+  LANGUAGE: 'en-us',
   FORMAT: 'mp3',
+  SPEED: 1,
   SAMPLE_RATE: 24000,
+  STT_MODEL: 'Systran/faster-distil-whisper-small.en',
+  STT_LANGUAGE: 'en',
+} as const;
+
+// Speech speed the user sets with gestures (SpeechSettings)
+export const SPEECH_RATE_CONFIG = {
+  MIN: 0.7,
+  MAX: 1.6,
+  STEP: 0.1,
 } as const;
 
 // ============================================================================
@@ -133,6 +491,7 @@ export type ColorName = keyof typeof COLORS;
 export type ConfigKey = keyof typeof CONFIG;
 export type SilenceDetectionConfigKey = keyof typeof SILENCE_DETECTION_CONFIG;
 export type NavigationConfigKey = keyof typeof NAVIGATION_CONFIG;
+export type WorkflowSchemaConfigKey = keyof typeof WORKFLOW_SCHEMA_CONFIG;
 
 // ============================================================================
 // Helper Functions
@@ -185,10 +544,31 @@ export const getContrastInfo = (
 export default {
   CONFIG,
   COLORS,
-  WORKFLOW_URL,
+  BACKEND_ENVIRONMENTS,
+  DEFAULT_ENVIRONMENT_ID,
   SPEACHES_CONFIG,
+  SPEECH_RATE_CONFIG,
   SILENCE_DETECTION_CONFIG,
   NAVIGATION_CONFIG,
+  LOOP_TIMING_CONFIG,
+  INTERACTION_CONFIG,
+  WORKFLOW_SCHEMA_CONFIG,
+  OFFLINE_QUEUE_CONFIG,
+  RETRY_CONFIG,
+  AUTH_CONFIG,
+  CAPABILITY_CONFIG,
+  WORKFLOW_STREAM_CONFIG,
+  IMAGE_PREPROCESS_CONFIG,
+  BURST_CAPTURE_CONFIG,
+  FRAME_CHANGE_CONFIG,
+  REACHING_GUIDANCE_CONFIG,
+  SESSION_CONFIG,
+  CONVERSATION_CONFIG,
+  GESTURE_CONFIG,
+  LOCAL_COMMAND_CONFIG,
+  WAKE_PHRASE_CONFIG,
+  BARGE_IN_CONFIG,
+  TRACE_CONFIG,
   getColor,
   getConfig,
   getSilenceDetectionConfig,
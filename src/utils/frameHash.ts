@@ -0,0 +1,74 @@
+/**
+ * src/utils/frameHash.ts
+ *
+ * Perceptual difference hash (dHash) of a small RGBA image
+ *
+ * The image is box-averaged to a 9x8 luma grid; each bit says whether a
+ * cell is darker than its right neighbour. Exposure changes and JPEG
+ * noise barely move the hash, a different view of the shelf flips many
+ * of the 64 bits. Hashes are '0'/'1' strings so no bitwise math is needed.
+ */
+
+const HASH_COLS = 9;
+const HASH_ROWS = 8;
+
+export const HASH_BITS = (HASH_COLS - 1) * HASH_ROWS;
+
+/**
+ * Mean luma (Rec. 601) per cell of a cols x rows grid
+ */
+export const toLumaGrid = (
+  rgba: ArrayLike<number>,
+  width: number,
+  height: number,
+  cols: number,
+  rows: number
+): number[] => {
+  const sums = new Array(cols * rows).fill(0);
+  const counts = new Array(cols * rows).fill(0);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(rows - 1, Math.floor((y * rows) / height));
+    for (let x = 0; x < width; x++) {
+      const col = Math.min(cols - 1, Math.floor((x * cols) / width));
+      const offset = (y * width + x) * 4;
+      const luma = 0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2];
+      sums[row * cols + col] += luma;
+      counts[row * cols + col]++;
+    }
+  }
+
+  return sums.map((sum, index) => (counts[index] ? sum / counts[index] : 0));
+};
+
+/**
+ * 64-character '0'/'1' hash of an RGBA image (at least 9x8 px)
+ */
+export const dHash = (rgba: ArrayLike<number>, width: number, height: number): string => {
+  const grid = toLumaGrid(rgba, width, height, HASH_COLS, HASH_ROWS);
+  let hash = '';
+
+  for (let row = 0; row < HASH_ROWS; row++) {
+    for (let col = 0; col < HASH_COLS - 1; col++) {
+      hash += grid[row * HASH_COLS + col] < grid[row * HASH_COLS + col + 1] ? '1' : '0';
+    }
+  }
+  return hash;
+};
+
+/**
+ * Number of differing bits; hashes of different length count as fully different
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) {
+    return Math.max(a.length, b.length);
+  }
+
+  let distance = 0;
+  for (let index = 0; index < a.length; index++) {
+    if (a[index] !== b[index]) {
+      distance++;
+    }
+  }
+  return distance;
+};
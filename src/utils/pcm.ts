@@ -0,0 +1,71 @@
+/**
+ * src/utils/pcm.ts
+ *
+ * 16-bit little-endian PCM from the microphone (react-native-audio-record)
+ *
+ * Levels are RMS in dBFS (0 = full scale), the unit RMSVoiceActivityDetector
+ * works in. DataView keeps the sample math free of bitwise operators.
+ */
+
+export const SILENCE_DB = -100;
+
+const FULL_SCALE = 32768;
+const WAV_HEADER_BYTES = 44;
+
+/**
+ * RMS level of a chunk of mono or interleaved samples
+ */
+export const pcm16LevelDb = (pcm: Uint8Array): number => {
+  const samples = Math.floor(pcm.length / 2);
+  if (samples === 0) {
+    return SILENCE_DB;
+  }
+
+  const view = new DataView(pcm.buffer, pcm.byteOffset, samples * 2);
+  let sumSquares = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = view.getInt16(i * 2, true) / FULL_SCALE;
+    sumSquares += sample * sample;
+  }
+
+  const rms = Math.sqrt(sumSquares / samples);
+  return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+};
+
+/**
+ * Milliseconds of audio in a number of bytes
+ */
+export const pcm16DurationMs = (bytes: number, sampleRate: number, channels: number = 1): number =>
+  (bytes / (2 * channels * sampleRate)) * 1000;
+
+/**
+ * A WAV file (canonical 44-byte header) around PCM chunks
+ */
+export const pcm16ToWav = (chunks: Uint8Array[], sampleRate: number, channels: number = 1): Uint8Array => {
+  const dataBytes = chunks.reduce((total, chunk) => total + chunk.length, 0);
+  const wav = new Uint8Array(WAV_HEADER_BYTES + dataBytes);
+  const view = new DataView(wav.buffer);
+  const writeText = (offset: number, text: string) =>
+    text.split('').forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, WAV_HEADER_BYTES - 8 + dataBytes, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);                        // fmt chunk size
+  view.setUint16(20, 1, true);                         // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true); // Byte rate
+  view.setUint16(32, channels * 2, true);              // Block align
+  view.setUint16(34, 16, true);                        // Bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  let offset = WAV_HEADER_BYTES;
+  chunks.forEach(chunk => {
+    wav.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return wav;
+};
@@ -0,0 +1,128 @@
+/**
+ * src/utils/reachingGuidance.ts
+ *
+ * Audio cue parameters for a reaching target, after FeedbackProcessor.swift
+ *
+ * The iOS ARKit module turns the target's offset from the reference
+ * point into a stereo-panned, pitched bip whose rate follows depth. The
+ * TypeScript engine (ReachingGuidanceEngine) only has the backend bbox,
+ * so the same cues come from the normalized box:
+ *
+ *   horizontal offset → pan       0 inside CENTER_TOLERANCE, then up to ±1 at the edge
+ *   vertical offset   → pitch     cubic, ±MAX_PITCH_CENTS at the edge ("Cubic" on iOS)
+ *   apparent size     → interval  DEFAULT_INTERVAL_MS far away, MIN_INTERVAL_MS up close
+ *                                 (iOS uses depth; a bigger box means a closer object)
+ *
+ * Centering has hysteresis like assistUser(): once centered, the target
+ * has to leave the zone by UNCENTER_MARGIN before the cue flips back.
+ */
+
+import { REACHING_GUIDANCE_CONFIG } from './constants';
+import { Bbox } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type GuidanceDirection =
+  | 'centered'
+  | 'left'
+  | 'top left'
+  | 'top'
+  | 'top right'
+  | 'right'
+  | 'down right'
+  | 'down'
+  | 'down left';
+
+export interface GuidanceCue {
+  pan: number;               // -1 (left ear) .. 1 (right ear)
+  pitchCents: number;        // + target above center, - below
+  pitchRate: number;         // Playback pitch multiplier (1 = unchanged)
+  intervalMs: number;        // Between two bips
+  proximity: number;         // 0 far .. 1 close, from the bbox size
+  centered: boolean;
+  direction: GuidanceDirection;
+  offsetX: number;           // Target center - frame center, fractions of the frame
+  offsetY: number;           // (positive = right / down)
+}
+
+// Counter-clockwise from "left", 45° sectors, like assistUser()
+const DIRECTIONS: GuidanceDirection[] = [
+  'left',
+  'top left',
+  'top',
+  'top right',
+  'right',
+  'down right',
+  'down',
+  'down left',
+];
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const round = (value: number, digits: number = 3): number => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+// =============================================================================
+// Mapping
+// =============================================================================
+
+/**
+ * Direction the camera has to move towards, from the target's offset
+ */
+export const directionFromOffset = (offsetX: number, offsetY: number): GuidanceDirection => {
+  if (offsetX === 0 && offsetY === 0) {
+    return 'centered';
+  }
+  // Angle of (frame center - target) in image coordinates, as computeAngle()
+  let degrees = (Math.atan2(-offsetY, -offsetX) * 180) / Math.PI;
+  if (degrees < 0) {
+    degrees += 360;
+  }
+  return DIRECTIONS[Math.round(degrees / 45) % 8];
+};
+
+/**
+ * Cue parameters for a normalized (0..1, upright) target box
+ *
+ * @param wasCentered - Previous cue's state, for hysteresis
+ */
+export const computeGuidanceCue = (bbox: Bbox, wasCentered: boolean = false): GuidanceCue => {
+  const config = REACHING_GUIDANCE_CONFIG;
+  const centerY = (bbox[1] + bbox[3]) / 2;
+  const offsetX = (bbox[0] + bbox[2]) / 2 - 0.5;
+  const offsetY = centerY - 0.5;
+
+  // Horizontal: dead zone, then linear up to the frame edge
+  const beyondX = Math.abs(offsetX) - config.CENTER_TOLERANCE;
+  const pan = beyondX <= 0 ? 0 : Math.sign(offsetX) * clamp(beyondX / (0.5 - config.CENTER_TOLERANCE), 0, 1);
+
+  // Vertical: cubic, so small offsets barely bend the pitch
+  const vertical = clamp((0.5 - centerY) / 0.5, -1, 1);
+  const pitchCents = Math.round(config.MAX_PITCH_CENTS * Math.pow(vertical, 3));
+
+  // Depth: the box grows as the hand (camera) gets closer
+  const size = Math.sqrt(Math.max(0, (bbox[2] - bbox[0]) * (bbox[3] - bbox[1])));
+  const proximity = clamp((size - config.FAR_SIZE) / (config.NEAR_SIZE - config.FAR_SIZE), 0, 1);
+  const intervalMs = Math.round(
+    config.DEFAULT_INTERVAL_MS - (config.DEFAULT_INTERVAL_MS - config.MIN_INTERVAL_MS) * proximity
+  );
+
+  const zone = config.CENTER_TOLERANCE + (wasCentered ? config.UNCENTER_MARGIN : 0);
+  const centered = Math.abs(offsetX) <= zone && Math.abs(offsetY) <= zone;
+
+  return {
+    pan: round(pan),
+    pitchCents,
+    pitchRate: round(Math.pow(2, pitchCents / 1200)),
+    intervalMs,
+    proximity: round(proximity),
+    centered,
+    direction: centered ? 'centered' : directionFromOffset(offsetX, offsetY),
+    offsetX: round(offsetX),
+    offsetY: round(offsetY),
+  };
+};
@@ -0,0 +1,98 @@
+/**
+ * src/utils/storage.ts
+ *
+ * Small JSON persistence helpers on top of react-native-fs
+ *
+ * Everything lives under <DocumentDirectory>/shelfscout so it survives
+ * app restarts and can be wiped in one place.
+ */
+
+import RNFS from 'react-native-fs';
+
+export const STORAGE_DIR = `${RNFS.DocumentDirectoryPath}/shelfscout`;
+
+let dirReady: Promise<void> | null = null;
+
+/**
+ * Ensure the storage directory (and an optional sub-directory) exists
+ */
+export const ensureStorageDir = async (subDir?: string): Promise<string> => {
+  if (!dirReady) {
+    dirReady = RNFS.mkdir(STORAGE_DIR).catch(error => {
+      dirReady = null;
+      throw error;
+    });
+  }
+  await dirReady;
+
+  if (!subDir) {
+    return STORAGE_DIR;
+  }
+
+  const path = `${STORAGE_DIR}/${subDir}`;
+  await RNFS.mkdir(path);
+  return path;
+};
+
+export const getStoragePath = (name: string): string => `${STORAGE_DIR}/${name}`;
+
+/**
+ * Read a JSON file, returning the fallback if it is missing or corrupt
+ */
+export const readJSON = async <T>(name: string, fallback: T): Promise<T> => {
+  const path = getStoragePath(name);
+
+  try {
+    if (!(await RNFS.exists(path))) {
+      return fallback;
+    }
+    const raw = await RNFS.readFile(path, 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.warn(`⚠️ [Storage] Could not read ${name}, using defaults:`, error);
+    return fallback;
+  }
+};
+
+/**
+ * Write a JSON file atomically (write to temp file, then move)
+ */
+export const writeJSON = async (name: string, value: unknown): Promise<void> => {
+  await ensureStorageDir();
+
+  const path = getStoragePath(name);
+  const tempPath = `${path}.tmp`;
+
+  try {
+    await RNFS.writeFile(tempPath, JSON.stringify(value), 'utf8');
+    if (await RNFS.exists(path)) {
+      await RNFS.unlink(path);
+    }
+    await RNFS.moveFile(tempPath, path);
+  } catch (error) {
+    console.error(`❌ [Storage] Could not write ${name}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a stored file if it exists
+ */
+export const removeFile = async (path: string): Promise<void> => {
+  try {
+    if (await RNFS.exists(path)) {
+      await RNFS.unlink(path);
+    }
+  } catch (error) {
+    console.warn('⚠️ [Storage] Could not delete file:', path, error);
+  }
+};
+
+export default {
+  STORAGE_DIR,
+  ensureStorageDir,
+  getStoragePath,
+  readJSON,
+  writeJSON,
+  removeFile,
+};
@@ -4,6 +4,14 @@ export interface WorkflowRequest {
   imageUri: string;
   navigation?: boolean;
   reaching_flag?: boolean;
+  request_id?: string;  // Stable across retries and offline replays (backend dedupe)
+  imageWidth?: number;  // Dimensions of the uploaded (preprocessed) image
+  imageHeight?: number;
+  frames?: BurstUploadFrame[];  // Burst upload, sent as image_0..n instead of image
+  imageOrientation?: CameraOrientation;  // Client-side only, for bbox → sensor mapping
+  imageMirrored?: boolean;
+  action?: string;      // Running loop's registered action (ActionRegistry)
+  frame_unchanged?: boolean;  // Heartbeat: scene unchanged since the last upload, no image
 }
 
 export interface WorkflowResponse {
@@ -16,22 +24,175 @@ export interface WorkflowResponse {
   // iOS ARKit Reaching (HIGHEST PRIORITY)
   reaching_ios: boolean;
   bbox?: [number, number, number, number];  // [xmin, ymin, xmax, ymax] from Qwen detection
+  bbox_units?: BboxUnits;                    // Absent = detected (src/utils/bbox)
   object?: string;                           // Name of detected object
   
   // Loop control
   loopDelay: number;
   session_id?: string;
+
+  // Registered client action to start (skills beyond the three flags)
+  action?: string;
+
+  // The image the backend saw (bbox coordinate space)
+  imageSize?: ImageFrame;
+
+  // Response contract version and validator output
+  schema_version?: number;
+  diagnostics?: WorkflowResponseDiagnostics;
+}
+
+// Workflow response schema validation
+export type WorkflowIssueCode =
+  | 'empty_payload'
+  | 'missing_field'
+  | 'invalid_type'
+  | 'invalid_value'
+  | 'unknown_field'
+  | 'legacy_alias'
+  | 'legacy_coercion'
+  | 'clamped'
+  | 'unsupported_version'
+  | 'unsupported_action';
+
+export interface WorkflowValidationIssue {
+  severity: 'error' | 'warning';
+  code: WorkflowIssueCode;
+  field: string;
+  message: string;
+}
+
+export interface WorkflowResponseDiagnostics {
+  schemaVersion: number | null;      // null = legacy payload without schema_version
+  errors: WorkflowValidationIssue[];
+  warnings: WorkflowValidationIssue[];
+  aliasesUsed: string[];             // e.g. 'response → text', 'json (envelope)'
+}
+
+// Conversation sessions (SessionManager)
+export type SessionEndReason =
+  | 'user_new_conversation'
+  | 'expired'
+  | 'backend_switched'
+  | 'replaced';
+
+export interface SessionRecord {
+  id: string;
+  startedAt: number;
+  lastActiveAt: number;
+  endedAt?: number;
+  endReason?: SessionEndReason;
+  turnCount: number;
+  title?: string;          // First question, for the history list
+}
+
+export type SessionEvent = 'session_start' | 'session_end' | 'session_resume';
+
+// Conversation log (ConversationLog)
+export type ConversationRole = 'user' | 'assistant';
+
+export interface ConversationTurn {
+  role: ConversationRole;
+  text: string;
+  at: number;              // epoch ms
+  requestId?: string;
+  loop?: boolean;          // Spoken by a continuous loop (navigation, reaching, ...)
+  flags?: {                // Action flags of an assistant reply
+    navigation: boolean;
+    reaching_flag: boolean;
+    reaching_ios: boolean;
+    object?: string;
+  };
+}
+
+// Latency tracing (LatencyTracer)
+export type TraceKind = 'voice_command' | 'navigation' | 'reaching';
+
+export type TraceStatus = 'ok' | 'error' | 'cancelled' | 'queued' | 'superseded';
+
+export interface TraceSpan {
+  name: string;
+  start: number;           // ms since trace start
+  end?: number;            // ms since trace start (equal to start for marks)
+  durationMs?: number;
+  attrs?: Record<string, string | number | boolean>;
+}
+
+export interface LatencyTrace {
+  id: string;
+  kind: TraceKind;
+  status?: TraceStatus;
+  startedAt: number;       // epoch ms
+  durationMs?: number;
+  requestId?: string;
+  sessionId?: string;
+  environmentId?: string;
+  attrs: Record<string, string | number | boolean>;
+  spans: TraceSpan[];
+}
+
+// Result of ImagePreprocessor (bboxes from the backend use these dimensions)
+export interface ProcessedImage {
+  path: string;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+  bytes: number;
+  quality: number;
+  orientation?: CameraOrientation;  // Of the camera photo, relative to the sensor
+  isMirrored?: boolean;
 }
 
 export interface CameraPhoto {
   path: string;
   width: number;
   height: number;
+  orientation?: CameraOrientation;
+  isMirrored?: boolean;
+}
+
+// Bounding boxes (src/utils/bbox.ts)
+export type Bbox = [number, number, number, number];   // [xmin, ymin, xmax, ymax]
+
+// 'pixels' of the uploaded image, 'normalized' 0..1, 'per_mille' 0..1000 (Qwen2-VL)
+export type BboxUnits = 'pixels' | 'normalized' | 'per_mille';
+
+// VisionCamera photo orientation (display orientation relative to the sensor)
+export type CameraOrientation = 'portrait' | 'portrait-upside-down' | 'landscape-left' | 'landscape-right';
+
+export interface ImageFrame {
+  width: number;
+  height: number;
+  orientation?: CameraOrientation;
+  isMirrored?: boolean;
+}
+
+// Validated bbox for every reaching entry point
+export interface ReachingTarget {
+  object: string;
+  bbox: Bbox;                // Pixels in the uploaded image
+  normalized: Bbox;          // 0..1 in the uploaded image
+  sensorBbox: Bbox;          // 0..1 in the camera sensor frame
+  imageWidth: number;
+  imageHeight: number;
+  units: BboxUnits;          // As sent by the backend
+}
+
+// Burst capture (BurstCapture, continuous mode)
+export interface BurstFrame extends CameraPhoto {
+  capturedAt: number;        // epoch ms
+  rawBytes: number;          // Camera JPEG size, used as the sharpness score
+}
+
+export interface BurstUploadFrame {
+  uri: string;               // Preprocessed image
+  capturedAt: number;        // Sent as image_<i>_timestamp
 }
 
 export interface ContinuousModeState {
   isActive: boolean;
-  mode: 'navigation' | 'reaching' | null;
+  mode: string | null;       // Continuous ActionRegistry type ('navigation', 'reaching', ...)
   iterationCount: number;
   lastRequestTime: number;
   currentLoopDelay: number;
@@ -54,3 +215,50 @@ export interface IOSReachingResult {
 
 
 
+
+// Backend environment profiles (see BACKEND_ENVIRONMENTS in constants.ts)
+export interface BackendEnvironment {
+  id: string;
+  label: string;
+  workflowUrl: string;
+  speachesBaseUrl: string;   // e.g. https://host/speaches/v1
+  authUrl?: string;          // Token service, POST {authUrl}/token and /refresh (none = no sign-in)
+  sharedApiKey?: string;     // Debug builds only: used while the device is not signed in
+  capabilitiesUrl: string;   // GET, capability handshake (CapabilityService)
+}
+
+// Participant credentials (AuthService, stored in the keychain)
+export interface AuthCredentials {
+  userId: string;
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;        // epoch ms; absent = does not expire
+}
+
+// Backend capability handshake (CapabilityService)
+export type BackendActionType = 'navigation' | 'reaching_flag' | 'reaching_ios';
+
+// Protocol extensions a backend must opt into (never assumed)
+export type BackendFeature =
+  | 'stream'           // Streamed answers for stream=true (WorkflowStreamClient)
+  | 'frame_unchanged'; // Image-less loop heartbeats (FRAME_CHANGE_CONFIG)
+
+export interface BackendLimits {
+  maxImageDimension: number;   // px, longest side of the upload
+  maxImageBytes: number;
+  minLoopDelayMs: number;      // Continuous loops never run faster than this
+  maxImagesPerRequest: number; // > 1 = backend accepts burst uploads (image_0..n)
+}
+
+export interface BackendCapabilities {
+  schemaVersion: number;
+  actions: string[];           // BackendActionType plus registered skills
+  limits: BackendLimits;
+  voices: string[];            // Empty = unknown, keep SPEACHES_CONFIG.VOICE
+  features: string[];          // BackendFeature; empty unless the backend lists them
+  sessionEventsUrl?: string;   // POST session start / end / resume here (none = not reported)
+  ttsModel?: string;
+  sttModel?: string;
+  source: 'backend' | 'cached' | 'assumed';
+  fetchedAt: number;
+}